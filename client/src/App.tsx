@@ -4,12 +4,39 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import FormCreator from "@/pages/form-creator";
+import FormFiller from "@/pages/form-filler";
+import AuthPage from "@/pages/auth-page";
 import NotFound from "@/pages/not-found";
+import { useAuth } from "@/hooks/use-auth";
+import { shareToken } from "@/lib/share-link";
 
 function Router() {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-muted-foreground">
+        <i className="fas fa-spinner fa-spin text-2xl"></i>
+      </div>
+    );
+  }
+  // Every page works on the account's documents, except the fill view
+  // opened through a share link
+  if (!user) {
+    return shareToken ? (
+      <Switch>
+        <Route path="/fill/:id" component={FormFiller} />
+        <Route component={AuthPage} />
+      </Switch>
+    ) : (
+      <AuthPage />
+    );
+  }
+
   return (
     <Switch>
       <Route path="/" component={FormCreator} />
+      <Route path="/fill/:id" component={FormFiller} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,237 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { MAX_BATCH_ROWS, type BatchOutput, type DocumentWithRole, type TextField } from "@shared/schema";
+import { parseCsvRows, previewBatchMapping, type BatchRow } from "@shared/batch-fill";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { downloadBlob, withFileSuffix } from "@/lib/download";
+
+interface BatchFillDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  document: DocumentWithRole;
+  textFields: TextField[];
+  font: string;
+}
+
+// JSON input must be an array of objects; anything else is read as CSV
+function parseBatchData(text: string): BatchRow[] {
+  if (!text.trim().startsWith("[")) {
+    return parseCsvRows(text);
+  }
+
+  const data = JSON.parse(text);
+  if (!Array.isArray(data) || data.some((row) => typeof row !== "object" || row === null || Array.isArray(row))) {
+    throw new Error("JSON data must be an array of objects");
+  }
+  return data;
+}
+
+export default function BatchFillDialog({ open, onOpenChange, document, textFields, font }: BatchFillDialogProps) {
+  const [dataText, setDataText] = useState("");
+  const [output, setOutput] = useState<BatchOutput>("zip");
+  const [flatten, setFlatten] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) setDataText("");
+  }, [open]);
+
+  const parsed = useMemo(() => {
+    if (!dataText.trim()) return { rows: [] as BatchRow[], error: null };
+    try {
+      return { rows: parseBatchData(dataText), error: null };
+    } catch (error) {
+      return { rows: [] as BatchRow[], error: error instanceof Error ? error.message : "Could not read the data" };
+    }
+  }, [dataText]);
+
+  const preview = useMemo(() => previewBatchMapping(textFields, parsed.rows), [textFields, parsed.rows]);
+
+  const batchFillMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/documents/${document.id}/batch-fill`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ rows: parsed.rows, output, flatten, font }),
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || "Batch fill failed");
+      }
+
+      const filename = output === "pdf"
+        ? withFileSuffix(document.originalName, "merged")
+        : withFileSuffix(document.originalName, "filled", "zip");
+      downloadBlob(await response.blob(), filename);
+    },
+    onSuccess: () => {
+      toast({ title: `Generated ${parsed.rows.length} filled cop${parsed.rows.length === 1 ? "y" : "ies"}` });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Batch fill failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFile = async (file: File | undefined) => {
+    if (file) setDataText(await file.text());
+  };
+
+  const tooManyRows = parsed.rows.length > MAX_BATCH_ROWS;
+  const canGenerate =
+    parsed.rows.length > 0 && !parsed.error && !tooManyRows && preview.problems.length === 0 && preview.matchedColumns.length > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Batch Fill</DialogTitle>
+          <DialogDescription>
+            Generate one filled copy per row. Column headers are matched to field names; radio buttons use their group name.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <Input
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            data-testid="input-batch-file"
+          />
+          <Textarea
+            value={dataText}
+            onChange={(e) => setDataText(e.target.value)}
+            placeholder={"Or paste CSV with a header row, or a JSON array of objects"}
+            rows={6}
+            className="font-mono text-xs"
+            data-testid="textarea-batch-data"
+          />
+
+          {parsed.error && (
+            <p className="text-sm text-destructive" data-testid="text-batch-parse-error">{parsed.error}</p>
+          )}
+
+          {parsed.rows.length > 0 && (
+            <div className="space-y-3 text-sm" data-testid="batch-mapping-preview">
+              <p className={tooManyRows ? "text-destructive" : "text-muted-foreground"}>
+                {parsed.rows.length} row{parsed.rows.length === 1 ? "" : "s"}
+                {tooManyRows && ` (at most ${MAX_BATCH_ROWS} per batch)`}
+              </p>
+
+              <div>
+                <Label className="text-sm font-medium text-muted-foreground">Columns</Label>
+                <div className="mt-1 flex flex-wrap gap-1">
+                  {preview.matchedColumns.map((column) => (
+                    <Badge key={column} className="bg-green-600 hover:bg-green-600" data-testid={`badge-column-matched-${column}`}>
+                      <i className="fas fa-check mr-1"></i>
+                      {column}
+                    </Badge>
+                  ))}
+                  {preview.unmatchedColumns.map((column) => (
+                    <Badge
+                      key={column}
+                      variant="outline"
+                      className="border-orange-400 text-orange-700"
+                      title="No field has this name; the column is ignored"
+                      data-testid={`badge-column-unmatched-${column}`}
+                    >
+                      <i className="fas fa-exclamation-triangle mr-1"></i>
+                      {column}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+
+              {preview.unmappedFields.length > 0 && (
+                <div>
+                  <Label className="text-sm font-medium text-muted-foreground">Fields without a column</Label>
+                  <div className="mt-1 flex flex-wrap gap-1">
+                    {preview.unmappedFields.map((field) => (
+                      <Badge
+                        key={field.id}
+                        variant={field.required ? "destructive" : "secondary"}
+                        data-testid={`badge-field-unmapped-${field.id}`}
+                      >
+                        {field.type === "radio" ? field.groupName || field.name : field.name}
+                        {field.required && " (required)"}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {preview.problems.length > 0 && (
+                <div className="rounded border border-destructive/40 bg-destructive/5 p-2 space-y-1" data-testid="batch-row-problems">
+                  {preview.problems.slice(0, 5).map((problem) => (
+                    <p key={problem.row} className="text-xs text-destructive">
+                      Row {problem.row}: {problem.message}
+                    </p>
+                  ))}
+                  {preview.problems.length > 5 && (
+                    <p className="text-xs text-destructive">…and {preview.problems.length - 5} more rows</p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="flex items-center gap-4">
+            <div className="flex gap-1 bg-muted rounded-md p-1">
+              {(["zip", "pdf"] as const).map((option) => (
+                <button
+                  key={option}
+                  className={`px-3 py-1 rounded text-sm ${output === option ? "bg-background shadow-sm" : "hover:bg-background/50"}`}
+                  onClick={() => setOutput(option)}
+                  data-testid={`button-batch-output-${option}`}
+                >
+                  {option === "zip" ? "ZIP of PDFs" : "Single PDF"}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="batch-flatten"
+                checked={output === "pdf" || flatten}
+                disabled={output === "pdf"}
+                onCheckedChange={setFlatten}
+                data-testid="switch-batch-flatten"
+              />
+              <Label htmlFor="batch-flatten" className="text-sm">
+                Flatten
+              </Label>
+            </div>
+          </div>
+          {output === "pdf" && (
+            <p className="text-xs text-muted-foreground">A single combined PDF is always flattened.</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => batchFillMutation.mutate()}
+            disabled={!canGenerate || batchFillMutation.isPending}
+            data-testid="button-batch-generate"
+          >
+            {batchFillMutation.isPending ? "Generating..." : "Generate"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,215 @@
+import { useState, useEffect } from "react";
+import { builtInFonts, type TextField } from "@shared/schema";
+import { useCustomFonts } from "@/hooks/use-custom-fonts";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { arrangeFields, type ArrangeCommand, type FieldChange } from "@/lib/arrange";
+
+const arrangeCommands: { command: ArrangeCommand; label: string }[] = [
+  { command: "align-left", label: "Left" },
+  { command: "align-center", label: "Center" },
+  { command: "align-right", label: "Right" },
+  { command: "align-top", label: "Top" },
+  { command: "align-middle", label: "Middle" },
+  { command: "align-bottom", label: "Bottom" },
+  { command: "same-width", label: "Same width" },
+  { command: "same-height", label: "Same height" },
+  { command: "distribute-horizontal", label: "Space across" },
+  { command: "distribute-vertical", label: "Space down" },
+];
+
+interface BulkFieldPropertiesProps {
+  fields: TextField[];
+  onUpdateFields: (changes: FieldChange[]) => void;
+  onDeleteFields: (ids: string[]) => void;
+}
+
+// The value every field has in common, or undefined when they differ
+function sharedValue<T>(fields: TextField[], read: (field: TextField) => T): T | undefined {
+  const first = read(fields[0]);
+  return fields.every((field) => read(field) === first) ? first : undefined;
+}
+
+const numberText = (value: number | null | undefined) => (value === undefined || value === null ? "" : value.toString());
+
+// Edits the properties shared by every selected field; a blank input means
+// the fields differ and nothing is changed until a value is typed
+export default function BulkFieldProperties({ fields, onUpdateFields, onDeleteFields }: BulkFieldPropertiesProps) {
+  const customFonts = useCustomFonts();
+  const [fontSize, setFontSize] = useState("");
+  const [width, setWidth] = useState("");
+  const [height, setHeight] = useState("");
+
+  const fontFamily = sharedValue(fields, (field) => field.fontFamily ?? "Arial");
+  const sharedFontSize = sharedValue(fields, (field) => field.fontSize ?? null);
+  const allRequired = fields.every((field) => field.required);
+  const someRequired = fields.some((field) => field.required);
+  const selectionKey = fields.map((field) => field.id).join(",");
+
+  useEffect(() => {
+    setFontSize(numberText(sharedFontSize));
+    setWidth(numberText(sharedValue(fields, (field) => field.width)));
+    setHeight(numberText(sharedValue(fields, (field) => field.height)));
+  }, [selectionKey]);
+
+  const updateAll = (updates: Partial<TextField>) => {
+    onUpdateFields(fields.map((field) => ({ id: field.id, updates })));
+  };
+
+  const handleFontSizeChange = (value: string) => {
+    setFontSize(value);
+    const size = parseFloat(value);
+    if (!isNaN(size) && size > 0) {
+      updateAll({ fontSize: size });
+    }
+  };
+
+  const handleWidthChange = (value: string) => {
+    setWidth(value);
+    const parsed = parseFloat(value);
+    if (!isNaN(parsed) && parsed > 0) {
+      updateAll({ width: parsed });
+    }
+  };
+
+  const handleHeightChange = (value: string) => {
+    setHeight(value);
+    const parsed = parseFloat(value);
+    if (!isNaN(parsed) && parsed > 0) {
+      updateAll({ height: parsed });
+    }
+  };
+
+  const arrange = (command: ArrangeCommand) => {
+    const changes = arrangeFields(fields, command);
+    if (changes.length > 0) onUpdateFields(changes);
+  };
+
+  return (
+    <Card className="mb-6" data-testid="card-bulk-field-properties">
+      <CardContent className="p-4">
+        <h3 className="font-medium mb-3">
+          {fields.length} Fields Selected
+        </h3>
+        <div className="space-y-3">
+          <div>
+            <Label className="text-sm font-medium text-muted-foreground">Arrange</Label>
+            {/* Sizes follow the first field selected */}
+            <div className="mt-1 grid grid-cols-3 gap-1">
+              {arrangeCommands.map(({ command, label }) => (
+                <Button
+                  key={command}
+                  size="sm"
+                  variant="outline"
+                  className="h-7 px-1 text-xs"
+                  onClick={() => arrange(command)}
+                  disabled={command.startsWith("distribute") && fields.length < 3}
+                  data-testid={`button-arrange-${command}`}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <Label className="text-sm font-medium text-muted-foreground">Font</Label>
+            <Select value={fontFamily ?? ""} onValueChange={(family) => updateAll({ fontFamily: family })}>
+              <SelectTrigger className="mt-1" data-testid="select-bulk-font-family">
+                <SelectValue placeholder="Mixed" />
+              </SelectTrigger>
+              <SelectContent>
+                {builtInFonts.map((family) => (
+                  <SelectItem key={family} value={family}>{family}</SelectItem>
+                ))}
+                {customFonts.map((font) => (
+                  <SelectItem key={font.id} value={font.family}>{font.family}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="bulk-font-size" className="text-sm font-medium text-muted-foreground">
+              Font Size
+            </Label>
+            <div className="flex gap-2 mt-1">
+              <Input
+                id="bulk-font-size"
+                type="number"
+                min={1}
+                value={fontSize}
+                onChange={(e) => handleFontSizeChange(e.target.value)}
+                placeholder={sharedFontSize === undefined ? "Mixed" : "Auto"}
+                data-testid="input-bulk-font-size"
+              />
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setFontSize("");
+                  updateAll({ fontSize: null });
+                }}
+                disabled={sharedFontSize === null}
+                data-testid="button-bulk-font-size-auto"
+              >
+                Auto
+              </Button>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <div className="flex-1">
+              <Label htmlFor="bulk-width" className="text-sm font-medium text-muted-foreground">
+                Width
+              </Label>
+              <Input
+                id="bulk-width"
+                type="number"
+                value={width}
+                onChange={(e) => handleWidthChange(e.target.value)}
+                placeholder="Mixed"
+                className="mt-1"
+                data-testid="input-bulk-width"
+              />
+            </div>
+            <div className="flex-1">
+              <Label htmlFor="bulk-height" className="text-sm font-medium text-muted-foreground">
+                Height
+              </Label>
+              <Input
+                id="bulk-height"
+                type="number"
+                value={height}
+                onChange={(e) => handleHeightChange(e.target.value)}
+                placeholder="Mixed"
+                className="mt-1"
+                data-testid="input-bulk-height"
+              />
+            </div>
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="bulk-required" className="text-sm font-medium text-muted-foreground">
+              Required{someRequired && !allRequired && " (some)"}
+            </Label>
+            <Switch
+              id="bulk-required"
+              checked={allRequired}
+              onCheckedChange={(checked) => updateAll({ required: checked })}
+              data-testid="switch-bulk-required"
+            />
+          </div>
+          <Button
+            variant="outline"
+            className="w-full text-destructive hover:text-destructive"
+            onClick={() => onDeleteFields(fields.map((field) => field.id))}
+            data-testid="button-bulk-delete"
+          >
+            <i className="fas fa-trash mr-2"></i>
+            Delete {fields.length} Fields
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,90 +1,216 @@
 import { useRef, useEffect, useState } from "react";
-import { type Document, type TextField } from "@shared/schema";
-import TextFieldComponent from "./text-field";
-import { loadPDFPage } from "@/lib/pdf-utils";
+import { useQuery } from "@tanstack/react-query";
+import { type DocumentWithRole, type FieldSuggestion, type PageLines, type TextField } from "@shared/schema";
+import { type Collaborator, type CursorPosition } from "@shared/collaboration";
+import TextFieldComponent, { type FieldDelta } from "./text-field";
+import FieldSuggestionBox from "./field-suggestion";
+import { usePageImages } from "@/hooks/use-page-images";
+import {
+  buildSnapTargets,
+  snapMove,
+  snapResize,
+  SNAP_DISTANCE,
+  type FieldRect,
+  type Guides,
+  type SnapSettings,
+} from "@/lib/snapping";
+
+// A rubber-band selection, in page points
+interface Marquee {
+  startX: number;
+  startY: number;
+  x: number;
+  y: number;
+  additive: boolean;
+}
+
+const marqueeRect = ({ startX, startY, x, y }: Marquee) => ({
+  x: Math.min(startX, x),
+  y: Math.min(startY, y),
+  width: Math.abs(x - startX),
+  height: Math.abs(y - startY),
+});
 
 interface CanvasProps {
-  document: Document;
+  document: DocumentWithRole;
   textFields: TextField[];
-  selectedField: TextField | null;
+  selectedFieldIds: string[];
   zoomLevel: number;
-  onSelectField: (field: TextField | null) => void;
+  snapSettings: SnapSettings;
+  currentPage: number;
+  onPageChange: (pageIndex: number) => void;
+  onPageCountChange: (pageCount: number) => void;
+  onSelectField: (field: TextField | null, additive?: boolean) => void;
+  onSelectFields: (ids: string[]) => void;
   onUpdateFieldPosition: (id: string, x: number, y: number) => void;
   onUpdateFieldSize: (id: string, width: number, height: number) => void;
+  onMoveFields: (ids: string[], deltaX: number, deltaY: number) => void;
+  onResizeFields: (ids: string[], deltaWidth: number, deltaHeight: number) => void;
+  suggestions: FieldSuggestion[];
+  onAcceptSuggestion: (suggestion: FieldSuggestion) => void;
+  onRejectSuggestion: (suggestion: FieldSuggestion) => void;
+  collaborators: Collaborator[];
+  onCursorMove: (cursor: CursorPosition | null) => void;
+  // For viewers: fields can be selected and inspected but not moved
+  readOnly: boolean;
 }
 
 export default function Canvas({
   document,
   textFields,
-  selectedField,
+  selectedFieldIds,
   zoomLevel,
+  snapSettings,
+  currentPage,
+  onPageChange,
+  onPageCountChange,
   onSelectField,
+  onSelectFields,
   onUpdateFieldPosition,
   onUpdateFieldSize,
+  onMoveFields,
+  onResizeFields,
+  suggestions,
+  onAcceptSuggestion,
+  onRejectSuggestion,
+  collaborators,
+  onCursorMove,
+  readOnly,
 }: CanvasProps) {
   const canvasRef = useRef<HTMLDivElement>(null);
-  const pdfCanvasRef = useRef<HTMLCanvasElement>(null);
-  const [pdfImageUrl, setPdfImageUrl] = useState<string | null>(null);
-  const [isLoadingPdf, setIsLoadingPdf] = useState(false);
+  const { pageImages, pageCount, isLoading: isLoadingPdf } = usePageImages(document);
+  const [marquee, setMarquee] = useState<Marquee | null>(null);
+  const [groupDrag, setGroupDrag] = useState<FieldDelta | null>(null);
+  const [guides, setGuides] = useState<Guides | null>(null);
   const scale = zoomLevel / 100;
 
-  // Load and render PDF when document changes
+  const { data: pageLines = [] } = useQuery<PageLines[]>({
+    queryKey: ["/api/documents", document.id, "lines"],
+    enabled: snapSettings.pageLines,
+  });
+
   useEffect(() => {
-    if (document.mimeType === 'application/pdf') {
-      setIsLoadingPdf(true);
-      
-      // Fetch the PDF file and convert to canvas
-      fetch(`/api/documents/${document.id}/file`)
-        .then(response => response.blob())
-        .then(blob => {
-          const file = new File([blob], document.originalName, { type: 'application/pdf' });
-          return loadPDFPage(file);
-        })
-        .then(({ canvas, width, height }) => {
-          // Convert canvas to image URL for background
-          const imageUrl = canvas.toDataURL('image/png');
-          setPdfImageUrl(imageUrl);
-          setIsLoadingPdf(false);
-        })
-        .catch(error => {
-          console.error('Error loading PDF:', error);
-          setIsLoadingPdf(false);
-        });
-    } else {
-      // For images, clear PDF state
-      setPdfImageUrl(null);
-      setIsLoadingPdf(false);
+    if (pageCount > 0) {
+      onPageCountChange(pageCount);
+    }
+  }, [pageCount]);
+
+  const page = pageImages[currentPage];
+  const pageWidth = page?.width || document.width || 612;
+  const pageHeight = page?.height || document.height || 792;
+  const pageFields = textFields.filter((field) => field.pageIndex === currentPage);
+  const selectedField = selectedFieldIds.length === 1 ? textFields.find((field) => field.id === selectedFieldIds[0]) : undefined;
+  const isGroupSelected = (field: TextField) => selectedFieldIds.length > 1 && selectedFieldIds.includes(field.id);
+
+  const toPagePoint = (clientX: number, clientY: number) => {
+    const bounds = canvasRef.current!.getBoundingClientRect();
+    return { x: (clientX - bounds.left) / scale, y: (clientY - bounds.top) / scale };
+  };
+
+  // Dragging on the empty page draws a selection rectangle
+  const handleCanvasMouseDown = (e: React.MouseEvent) => {
+    if (e.target !== e.currentTarget || e.button !== 0) return;
+    e.preventDefault();
+    const { x, y } = toPagePoint(e.clientX, e.clientY);
+    setMarquee({ startX: x, startY: y, x, y, additive: e.shiftKey });
+  };
+
+  useEffect(() => {
+    if (!marquee) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const { x, y } = toPagePoint(e.clientX, e.clientY);
+      setMarquee((current) => current && { ...current, x, y });
+    };
+
+    const handleMouseUp = () => {
+      const rect = marqueeRect(marquee);
+      setMarquee(null);
+      // A plain click on the page clears the selection
+      if (rect.width * scale < 3 && rect.height * scale < 3) {
+        if (!marquee.additive) onSelectField(null);
+        return;
+      }
+
+      const hits = pageFields
+        .filter(
+          (field) =>
+            field.x < rect.x + rect.width &&
+            rect.x < field.x + field.width &&
+            field.y < rect.y + rect.height &&
+            rect.y < field.y + field.height
+        )
+        .map((field) => field.id);
+      onSelectFields(marquee.additive ? Array.from(new Set([...selectedFieldIds, ...hits])) : hits);
+    };
+
+    window.document.addEventListener('mousemove', handleMouseMove);
+    window.document.addEventListener('mouseup', handleMouseUp);
+    window.document.body.style.userSelect = 'none';
+    return () => {
+      window.document.removeEventListener('mousemove', handleMouseMove);
+      window.document.removeEventListener('mouseup', handleMouseUp);
+      window.document.body.style.userSelect = '';
+    };
+  }, [marquee, scale, pageFields, selectedFieldIds, onSelectField, onSelectFields]);
+
+  // Snap to everything on the page except the fields being moved
+  const snapTargetsFor = (field: TextField) => {
+    const moving = isGroupSelected(field) ? selectedFieldIds : [field.id];
+    return buildSnapTargets(
+      pageFields.filter((other) => !moving.includes(other.id)),
+      pageLines.find((lines) => lines.pageIndex === currentPage),
+      snapSettings
+    );
+  };
+  const gridSize = snapSettings.grid && snapSettings.gridSize > 0 ? snapSettings.gridSize : null;
+
+  const snapFieldMove = (field: TextField, rect: FieldRect) => {
+    const snapped = snapMove(rect, snapTargetsFor(field), SNAP_DISTANCE / scale, gridSize);
+    setGuides(snapped.guides);
+    return snapped;
+  };
+
+  const snapFieldResize = (field: TextField, rect: FieldRect, edges: { right: boolean; bottom: boolean }) => {
+    const snapped = snapResize(rect, edges, snapTargetsFor(field), SNAP_DISTANCE / scale, gridSize);
+    setGuides(snapped.guides);
+    return snapped;
+  };
+
+  const handleFieldDragChange = (field: TextField, delta: FieldDelta | null) => {
+    if (isGroupSelected(field)) setGroupDrag(delta);
+    if (!delta) setGuides(null);
+  };
+
+  // With several fields selected, moving or resizing one applies to all of them
+  const updateFieldPosition = (field: TextField, x: number, y: number) => {
+    if (!isGroupSelected(field)) {
+      onUpdateFieldPosition(field.id, x, y);
+    } else if (x !== field.x || y !== field.y) {
+      onMoveFields(selectedFieldIds, x - field.x, y - field.y);
     }
-  }, [document.id, document.mimeType]);
+  };
 
-  const handleCanvasClick = (e: React.MouseEvent) => {
-    // Only deselect if clicking directly on the canvas, not on text fields
-    if (e.target === e.currentTarget) {
-      onSelectField(null);
+  const updateFieldSize = (field: TextField, width: number, height: number) => {
+    if (!isGroupSelected(field)) {
+      onUpdateFieldSize(field.id, width, height);
+    } else if (width !== field.width || height !== field.height) {
+      onResizeFields(selectedFieldIds, width - field.width, height - field.height);
     }
   };
+  const pageSuggestions = suggestions.filter((suggestion) => suggestion.pageIndex === currentPage);
 
-  // Determine background style based on file type
+  // Determine background style for the current page
   const getBackgroundStyle = () => {
-    if (document.mimeType === 'application/pdf') {
-      if (isLoadingPdf) {
-        return {
-          backgroundColor: '#f5f5f5',
-          backgroundImage: 'none',
-        };
-      } else if (pdfImageUrl) {
-        return {
-          backgroundImage: `url(${pdfImageUrl})`,
-          backgroundSize: 'contain',
-          backgroundPosition: 'center',
-          backgroundRepeat: 'no-repeat',
-        };
-      }
+    if (!page) {
+      return {
+        backgroundColor: '#f5f5f5',
+        backgroundImage: 'none',
+      };
     }
-    
-    // For image files, use the file URL directly
+
     return {
-      backgroundImage: `url(/api/documents/${document.id}/file)`,
+      backgroundImage: `url(${page.url})`,
       backgroundSize: 'contain',
       backgroundPosition: 'center',
       backgroundRepeat: 'no-repeat',
@@ -92,43 +218,180 @@ export default function Canvas({
   };
 
   return (
-    <div className="flex-1 canvas-area overflow-auto p-8 relative" data-testid="canvas-area">
-      <div className="max-w-4xl mx-auto relative">
-        <div
-          ref={canvasRef}
-          className="document-preview bg-white rounded-lg shadow-lg relative overflow-hidden"
-          style={{
-            width: (document.width || 612) * scale,
-            height: (document.height || 792) * scale,
-            ...getBackgroundStyle(),
-          }}
-          onClick={handleCanvasClick}
-          data-testid="document-canvas"
-        >
-          {/* Loading overlay for PDFs */}
-          {isLoadingPdf && (
-            <div className="absolute inset-0 flex items-center justify-center bg-gray-50 bg-opacity-90">
-              <div className="flex flex-col items-center">
-                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mb-2"></div>
-                <p className="text-sm text-gray-600">Loading PDF...</p>
+    <div className="flex-1 flex overflow-hidden">
+      {/* Page thumbnail strip */}
+      {pageImages.length > 1 && (
+        <div className="w-36 bg-card border-r border-border overflow-y-auto p-3 space-y-3" data-testid="page-thumbnails">
+          {pageImages.map((thumbnail, index) => {
+            const fieldCount = textFields.filter((field) => field.pageIndex === index).length;
+            return (
+              <button
+                key={index}
+                className={`block w-full rounded border-2 p-1 transition-colors ${
+                  index === currentPage
+                    ? "border-primary bg-primary/10"
+                    : "border-transparent hover:border-primary/50"
+                }`}
+                onClick={() => onPageChange(index)}
+                data-testid={`button-page-thumbnail-${index}`}
+              >
+                <img
+                  src={thumbnail.url}
+                  alt={`Page ${index + 1}`}
+                  className="w-full bg-white shadow"
+                />
+                <div className="mt-1 text-xs text-muted-foreground">
+                  {index + 1}
+                  {fieldCount > 0 && ` • ${fieldCount} field${fieldCount === 1 ? "" : "s"}`}
+                </div>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex-1 canvas-area overflow-auto p-8 relative" data-testid="canvas-area">
+        <div className="max-w-4xl mx-auto relative">
+          <div
+            ref={canvasRef}
+            className="document-preview bg-white rounded-lg shadow-lg relative overflow-hidden"
+            style={{
+              width: pageWidth * scale,
+              height: pageHeight * scale,
+              ...getBackgroundStyle(),
+            }}
+            onMouseDown={handleCanvasMouseDown}
+            onMouseMove={(e) => onCursorMove({ pageIndex: currentPage, ...toPagePoint(e.clientX, e.clientY) })}
+            onMouseLeave={() => onCursorMove(null)}
+            data-testid="document-canvas"
+          >
+            {/* Loading overlay for PDFs */}
+            {isLoadingPdf && (
+              <div className="absolute inset-0 flex items-center justify-center bg-gray-50 bg-opacity-90">
+                <div className="flex flex-col items-center">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mb-2"></div>
+                  <p className="text-sm text-gray-600">Loading PDF...</p>
+                </div>
               </div>
-            </div>
-          )}
-
-          {/* Text fields overlay */}
-          {textFields.map((field) => (
-            <TextFieldComponent
-              key={field.id}
-              field={field}
-              isSelected={selectedField?.id === field.id}
-              zoomLevel={zoomLevel}
-              onSelect={() => onSelectField(field)}
-              onUpdatePosition={(x, y) => onUpdateFieldPosition(field.id, x, y)}
-              onUpdateSize={(width, height) => onUpdateFieldSize(field.id, width, height)}
-            />
-          ))}
+            )}
+
+            {gridSize && (
+              <div
+                className="absolute inset-0 pointer-events-none"
+                style={{
+                  backgroundImage:
+                    "linear-gradient(to right, rgba(59, 130, 246, 0.15) 1px, transparent 1px), linear-gradient(to bottom, rgba(59, 130, 246, 0.15) 1px, transparent 1px)",
+                  backgroundSize: `${gridSize * scale}px ${gridSize * scale}px`,
+                }}
+                data-testid="canvas-grid"
+              />
+            )}
+
+            {/* Text fields overlay */}
+            {pageFields.map((field) => (
+              <TextFieldComponent
+                key={field.id}
+                field={field}
+                isSelected={selectedFieldIds.includes(field.id)}
+                isGroupMember={
+                  field.type === "radio" &&
+                  selectedField?.type === "radio" &&
+                  !!field.groupName &&
+                  field.groupName === selectedField.groupName
+                }
+                zoomLevel={zoomLevel}
+                dragOffset={isGroupSelected(field) ? groupDrag : null}
+                onSelect={(additive) => onSelectField(field, additive)}
+                onDragChange={(delta) => handleFieldDragChange(field, delta)}
+                onSnapMove={(rect) => snapFieldMove(field, rect)}
+                onSnapResize={(rect, edges) => snapFieldResize(field, rect, edges)}
+                onUpdatePosition={(x, y) => updateFieldPosition(field, x, y)}
+                onUpdateSize={(width, height) => updateFieldSize(field, width, height)}
+                readOnly={readOnly}
+              />
+            ))}
+
+            {/* Alignment guides while dragging */}
+            {guides?.vertical.map((x) => (
+              <div key={`v${x}`} className="absolute top-0 bottom-0 w-px bg-fuchsia-500 pointer-events-none" style={{ left: x * scale }} />
+            ))}
+            {guides?.horizontal.map((y) => (
+              <div key={`h${y}`} className="absolute left-0 right-0 h-px bg-fuchsia-500 pointer-events-none" style={{ top: y * scale }} />
+            ))}
+
+            {marquee && (
+              <div
+                className="absolute border border-primary bg-primary/10 pointer-events-none"
+                style={{
+                  left: marqueeRect(marquee).x * scale,
+                  top: marqueeRect(marquee).y * scale,
+                  width: marqueeRect(marquee).width * scale,
+                  height: marqueeRect(marquee).height * scale,
+                }}
+                data-testid="selection-marquee"
+              />
+            )}
+
+            {/* Fields other people have selected */}
+            {collaborators.flatMap((collaborator) =>
+              pageFields
+                .filter((field) => collaborator.selection.includes(field.id))
+                .map((field) => (
+                  <div
+                    key={`${collaborator.id}-${field.id}`}
+                    className="absolute border-2 pointer-events-none"
+                    style={{
+                      left: field.x * scale - 2,
+                      top: field.y * scale - 2,
+                      width: field.width * scale + 4,
+                      height: field.height * scale + 4,
+                      borderColor: collaborator.color,
+                    }}
+                    data-testid={`remote-selection-${collaborator.id}-${field.id}`}
+                  >
+                    <span
+                      className="absolute -top-4 left-0 whitespace-nowrap rounded px-1 text-[10px] leading-4 text-white"
+                      style={{ backgroundColor: collaborator.color }}
+                    >
+                      {collaborator.name}
+                    </span>
+                  </div>
+                ))
+            )}
+
+            {/* Other people's cursors */}
+            {collaborators
+              .filter((collaborator) => collaborator.cursor?.pageIndex === currentPage)
+              .map((collaborator) => (
+                <div
+                  key={collaborator.id}
+                  className="absolute pointer-events-none z-20"
+                  style={{ left: collaborator.cursor!.x * scale, top: collaborator.cursor!.y * scale, color: collaborator.color }}
+                  data-testid={`remote-cursor-${collaborator.id}`}
+                >
+                  <i className="fas fa-mouse-pointer"></i>
+                  <span
+                    className="ml-2 whitespace-nowrap rounded px-1 text-xs text-white"
+                    style={{ backgroundColor: collaborator.color }}
+                  >
+                    {collaborator.name}
+                  </span>
+                </div>
+              ))}
+
+            {/* Detected fields awaiting review */}
+            {pageSuggestions.map((suggestion) => (
+              <FieldSuggestionBox
+                key={suggestion.id}
+                suggestion={suggestion}
+                zoomLevel={zoomLevel}
+                onAccept={() => onAcceptSuggestion(suggestion)}
+                onReject={() => onRejectSuggestion(suggestion)}
+              />
+            ))}
+          </div>
         </div>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,78 @@
+import { type Collaborator } from "@shared/collaboration";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+
+interface CollaboratorsBarProps {
+  collaborators: Collaborator[];
+  color: string | undefined;
+}
+
+const initials = (name: string) =>
+  name
+    .split(/[\s_.-]+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((word) => word[0].toUpperCase())
+    .join("");
+
+function Avatar({ name, color, title }: { name: string; color: string; title: string }) {
+  return (
+    <span
+      className="flex h-7 w-7 items-center justify-center rounded-full border-2 border-background text-xs font-medium text-white"
+      style={{ backgroundColor: color }}
+      title={title}
+    >
+      {initials(name)}
+    </span>
+  );
+}
+
+// The signed-in account; `color` is the one other people see our cursor in
+export function AccountMenu({ color }: { color?: string }) {
+  const { user, logoutMutation } = useAuth();
+  if (!user) return null;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button className="rounded-full" data-testid="button-account">
+          <Avatar name={user.username} color={color ?? "#64748b"} title={`You (${user.username})`} />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-56 space-y-2">
+        <p className="text-sm">
+          Signed in as <span className="font-medium" data-testid="text-username">{user.username}</span>
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full"
+          onClick={() => logoutMutation.mutate()}
+          disabled={logoutMutation.isPending}
+          data-testid="button-sign-out"
+        >
+          <i className="fas fa-sign-out-alt mr-2"></i>
+          Sign out
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+// Everyone else editing this document, then ourselves
+export default function CollaboratorsBar({ collaborators, color }: CollaboratorsBarProps) {
+  return (
+    <div className="flex items-center -space-x-1" data-testid="collaborators-bar">
+      {collaborators.map((collaborator) => (
+        <Avatar
+          key={collaborator.id}
+          name={collaborator.name}
+          color={collaborator.color}
+          title={`${collaborator.name} is editing`}
+        />
+      ))}
+      <AccountMenu color={color} />
+    </div>
+  );
+}
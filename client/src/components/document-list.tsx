@@ -0,0 +1,84 @@
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { type DocumentRole, type DocumentWithRole } from "@shared/schema";
+
+interface DocumentListProps {
+  onOpenDocument: (document: DocumentWithRole) => void;
+}
+
+const roleLabels: Record<Exclude<DocumentRole, "owner">, string> = {
+  filler: "Fill out",
+  viewer: "View",
+  editor: "Edit",
+};
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+function DocumentSection({
+  title,
+  documents,
+  onOpen,
+}: {
+  title: string;
+  documents: DocumentWithRole[];
+  onOpen: (document: DocumentWithRole) => void;
+}) {
+  if (documents.length === 0) return null;
+
+  return (
+    <div className="mt-6">
+      <h3 className="text-sm font-medium text-muted-foreground mb-2">{title}</h3>
+      <ul className="border border-border rounded divide-y divide-border">
+        {documents.map((document) => (
+          <li key={document.id}>
+            <button
+              className="w-full px-3 py-2 flex items-center gap-3 text-left text-sm hover:bg-muted"
+              onClick={() => onOpen(document)}
+              data-testid={`button-open-document-${document.id}`}
+            >
+              <i className="fas fa-file-pdf text-muted-foreground"></i>
+              <span className="flex-1 truncate">{document.originalName}</span>
+              {document.role !== "owner" && (
+                <span className="px-1.5 rounded bg-muted text-xs text-muted-foreground">{roleLabels[document.role]}</span>
+              )}
+              <span className="text-xs text-muted-foreground">{formatSize(document.size)}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// The documents the signed-in user owns or has been given, to pick up where
+// they left off. Ones they may only fill out open in the fill view.
+export default function DocumentList({ onOpenDocument }: DocumentListProps) {
+  const [, navigate] = useLocation();
+  const { data: documents = [] } = useQuery<DocumentWithRole[]>({
+    queryKey: ["/api/documents"],
+  });
+
+  const open = (document: DocumentWithRole) => {
+    if (document.role === "filler") {
+      navigate(`/fill/${document.id}`);
+    } else {
+      onOpenDocument(document);
+    }
+  };
+
+  return (
+    <div data-testid="document-list">
+      <DocumentSection
+        title="Your documents"
+        documents={documents.filter((document) => document.role === "owner")}
+        onOpen={open}
+      />
+      <DocumentSection
+        title="Shared with you"
+        documents={documents.filter((document) => document.role !== "owner")}
+        onOpen={open}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { useRef } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { collaboratorHeaders } from "@/lib/collaborator";
+import { type DocumentWithRole } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+
+interface FieldDataTransferProps {
+  document: DocumentWithRole;
+  // Download only
+  readOnly: boolean;
+}
+
+// Exchanges field names and values with other tools as FDF/XFDF
+export default function FieldDataTransfer({ document, readOnly }: FieldDataTransferProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("file", file);
+
+      const response = await fetch(`/api/documents/${document.id}/field-data`, {
+        method: "POST",
+        body: formData,
+        headers: collaboratorHeaders(),
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Import failed");
+      }
+
+      return response.json() as Promise<{ updated: number; unmatched: string[] }>;
+    },
+    onSuccess: ({ updated, unmatched }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/documents", document.id, "text-fields"] });
+      toast({
+        title: `Filled ${updated} field${updated === 1 ? "" : "s"}`,
+        description: unmatched.length > 0 ? `No field named: ${unmatched.join(", ")}` : undefined,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Field data import failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) importMutation.mutate(file);
+    e.target.value = "";
+  };
+
+  return (
+    <div className="mb-3">
+      <Label className="text-sm font-medium text-muted-foreground">Field Data</Label>
+      <div className="mt-1 flex gap-2">
+        <Button asChild variant="outline" size="sm" className="flex-1">
+          <a href={`/api/documents/${document.id}/field-data?format=fdf`} data-testid="link-export-fdf">
+            FDF
+          </a>
+        </Button>
+        <Button asChild variant="outline" size="sm" className="flex-1">
+          <a href={`/api/documents/${document.id}/field-data?format=xfdf`} data-testid="link-export-xfdf">
+            XFDF
+          </a>
+        </Button>
+        {!readOnly && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex-1"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={importMutation.isPending}
+            data-testid="button-import-field-data"
+          >
+            <i className="fas fa-file-import mr-1"></i>
+            Import
+          </Button>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".fdf,.xfdf"
+          className="hidden"
+          onChange={handleFileChange}
+          data-testid="input-import-field-data"
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { type FieldSuggestion } from "@shared/schema";
+
+interface FieldSuggestionBoxProps {
+  suggestion: FieldSuggestion;
+  zoomLevel: number;
+  onAccept: () => void;
+  onReject: () => void;
+}
+
+// A detected field waiting for the user to keep or drop it
+export default function FieldSuggestionBox({ suggestion, zoomLevel, onAccept, onReject }: FieldSuggestionBoxProps) {
+  const scale = zoomLevel / 100;
+  const isCheckbox = suggestion.type === "checkbox";
+
+  return (
+    <div
+      className="absolute border-2 border-dashed border-emerald-500 bg-emerald-500/10 group"
+      style={{
+        left: suggestion.x * scale,
+        top: suggestion.y * scale,
+        width: suggestion.width * scale,
+        height: suggestion.height * scale,
+      }}
+      onClick={(e) => e.stopPropagation()}
+      data-testid={`field-suggestion-${suggestion.id}`}
+    >
+      <div
+        className={`absolute flex gap-1 ${isCheckbox ? "left-full top-0 ml-1" : "right-0 bottom-full mb-1"}`}
+      >
+        <button
+          className="w-5 h-5 rounded bg-emerald-600 text-white text-xs flex items-center justify-center shadow hover:bg-emerald-700"
+          onClick={onAccept}
+          title={`Add ${isCheckbox ? "checkbox" : "text field"}`}
+          data-testid={`button-accept-suggestion-${suggestion.id}`}
+        >
+          <i className="fas fa-check"></i>
+        </button>
+        <button
+          className="w-5 h-5 rounded bg-white text-gray-600 border border-border text-xs flex items-center justify-center shadow hover:text-destructive"
+          onClick={onReject}
+          title="Dismiss"
+          data-testid={`button-reject-suggestion-${suggestion.id}`}
+        >
+          <i className="fas fa-times"></i>
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,17 +1,18 @@
 import { useState } from "react";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
-import { type Document } from "@shared/schema";
+import { type DocumentWithRole } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 
 interface FileUploadProps {
-  onDocumentUploaded: (document: Document) => void;
+  onDocumentUploaded: (document: DocumentWithRole) => void;
 }
 
 export default function FileUpload({ onDocumentUploaded }: FileUploadProps) {
   const [isDragOver, setIsDragOver] = useState(false);
   const { toast } = useToast();
+  const queryClient = useQueryClient();
 
   const uploadMutation = useMutation({
     mutationFn: async (file: File) => {
@@ -31,7 +32,8 @@ export default function FileUpload({ onDocumentUploaded }: FileUploadProps) {
 
       return response.json();
     },
-    onSuccess: (document: Document) => {
+    onSuccess: (document: DocumentWithRole) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
       onDocumentUploaded(document);
       toast({ title: "Document uploaded successfully" });
     },
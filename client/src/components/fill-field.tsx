@@ -0,0 +1,154 @@
+import { type FieldValue, type TextField } from "@shared/schema";
+import { getFontStack } from "@/lib/fonts";
+
+interface FillFieldProps {
+  field: TextField;
+  value: FieldValue | undefined;
+  scale: number;
+  invalid: boolean;
+  onChange: (value: FieldValue) => void;
+  onSign: () => void;
+}
+
+// A live input drawn over a field's rect in fill mode
+export default function FillField({ field, value, scale, invalid, onChange, onSign }: FillFieldProps) {
+  const padding = (field.padding ?? 2) * scale;
+  const textStyle: React.CSSProperties = {
+    fontFamily: getFontStack(field.fontFamily),
+    fontSize: field.fontSize ? field.fontSize * scale : Math.max(field.height * scale * 0.55, 8),
+    color: field.textColor ?? undefined,
+    textAlign: field.textAlign ?? "left",
+    paddingLeft: padding,
+    paddingRight: padding,
+  };
+  const options = field.options ?? [];
+
+  const border = invalid
+    ? "border-2 border-destructive bg-destructive/10"
+    : "border border-primary/40 bg-blue-50/60 focus-within:border-primary";
+
+  let control: React.ReactNode;
+  if (field.type === "checkbox" || field.type === "radio") {
+    control = (
+      <input
+        type={field.type}
+        name={field.type === "radio" ? field.groupName || field.id : undefined}
+        checked={value === true}
+        onChange={(e) => onChange(e.target.checked)}
+        className="w-full h-full m-0 cursor-pointer accent-primary"
+        aria-label={field.type === "radio" ? `${field.groupName}: ${field.exportValue}` : field.name}
+        data-testid={`fill-input-${field.id}`}
+      />
+    );
+  } else if (field.type === "dropdown" && !field.allowCustomText) {
+    control = (
+      <select
+        value={typeof value === "string" ? value : ""}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full h-full bg-transparent outline-none"
+        style={textStyle}
+        aria-label={field.name}
+        data-testid={`fill-input-${field.id}`}
+      >
+        <option value=""></option>
+        {options.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    );
+  } else if (field.type === "dropdown") {
+    // Editable dropdowns accept free text with the options as suggestions
+    control = (
+      <>
+        <input
+          type="text"
+          list={`fill-options-${field.id}`}
+          value={typeof value === "string" ? value : ""}
+          onChange={(e) => onChange(e.target.value)}
+          className="w-full h-full bg-transparent outline-none"
+          style={textStyle}
+          aria-label={field.name}
+          data-testid={`fill-input-${field.id}`}
+        />
+        <datalist id={`fill-options-${field.id}`}>
+          {options.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </datalist>
+      </>
+    );
+  } else if (field.type === "listbox") {
+    control = (
+      <select
+        multiple
+        value={Array.isArray(value) ? value : []}
+        onChange={(e) => {
+          const selected = Array.from(e.target.selectedOptions, (option) => option.value);
+          onChange(field.multiSelect ? selected : selected.slice(-1));
+        }}
+        className="w-full h-full bg-transparent outline-none overflow-auto"
+        style={{ ...textStyle, fontSize: field.fontSize ? field.fontSize * scale : 12 * scale }}
+        aria-label={field.name}
+        data-testid={`fill-input-${field.id}`}
+      >
+        {options.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    );
+  } else if (field.type === "signature") {
+    control = (
+      <button
+        type="button"
+        onClick={onSign}
+        className="w-full h-full flex items-center justify-center text-sm text-muted-foreground"
+        aria-label={field.name}
+        data-testid={`fill-input-${field.id}`}
+      >
+        {typeof value === "string" && value ? (
+          <img src={value} alt={field.name} className="max-w-full max-h-full object-contain" />
+        ) : (
+          <span className="truncate">
+            <i className="fas fa-signature mr-1"></i>
+            Click to sign
+          </span>
+        )}
+      </button>
+    );
+  } else {
+    control = (
+      <input
+        type="text"
+        value={typeof value === "string" ? value : ""}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={field.name}
+        className="w-full h-full bg-transparent outline-none placeholder:text-gray-400"
+        style={textStyle}
+        aria-label={field.name}
+        data-testid={`fill-input-${field.id}`}
+      />
+    );
+  }
+
+  return (
+    <div
+      id={`fill-field-${field.id}`}
+      className={`absolute ${border} ${field.type === "radio" ? "rounded-full" : "rounded-sm"}`}
+      style={{
+        left: field.x * scale,
+        top: field.y * scale,
+        width: field.width * scale,
+        height: field.height * scale,
+      }}
+      title={field.required ? `${field.name} (required)` : field.name}
+    >
+      {control}
+    </div>
+  );
+}
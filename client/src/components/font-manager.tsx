@@ -0,0 +1,143 @@
+import { useRef } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useCustomFonts } from "@/hooks/use-custom-fonts";
+import { builtInFonts } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface FontManagerProps {
+  selectedFont: string;
+  onSelectFont: (family: string) => void;
+}
+
+export default function FontManager({ selectedFont, onSelectFont }: FontManagerProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const customFonts = useCustomFonts();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const uploadFontMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("file", file);
+
+      const response = await fetch("/api/fonts", {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Font upload failed");
+      }
+
+      return response.json();
+    },
+    onSuccess: (font) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/fonts"] });
+      onSelectFont(font.family);
+      toast({ title: `Font "${font.family}" added` });
+    },
+    onError: (error) => {
+      toast({
+        title: "Font upload failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteFontMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/fonts/${id}`);
+      return response.json();
+    },
+    onSuccess: (_result, id) => {
+      const deleted = customFonts.find((font) => font.id === id);
+      if (deleted?.family === selectedFont) {
+        onSelectFont("Arial");
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/fonts"] });
+      toast({ title: "Font removed" });
+    },
+    onError: () => {
+      toast({ title: "Failed to remove font", variant: "destructive" });
+    },
+  });
+
+  const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      uploadFontMutation.mutate(file);
+    }
+    e.target.value = "";
+  };
+
+  return (
+    <div className="mb-6">
+      <Label htmlFor="global-font" className="text-sm font-medium text-muted-foreground">
+        Document Font
+      </Label>
+      <div className="flex gap-2 mt-1">
+        <Select value={selectedFont} onValueChange={onSelectFont}>
+          <SelectTrigger className="flex-1" data-testid="select-global-font">
+            <SelectValue placeholder="Select font" />
+          </SelectTrigger>
+          <SelectContent>
+            {builtInFonts.map((family) => (
+              <SelectItem key={family} value={family}>{family}</SelectItem>
+            ))}
+            {customFonts.map((font) => (
+              <SelectItem key={font.id} value={font.family}>{font.family}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={uploadFontMutation.isPending}
+          title="Upload TTF/OTF font"
+          data-testid="button-upload-font"
+        >
+          <i className={uploadFontMutation.isPending ? "fas fa-spinner fa-spin" : "fas fa-upload"}></i>
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          className="hidden"
+          accept=".ttf,.otf"
+          onChange={handleFileInputChange}
+          data-testid="input-font-file"
+        />
+      </div>
+
+      {customFonts.length > 0 && (
+        <div className="mt-2 space-y-1">
+          {customFonts.map((font) => (
+            <div
+              key={font.id}
+              className="flex items-center justify-between px-2 py-1 rounded border border-border text-sm"
+              data-testid={`font-item-${font.id}`}
+            >
+              <span className="truncate" style={{ fontFamily: `"${font.family}"` }}>
+                {font.family}
+              </span>
+              <button
+                className="text-destructive hover:text-destructive/80 text-xs p-1"
+                onClick={() => deleteFontMutation.mutate(font.id)}
+                data-testid={`button-delete-font-${font.id}`}
+              >
+                <i className="fas fa-trash"></i>
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
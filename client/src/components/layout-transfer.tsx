@@ -0,0 +1,107 @@
+import { useRef, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { collaboratorHeaders } from "@/lib/collaborator";
+import { type DocumentWithRole, type TextField } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+
+interface LayoutTransferProps {
+  document: DocumentWithRole;
+  // Download only
+  readOnly: boolean;
+}
+
+// Downloads and uploads the field layout as versioned JSON
+export default function LayoutTransfer({ document, readOnly }: LayoutTransferProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [replaceExisting, setReplaceExisting] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("file", file);
+      formData.append("replaceExisting", String(replaceExisting));
+
+      const response = await fetch(`/api/documents/${document.id}/layout`, {
+        method: "POST",
+        body: formData,
+        headers: collaboratorHeaders(),
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Import failed");
+      }
+
+      return response.json() as Promise<{ created: TextField[]; skipped: number }>;
+    },
+    onSuccess: ({ created, skipped }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/documents", document.id, "text-fields"] });
+      toast({
+        title: `Imported ${created.length} field${created.length === 1 ? "" : "s"}`,
+        description: skipped > 0 ? `${skipped} field${skipped === 1 ? " was" : "s were"} on pages this document doesn't have` : undefined,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Layout import failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) importMutation.mutate(file);
+    e.target.value = "";
+  };
+
+  return (
+    <div className="mb-6">
+      <Label className="text-sm font-medium text-muted-foreground">Layout JSON</Label>
+      <div className="mt-1 flex gap-2">
+        <Button asChild variant="outline" size="sm" className="flex-1">
+          <a href={`/api/documents/${document.id}/layout`} data-testid="link-export-layout">
+            <i className="fas fa-download mr-1"></i>
+            Download
+          </a>
+        </Button>
+        {!readOnly && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex-1"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={importMutation.isPending}
+            data-testid="button-import-layout"
+          >
+            <i className={importMutation.isPending ? "fas fa-spinner fa-spin mr-1" : "fas fa-upload mr-1"}></i>
+            Import
+          </Button>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={handleFileChange}
+          data-testid="input-import-layout"
+        />
+      </div>
+      {!readOnly && (
+        <div className="flex items-center justify-between mt-2">
+          <Label htmlFor="layout-replace" className="text-xs text-muted-foreground">
+            Replace existing fields on import
+          </Label>
+          <Switch id="layout-replace" checked={replaceExisting} onCheckedChange={setReplaceExisting} data-testid="switch-layout-replace" />
+        </div>
+      )}
+    </div>
+  );
+}
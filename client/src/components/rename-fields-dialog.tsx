@@ -0,0 +1,118 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { type DocumentWithRole, type FieldNameProposal, type TextField } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+
+interface RenameFieldsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  document: DocumentWithRole;
+  textFields: TextField[];
+  onRename: (id: string, name: string) => void;
+}
+
+// Reviews the names proposed from label text before applying them
+export default function RenameFieldsDialog({ open, onOpenChange, document, textFields, onRename }: RenameFieldsDialogProps) {
+  const [proposals, setProposals] = useState<FieldNameProposal[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const { toast } = useToast();
+
+  const proposalsMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("GET", `/api/documents/${document.id}/field-names`);
+      return response.json() as Promise<FieldNameProposal[]>;
+    },
+    onSuccess: (result) => {
+      setProposals(result);
+      setSelectedIds(new Set(result.map((proposal) => proposal.fieldId)));
+    },
+    onError: () => {
+      toast({ title: "Failed to read labels", variant: "destructive" });
+    },
+  });
+
+  useEffect(() => {
+    if (open) {
+      setProposals([]);
+      proposalsMutation.mutate();
+    }
+  }, [open]);
+
+  const toggle = (fieldId: string, checked: boolean) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(fieldId);
+      else next.delete(fieldId);
+      return next;
+    });
+  };
+
+  const applyNames = () => {
+    const chosen = proposals.filter((proposal) => selectedIds.has(proposal.fieldId));
+    chosen.forEach((proposal) => onRename(proposal.fieldId, proposal.name));
+    toast({ title: `Renamed ${chosen.length} field${chosen.length === 1 ? "" : "s"}` });
+    onOpenChange(false);
+  };
+
+  const currentName = (fieldId: string) => textFields.find((field) => field.id === fieldId)?.name ?? "";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Rename from Labels</DialogTitle>
+          <DialogDescription>
+            Names come from the text left of or above each field. Radio buttons keep their group names.
+          </DialogDescription>
+        </DialogHeader>
+
+        {proposalsMutation.isPending ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">
+            <i className="fas fa-spinner fa-spin mr-2"></i>
+            Reading labels...
+          </div>
+        ) : proposals.length === 0 ? (
+          <div className="py-6 text-center text-sm text-muted-foreground" data-testid="text-no-name-proposals">
+            No new names found. Fields need label text beside or above them.
+          </div>
+        ) : (
+          <div className="max-h-80 overflow-y-auto space-y-1">
+            {proposals.map((proposal) => (
+              <label
+                key={proposal.fieldId}
+                className="flex items-center gap-3 rounded border border-border px-3 py-2 text-sm cursor-pointer"
+                data-testid={`name-proposal-${proposal.fieldId}`}
+              >
+                <Checkbox
+                  checked={selectedIds.has(proposal.fieldId)}
+                  onCheckedChange={(checked) => toggle(proposal.fieldId, checked === true)}
+                />
+                <div className="min-w-0 flex-1">
+                  <div className="truncate">
+                    <span className="text-muted-foreground">{currentName(proposal.fieldId)}</span>
+                    <i className="fas fa-arrow-right mx-2 text-xs text-muted-foreground"></i>
+                    <span className="font-medium">{proposal.name}</span>
+                  </div>
+                  <div className="truncate text-xs text-muted-foreground">"{proposal.label}"</div>
+                </div>
+              </label>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={applyNames} disabled={selectedIds.size === 0 || proposalsMutation.isPending} data-testid="button-apply-names">
+            Rename {selectedIds.size} Field{selectedIds.size === 1 ? "" : "s"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
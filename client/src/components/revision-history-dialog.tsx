@@ -0,0 +1,270 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  type DocumentWithRole,
+  type FieldRevision,
+  type FieldRevisionChange,
+  type RevisionDiff,
+  type TextField,
+} from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+interface RevisionHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  document: DocumentWithRole;
+  onRevisionRestored: (fields: TextField[]) => void;
+  // Viewers can look through the history but not restore from it
+  readOnly: boolean;
+}
+
+// "own" shows what the selected revision changed by itself
+const OWN_CHANGES = "own";
+
+const actionIcons: Record<FieldRevisionChange["action"], string> = {
+  create: "fas fa-plus text-green-600",
+  update: "fas fa-pen text-blue-600",
+  delete: "fas fa-minus text-destructive",
+};
+
+function formatValue(key: string, value: unknown): string {
+  if (value === null || value === undefined) return "none";
+  if (key === "signatureImage") return "signature";
+  if (typeof value === "number") return (Math.round(value * 10) / 10).toString();
+  if (typeof value === "string") return `"${value}"`;
+  return JSON.stringify(value);
+}
+
+// Names from every create and delete in the log, so changes to fields that
+// no longer exist can still be labelled
+function fieldNamesFrom(revisions: FieldRevision[]) {
+  const names = new Map<string, string>();
+  for (const revision of revisions) {
+    for (const change of revision.changes) {
+      const name = change.after?.name ?? change.before?.name;
+      if (name) names.set(change.fieldId, name);
+    }
+  }
+  return names;
+}
+
+function ChangeRow({ change, name }: { change: FieldRevisionChange; name: string }) {
+  const updatedKeys = change.action === "update" ? Object.keys(change.after ?? {}) : [];
+  return (
+    <div className="rounded border border-border px-3 py-2 text-sm" data-testid={`revision-change-${change.fieldId}`}>
+      <div className="flex items-center gap-2">
+        <i className={`${actionIcons[change.action]} text-xs`}></i>
+        <span className="font-medium truncate">{name}</span>
+        {change.action !== "update" && (
+          <span className="text-xs text-muted-foreground">{change.action === "create" ? "added" : "removed"}</span>
+        )}
+      </div>
+      {updatedKeys.map((key) => (
+        <div key={key} className="ml-5 truncate text-xs text-muted-foreground">
+          {key}: {formatValue(key, change.before?.[key as keyof TextField])}
+          <i className="fas fa-arrow-right mx-1"></i>
+          {formatValue(key, change.after?.[key as keyof TextField])}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Browses the document's revision log, compares revisions and rolls the
+// whole layout back to one of them
+export default function RevisionHistoryDialog({
+  open,
+  onOpenChange,
+  document,
+  onRevisionRestored,
+  readOnly,
+}: RevisionHistoryDialogProps) {
+  const [selectedNumber, setSelectedNumber] = useState<number | null>(null);
+  const [compareWith, setCompareWith] = useState(OWN_CHANGES);
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const revisionsKey = ["/api/documents", document.id, "revisions"];
+
+  const { data: revisions = [], isLoading } = useQuery<FieldRevision[]>({
+    queryKey: revisionsKey,
+    enabled: open,
+  });
+
+  // Fields change all the time while the dialog is closed
+  useEffect(() => {
+    if (open) {
+      queryClient.invalidateQueries({ queryKey: revisionsKey });
+      setSelectedNumber(null);
+      setCompareWith(OWN_CHANGES);
+    }
+  }, [open]);
+
+  const latest = revisions[revisions.length - 1];
+  const selected = revisions.find((revision) => revision.number === selectedNumber) ?? latest;
+
+  const { data: diff, isFetching: isDiffing } = useQuery<RevisionDiff>({
+    queryKey: [`/api/documents/${document.id}/revisions/diff?from=${compareWith}&to=${selected?.number}`],
+    enabled: open && !!selected && compareWith !== OWN_CHANGES,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (number: number) => {
+      const response = await apiRequest("POST", `/api/documents/${document.id}/revisions/${number}/restore`);
+      return response.json() as Promise<TextField[]>;
+    },
+    onSuccess: (fields, number) => {
+      queryClient.setQueryData(["/api/documents", document.id, "text-fields"], fields);
+      queryClient.invalidateQueries({ queryKey: revisionsKey });
+      onRevisionRestored(fields);
+      toast({ title: `Restored revision ${number}` });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to restore revision", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const fieldNames = fieldNamesFrom(revisions);
+  const changes = compareWith === OWN_CHANGES ? selected?.changes ?? [] : diff?.changes ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Revision History</DialogTitle>
+          <DialogDescription>
+            Every change to this document's fields. Restoring a revision is recorded as a new revision, so it can be reverted too.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">
+            <i className="fas fa-spinner fa-spin mr-2"></i>
+            Loading revisions...
+          </div>
+        ) : revisions.length === 0 ? (
+          <div className="py-6 text-center text-sm text-muted-foreground" data-testid="text-no-revisions">
+            No changes recorded yet.
+          </div>
+        ) : (
+          <div className="grid grid-cols-[minmax(0,2fr)_minmax(0,3fr)] gap-4">
+            <div className="max-h-96 overflow-y-auto space-y-1">
+              {[...revisions].reverse().map((revision) => (
+                <button
+                  key={revision.id}
+                  className={`w-full rounded border px-3 py-2 text-left text-sm transition-colors ${
+                    revision.number === selected?.number
+                      ? "bg-primary/10 border-primary/30"
+                      : "border-border hover:border-primary/50"
+                  }`}
+                  onClick={() => setSelectedNumber(revision.number)}
+                  data-testid={`revision-item-${revision.number}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-muted-foreground">#{revision.number}</span>
+                    <span className="truncate font-medium">{revision.summary}</span>
+                  </div>
+                  <div className="truncate text-xs text-muted-foreground">
+                    {revision.author ?? "Anonymous"} · {new Date(revision.createdAt).toLocaleString()}
+                  </div>
+                </button>
+              ))}
+            </div>
+
+            {selected && (
+              <div className="min-w-0 space-y-3">
+                <div>
+                  <Label className="text-sm font-medium text-muted-foreground">Compare with</Label>
+                  <Select value={compareWith} onValueChange={setCompareWith}>
+                    <SelectTrigger className="mt-1" data-testid="select-revision-compare">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={OWN_CHANGES}>Revision before (its own changes)</SelectItem>
+                      <SelectItem value="0">No fields</SelectItem>
+                      {revisions
+                        .filter((revision) => revision.number !== selected.number)
+                        .map((revision) => (
+                          <SelectItem key={revision.id} value={revision.number.toString()}>
+                            #{revision.number} {revision.summary}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="max-h-72 overflow-y-auto space-y-1">
+                  {isDiffing ? (
+                    <div className="py-4 text-center text-sm text-muted-foreground">
+                      <i className="fas fa-spinner fa-spin mr-2"></i>
+                      Comparing...
+                    </div>
+                  ) : changes.length === 0 ? (
+                    <div className="py-4 text-center text-sm text-muted-foreground">The fields are the same</div>
+                  ) : (
+                    changes.map((change) => (
+                      <ChangeRow
+                        key={`${change.fieldId}-${change.action}`}
+                        change={change}
+                        name={fieldNames.get(change.fieldId) ?? "Unnamed field"}
+                      />
+                    ))
+                  )}
+                </div>
+
+                {!readOnly && (
+                  <Button
+                    variant="outline"
+                    className="w-full"
+                    onClick={() => setIsConfirmOpen(true)}
+                    disabled={selected.number === latest?.number || restoreMutation.isPending}
+                    data-testid="button-restore-revision"
+                  >
+                    <i className="fas fa-history mr-2"></i>
+                    {restoreMutation.isPending ? "Restoring..." : `Restore Revision ${selected.number}`}
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <AlertDialog open={isConfirmOpen} onOpenChange={setIsConfirmOpen}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Restore revision {selected?.number}?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Every field goes back to how it was after "{selected?.summary}". Your undo history for this document is cleared.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => selected && restoreMutation.mutate(selected.number)}
+                data-testid="button-confirm-restore-revision"
+              >
+                Restore
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,254 @@
+import { useState, type FormEvent } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { shareLinkUrl } from "@/lib/share-link";
+import { useToast } from "@/hooks/use-toast";
+import {
+  shareRoles,
+  type DocumentWithRole,
+  type DocumentShareWithUser,
+  type ShareLink,
+  type ShareRole,
+} from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface ShareDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  document: DocumentWithRole;
+}
+
+const roleLabels: Record<ShareRole, string> = {
+  filler: "Can fill out",
+  viewer: "Can view",
+  editor: "Can edit",
+};
+
+const LINK_EXPIRY_DAYS = [1, 7, 30, 90];
+
+function RoleSelect({ value, onChange, testId }: { value: ShareRole; onChange: (role: ShareRole) => void; testId: string }) {
+  return (
+    <Select value={value} onValueChange={(role) => onChange(role as ShareRole)}>
+      <SelectTrigger className="w-36 shrink-0" data-testid={testId}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {shareRoles.map((role) => (
+          <SelectItem key={role} value={role}>
+            {roleLabels[role]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+// Who else can open the document, and links that let anyone fill it out
+export default function ShareDialog({ open, onOpenChange, document }: ShareDialogProps) {
+  const [username, setUsername] = useState("");
+  const [role, setRole] = useState<ShareRole>("viewer");
+  const [expiresInDays, setExpiresInDays] = useState("7");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const sharesKey = ["/api/documents", document.id, "shares"];
+  const linksKey = ["/api/documents", document.id, "share-links"];
+
+  const { data: shares = [] } = useQuery<DocumentShareWithUser[]>({
+    queryKey: sharesKey,
+    enabled: open,
+  });
+
+  const { data: links = [] } = useQuery<ShareLink[]>({
+    queryKey: linksKey,
+    enabled: open,
+  });
+
+  const shareMutation = useMutation({
+    mutationFn: async (share: { username: string; role: ShareRole }) => {
+      const response = await apiRequest("PUT", `/api/documents/${document.id}/shares`, share);
+      return response.json() as Promise<DocumentShareWithUser>;
+    },
+    onSuccess: () => {
+      setUsername("");
+      queryClient.invalidateQueries({ queryKey: sharesKey });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to share", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const unshareMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      await apiRequest("DELETE", `/api/documents/${document.id}/shares/${userId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: sharesKey });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to stop sharing", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const createLinkMutation = useMutation({
+    mutationFn: async (days: number) => {
+      const response = await apiRequest("POST", `/api/documents/${document.id}/share-links`, { expiresInDays: days });
+      return response.json() as Promise<ShareLink>;
+    },
+    onSuccess: (link) => {
+      queryClient.invalidateQueries({ queryKey: linksKey });
+      copyLink(link);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to create link", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const revokeLinkMutation = useMutation({
+    mutationFn: async (linkId: string) => {
+      await apiRequest("DELETE", `/api/documents/${document.id}/share-links/${linkId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: linksKey });
+      toast({ title: "Link revoked" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to revoke link", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const copyLink = (link: ShareLink) => {
+    navigator.clipboard
+      .writeText(shareLinkUrl(document.id, link.token))
+      .then(() => toast({ title: "Link copied" }))
+      .catch(() => toast({ title: "Couldn't copy the link", variant: "destructive" }));
+  };
+
+  const submitShare = (e: FormEvent) => {
+    e.preventDefault();
+    shareMutation.mutate({ username, role });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share "{document.originalName}"</DialogTitle>
+          <DialogDescription>
+            Give other accounts access, or create a link that lets anyone fill the form out.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="share-username" className="text-sm font-medium text-muted-foreground">People</Label>
+          <form onSubmit={submitShare} className="flex gap-2">
+            <Input
+              id="share-username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              placeholder="Username"
+              data-testid="input-share-username"
+            />
+            <RoleSelect value={role} onChange={setRole} testId="select-share-role" />
+            <Button type="submit" disabled={!username.trim() || shareMutation.isPending} data-testid="button-share">
+              Share
+            </Button>
+          </form>
+          {shares.length > 0 && (
+            <div className="space-y-1">
+              {shares.map((share) => (
+                <div
+                  key={share.id}
+                  className="flex items-center gap-2 px-2 py-1 rounded border border-border text-sm"
+                  data-testid={`share-item-${share.userId}`}
+                >
+                  <span className="flex-1 truncate">{share.username}</span>
+                  <RoleSelect
+                    value={share.role}
+                    onChange={(newRole) => shareMutation.mutate({ username: share.username, role: newRole })}
+                    testId={`select-share-role-${share.userId}`}
+                  />
+                  <button
+                    className="text-destructive hover:text-destructive/80 text-xs p-1"
+                    onClick={() => unshareMutation.mutate(share.userId)}
+                    title="Stop sharing"
+                    data-testid={`button-unshare-${share.userId}`}
+                  >
+                    <i className="fas fa-times"></i>
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm font-medium text-muted-foreground">Fill links</Label>
+          <div className="flex gap-2">
+            <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+              <SelectTrigger className="flex-1" data-testid="select-link-expiry">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LINK_EXPIRY_DAYS.map((days) => (
+                  <SelectItem key={days} value={String(days)}>
+                    Expires in {days} {days === 1 ? "day" : "days"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              onClick={() => createLinkMutation.mutate(Number(expiresInDays))}
+              disabled={createLinkMutation.isPending}
+              data-testid="button-create-link"
+            >
+              <i className="fas fa-link mr-2"></i>
+              Create Link
+            </Button>
+          </div>
+          {links.length > 0 && (
+            <div className="space-y-1">
+              {links.map((link) => {
+                const expiresAt = new Date(link.expiresAt);
+                const isExpired = expiresAt <= new Date();
+                return (
+                  <div
+                    key={link.id}
+                    className="flex items-center gap-2 px-2 py-1 rounded border border-border text-sm"
+                    data-testid={`share-link-${link.id}`}
+                  >
+                    <span className={`flex-1 truncate ${isExpired ? "text-muted-foreground line-through" : ""}`}>
+                      {isExpired ? "Expired" : "Expires"} {expiresAt.toLocaleString()}
+                    </span>
+                    {!isExpired && (
+                      <button
+                        className="text-primary hover:text-primary/80 text-xs p-1"
+                        onClick={() => copyLink(link)}
+                        title="Copy link"
+                        data-testid={`button-copy-link-${link.id}`}
+                      >
+                        <i className="fas fa-copy"></i>
+                      </button>
+                    )}
+                    <button
+                      className="text-destructive hover:text-destructive/80 text-xs p-1"
+                      onClick={() => revokeLinkMutation.mutate(link.id)}
+                      title={isExpired ? "Remove" : "Revoke"}
+                      data-testid={`button-revoke-link-${link.id}`}
+                    >
+                      <i className="fas fa-trash"></i>
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
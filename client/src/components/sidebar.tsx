@@ -1,58 +1,135 @@
 import { useState, useEffect } from "react";
-import { type Document, type TextField } from "@shared/schema";
+import { type DocumentWithRole, type TextField, type FieldType, type FieldValue, type TextAlign } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent } from "@/components/ui/card";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import FontManager from "@/components/font-manager";
+import SignatureDialog from "@/components/signature-dialog";
+import BatchFillDialog from "@/components/batch-fill-dialog";
+import FieldDataTransfer from "@/components/field-data-transfer";
+import TemplateManager from "@/components/template-manager";
+import LayoutTransfer from "@/components/layout-transfer";
+import RenameFieldsDialog from "@/components/rename-fields-dialog";
+import BulkFieldProperties from "@/components/bulk-field-properties";
+import RevisionHistoryDialog from "@/components/revision-history-dialog";
+import { type FieldChange } from "@/lib/arrange";
+import { parseFieldOptions, formatFieldOptions } from "@/lib/field-options";
+
+// Saved values are shown as plain text: "Checked", "a, b", ...
+const formatFieldValue = (value: FieldValue): string =>
+  typeof value === "boolean" ? (value ? "Checked" : "Unchecked") : Array.isArray(value) ? value.join(", ") : value;
 
 interface SidebarProps {
-  selectedDocument: Document | null;
+  selectedDocument: DocumentWithRole | null;
   textFields: TextField[];
   selectedField: TextField | null;
-  onAddTextField: () => void;
-  onSelectField: (field: TextField) => void;
+  selectedFields: TextField[];
+  onAddField: (type: FieldType) => void;
+  onSelectField: (field: TextField, additive?: boolean) => void;
   onUpdateField: (id: string, updates: Partial<TextField>) => void;
+  onUpdateFields: (changes: FieldChange[]) => void;
   onDeleteField: (id: string) => void;
-  onExportPDF: (font: string) => void; // now receives the chosen font
+  onDeleteFields: (ids: string[]) => void;
+  onExportPDF: (font: string, flatten: boolean) => void; // now receives the chosen font
   onUndo: () => void;
+  onRedo: () => void;
   onRestart: () => void;
+  onRevisionRestored: (fields: TextField[]) => void;
   canUndo: boolean;
+  canRedo: boolean;
+  undoLabel?: string;
+  redoLabel?: string;
   isExporting: boolean;
+  onDetectFields: () => void;
+  isDetecting: boolean;
+  suggestionCount: number;
+  onAcceptAllSuggestions: () => void;
+  onDismissSuggestions: () => void;
+  // Viewers can look at the fields and download copies, but not change anything
+  readOnly: boolean;
 }
 
 export default function Sidebar({
   selectedDocument,
   textFields,
   selectedField,
-  onAddTextField,
+  selectedFields,
+  onAddField,
   onSelectField,
   onUpdateField,
+  onUpdateFields,
   onDeleteField,
+  onDeleteFields,
   onExportPDF,
   onUndo,
+  onRedo,
   onRestart,
+  onRevisionRestored,
   canUndo,
+  canRedo,
+  undoLabel,
+  redoLabel,
   isExporting,
+  onDetectFields,
+  isDetecting,
+  suggestionCount,
+  onAcceptAllSuggestions,
+  onDismissSuggestions,
+  readOnly,
 }: SidebarProps) {
   const [fieldName, setFieldName] = useState("");
   const [fieldWidth, setFieldWidth] = useState("");
   const [fieldHeight, setFieldHeight] = useState("");
+  const [fieldExportValue, setFieldExportValue] = useState("");
+  const [fieldGroupName, setFieldGroupName] = useState("");
+  const [fieldOptionsText, setFieldOptionsText] = useState("");
+  const [fieldAllowCustomText, setFieldAllowCustomText] = useState(false);
+  const [fieldMultiSelect, setFieldMultiSelect] = useState(false);
+  const [fieldFontSize, setFieldFontSize] = useState("");
+  const [fieldTextColor, setFieldTextColor] = useState("#000000");
+  const [fieldTextAlign, setFieldTextAlign] = useState<TextAlign>("left");
+  const [fieldPadding, setFieldPadding] = useState("");
   const [selectedFont, setSelectedFont] = useState("Arial"); // global font
+  const [isSignatureDialogOpen, setIsSignatureDialogOpen] = useState(false);
+  const [isBatchFillOpen, setIsBatchFillOpen] = useState(false);
+  const [isRenameOpen, setIsRenameOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isExportingFlattened, setIsExportingFlattened] = useState(false);
 
   useEffect(() => {
     if (selectedField) {
       setFieldName(selectedField.name);
       setFieldWidth(selectedField.width.toString());
       setFieldHeight(selectedField.height.toString());
+      setFieldExportValue(selectedField.exportValue ?? "");
+      setFieldGroupName(selectedField.groupName ?? "");
+      setFieldOptionsText(formatFieldOptions(selectedField.options ?? []));
+      setFieldAllowCustomText(!!selectedField.allowCustomText);
+      setFieldMultiSelect(!!selectedField.multiSelect);
+      setFieldFontSize(selectedField.fontSize?.toString() ?? "");
+      setFieldTextColor(selectedField.textColor ?? "#000000");
+      setFieldTextAlign(selectedField.textAlign ?? "left");
+      setFieldPadding((selectedField.padding ?? 2).toString());
     } else {
       setFieldName("");
       setFieldWidth("");
       setFieldHeight("");
+      setFieldExportValue("");
+      setFieldGroupName("");
+      setFieldOptionsText("");
+      setFieldAllowCustomText(false);
+      setFieldMultiSelect(false);
+      setFieldFontSize("");
+      setFieldTextColor("#000000");
+      setFieldTextAlign("left");
+      setFieldPadding("");
     }
-  }, [selectedField]);
+  }, [selectedField?.id]);
 
-  const handleUpdateField = (property: string, value: string | number | undefined) => {
+  const handleUpdateField = <K extends keyof TextField>(property: K, value: TextField[K]) => {
     if (!selectedField) return;
     onUpdateField(selectedField.id, { [property]: value });
   };
@@ -78,6 +155,85 @@ export default function Sidebar({
     }
   };
 
+  const handleExportValueChange = (value: string) => {
+    setFieldExportValue(value);
+    if (value.trim()) {
+      handleUpdateField("exportValue", value);
+    }
+  };
+
+  const handleGroupNameChange = (value: string) => {
+    setFieldGroupName(value);
+    if (value.trim()) {
+      handleUpdateField("groupName", value);
+    }
+  };
+
+  const handleOptionsTextChange = (value: string) => {
+    setFieldOptionsText(value);
+    handleUpdateField("options", parseFieldOptions(value));
+  };
+
+  // Single-choice fields keep at most one default; multi-select list boxes may keep several
+  const handleToggleDefaultOption = (index: number) => {
+    const allowMultiple = selectedField?.type === "listbox" && fieldMultiSelect;
+    const options = parseFieldOptions(fieldOptionsText).map((option, i) => {
+      const selected = i === index ? !option.selected : allowMultiple && !!option.selected;
+      return { label: option.label, value: option.value, ...(selected ? { selected: true } : {}) };
+    });
+    setFieldOptionsText(formatFieldOptions(options));
+    handleUpdateField("options", options);
+  };
+
+  const handleAllowCustomTextChange = (checked: boolean) => {
+    setFieldAllowCustomText(checked);
+    handleUpdateField("allowCustomText", checked);
+  };
+
+  const handleMultiSelectChange = (checked: boolean) => {
+    setFieldMultiSelect(checked);
+    handleUpdateField("multiSelect", checked);
+  };
+
+  // An empty font size means auto-size
+  const handleFontSizeChange = (value: string) => {
+    setFieldFontSize(value);
+    if (value.trim() === "") {
+      handleUpdateField("fontSize", null);
+      return;
+    }
+    const fontSize = parseFloat(value);
+    if (!isNaN(fontSize) && fontSize > 0) {
+      handleUpdateField("fontSize", fontSize);
+    }
+  };
+
+  const handleTextColorChange = (value: string) => {
+    setFieldTextColor(value);
+    handleUpdateField("textColor", value);
+  };
+
+  const handleTextAlignChange = (value: TextAlign) => {
+    setFieldTextAlign(value);
+    handleUpdateField("textAlign", value);
+  };
+
+  const handlePaddingChange = (value: string) => {
+    setFieldPadding(value);
+    const padding = parseFloat(value);
+    if (!isNaN(padding) && padding >= 0) {
+      handleUpdateField("padding", padding);
+    }
+  };
+
+  const handleExport = (flatten: boolean) => {
+    setIsExportingFlattened(flatten);
+    onExportPDF(selectedFont, flatten);
+  };
+
+  const parsedOptions = parseFieldOptions(fieldOptionsText);
+  const hasText = selectedField?.type === "text" || selectedField?.type === "dropdown" || selectedField?.type === "listbox";
+
   return (
     <div className="w-80 bg-card border-r border-border flex flex-col">
       {/* Header */}
@@ -93,63 +249,176 @@ export default function Sidebar({
         <div className="p-6 flex-1">
           <h2 className="text-lg font-semibold mb-4">Tools</h2>
 
-          {/* Add Text Field Button */}
+          {!readOnly && (
+            <>
+              {/* Add Text Field Button */}
+              <Button
+                onClick={() => onAddField("text")}
+                className="w-full mb-2 flex items-center justify-center gap-2"
+                data-testid="button-add-field"
+              >
+                <i className="fas fa-plus"></i>
+                Add Text Field
+              </Button>
+
+              {/* Add Checkbox / Radio Buttons */}
+              <div className="flex gap-2 mb-4">
+                <Button
+                  onClick={() => onAddField("checkbox")}
+                  variant="outline"
+                  className="flex-1 flex items-center justify-center gap-2"
+                  data-testid="button-add-checkbox"
+                >
+                  <i className="far fa-check-square"></i>
+                  Checkbox
+                </Button>
+                <Button
+                  onClick={() => onAddField("radio")}
+                  variant="outline"
+                  className="flex-1 flex items-center justify-center gap-2"
+                  data-testid="button-add-radio"
+                >
+                  <i className="far fa-dot-circle"></i>
+                  Radio
+                </Button>
+              </div>
+
+              {/* Add Dropdown / List Box Buttons */}
+              <div className="flex gap-2 mb-4">
+                <Button
+                  onClick={() => onAddField("dropdown")}
+                  variant="outline"
+                  className="flex-1 flex items-center justify-center gap-2"
+                  data-testid="button-add-dropdown"
+                >
+                  <i className="fas fa-caret-square-down"></i>
+                  Dropdown
+                </Button>
+                <Button
+                  onClick={() => onAddField("listbox")}
+                  variant="outline"
+                  className="flex-1 flex items-center justify-center gap-2"
+                  data-testid="button-add-listbox"
+                >
+                  <i className="fas fa-list"></i>
+                  List Box
+                </Button>
+              </div>
+
+              {/* Add Signature Button */}
+              <Button
+                onClick={() => onAddField("signature")}
+                variant="outline"
+                className="w-full mb-4 flex items-center justify-center gap-2"
+                data-testid="button-add-signature"
+              >
+                <i className="fas fa-signature"></i>
+                Signature
+              </Button>
+
+              {/* Automatic Field Detection */}
+              <Button
+                onClick={onDetectFields}
+                disabled={isDetecting}
+                variant="outline"
+                className="w-full mb-4 flex items-center justify-center gap-2"
+                data-testid="button-detect-fields"
+              >
+                <i className={isDetecting ? "fas fa-spinner fa-spin" : "fas fa-magic"}></i>
+                {isDetecting ? "Detecting..." : "Detect Fields"}
+              </Button>
+              {suggestionCount > 0 && (
+                <div className="mb-4 rounded border border-emerald-500/40 bg-emerald-500/10 px-3 py-2 text-sm" data-testid="suggestion-summary">
+                  <div className="mb-2">
+                    {suggestionCount} suggested field{suggestionCount === 1 ? "" : "s"}
+                  </div>
+                  <div className="flex gap-2">
+                    <Button size="sm" className="flex-1" onClick={onAcceptAllSuggestions} data-testid="button-accept-all-suggestions">
+                      Accept All
+                    </Button>
+                    <Button size="sm" variant="outline" className="flex-1" onClick={onDismissSuggestions} data-testid="button-dismiss-suggestions">
+                      Dismiss
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+
+          {/* Global Font Selector */}
+          <FontManager selectedFont={selectedFont} onSelectFont={setSelectedFont} />
+
+          {/* Field Layout Templates */}
+          <TemplateManager document={selectedDocument} fieldCount={textFields.length} readOnly={readOnly} />
+
+          {/* Layout JSON */}
+          <LayoutTransfer document={selectedDocument} readOnly={readOnly} />
+
+          {/* Undo, Redo and Restart Buttons */}
+          {!readOnly && (
+            <div className="flex gap-2 mb-2">
+              <Button
+                onClick={onUndo}
+                disabled={!canUndo}
+                variant="outline"
+                className="flex-1 flex items-center justify-center gap-2 px-2"
+                title={undoLabel ? `Undo ${undoLabel.toLowerCase()} (Ctrl+Z)` : "Undo (Ctrl+Z)"}
+                data-testid="button-undo"
+              >
+                <i className="fas fa-undo"></i>
+                Undo
+              </Button>
+              <Button
+                onClick={onRedo}
+                disabled={!canRedo}
+                variant="outline"
+                className="flex-1 flex items-center justify-center gap-2 px-2"
+                title={redoLabel ? `Redo ${redoLabel.toLowerCase()} (Ctrl+Shift+Z)` : "Redo (Ctrl+Shift+Z)"}
+                data-testid="button-redo"
+              >
+                <i className="fas fa-redo"></i>
+                Redo
+              </Button>
+              <Button
+                onClick={onRestart}
+                disabled={textFields.length === 0}
+                variant="outline"
+                className="flex-1 flex items-center justify-center gap-2 px-2 text-orange-600 hover:text-orange-700 hover:bg-orange-50"
+                data-testid="button-restart"
+              >
+                <i className="fas fa-sync-alt"></i>
+                Restart
+              </Button>
+            </div>
+          )}
           <Button
-            onClick={onAddTextField}
-            className="w-full mb-4 flex items-center justify-center gap-2"
-            data-testid="button-add-field"
+            onClick={() => setIsHistoryOpen(true)}
+            variant="outline"
+            className="w-full flex items-center justify-center gap-2 mb-6"
+            data-testid="button-revision-history"
           >
-            <i className="fas fa-plus"></i>
-            Add Text Field
+            <i className="fas fa-history"></i>
+            Revision History
           </Button>
+          <RevisionHistoryDialog
+            open={isHistoryOpen}
+            onOpenChange={setIsHistoryOpen}
+            document={selectedDocument}
+            onRevisionRestored={onRevisionRestored}
+            readOnly={readOnly}
+          />
 
-          {/* Global Font Selector */}
-          <div className="mb-6">
-            <Label htmlFor="global-font" className="text-sm font-medium text-muted-foreground">
-              Document Font
-            </Label>
-            <Select value={selectedFont} onValueChange={setSelectedFont}>
-              <SelectTrigger className="mt-1" data-testid="select-global-font">
-                <SelectValue placeholder="Select font" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="Arial">Arial</SelectItem>
-                <SelectItem value="Allura">Allura</SelectItem>
-                <SelectItem value="Dancing Script">Dancing Script</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
-
-          {/* Undo and Restart Buttons */}
-          <div className="flex gap-2 mb-6">
-            <Button
-              onClick={onUndo}
-              disabled={!canUndo}
-              variant="outline"
-              className="flex-1 flex items-center justify-center gap-2"
-              data-testid="button-undo"
-            >
-              <i className="fas fa-undo"></i>
-              Undo
-            </Button>
-            <Button
-              onClick={onRestart}
-              disabled={textFields.length === 0}
-              variant="outline"
-              className="flex-1 flex items-center justify-center gap-2 text-orange-600 hover:text-orange-700 hover:bg-orange-50"
-              data-testid="button-restart"
-            >
-              <i className="fas fa-sync-alt"></i>
-              Restart
-            </Button>
-          </div>
+          {/* Shared properties of a multi-selection */}
+          {selectedFields.length > 1 && !readOnly && (
+            <BulkFieldProperties fields={selectedFields} onUpdateFields={onUpdateFields} onDeleteFields={onDeleteFields} />
+          )}
 
           {/* Field Properties Panel */}
           {selectedField && (
             <Card className="mb-6">
               <CardContent className="p-4">
                 <h3 className="font-medium mb-3">Field Properties</h3>
-                <div className="space-y-3">
+                <fieldset disabled={readOnly} className="space-y-3">
                   <div>
                     <Label htmlFor="field-name" className="text-sm font-medium text-muted-foreground">
                       Field Name
@@ -192,7 +461,250 @@ export default function Sidebar({
                       data-testid="input-field-height"
                     />
                   </div>
-                </div>
+                  {hasText && (
+                    <div className="flex gap-2">
+                      <div className="flex-1">
+                        <Label htmlFor="field-font-size" className="text-sm font-medium text-muted-foreground">
+                          Font Size
+                        </Label>
+                        <Input
+                          id="field-font-size"
+                          type="number"
+                          min={1}
+                          value={fieldFontSize}
+                          onChange={(e) => handleFontSizeChange(e.target.value)}
+                          placeholder="Auto"
+                          className="mt-1"
+                          data-testid="input-field-font-size"
+                        />
+                      </div>
+                      <div className="flex-1">
+                        <Label htmlFor="field-padding" className="text-sm font-medium text-muted-foreground">
+                          Padding
+                        </Label>
+                        <Input
+                          id="field-padding"
+                          type="number"
+                          min={0}
+                          value={fieldPadding}
+                          onChange={(e) => handlePaddingChange(e.target.value)}
+                          placeholder="2"
+                          className="mt-1"
+                          data-testid="input-field-padding"
+                        />
+                      </div>
+                    </div>
+                  )}
+                  {selectedField.type !== "signature" && (
+                    <div className="flex items-end gap-2">
+                      <div>
+                        <Label htmlFor="field-text-color" className="text-sm font-medium text-muted-foreground">
+                          Color
+                        </Label>
+                        <Input
+                          id="field-text-color"
+                          type="color"
+                          value={fieldTextColor}
+                          onChange={(e) => handleTextColorChange(e.target.value)}
+                          className="mt-1 w-14 p-1"
+                          data-testid="input-field-text-color"
+                        />
+                      </div>
+                      {selectedField.type === "text" && (
+                        <div className="flex-1">
+                          <Label className="text-sm font-medium text-muted-foreground">
+                            Alignment
+                          </Label>
+                          <div className="mt-1 flex gap-1 bg-muted rounded-md p-1">
+                            {(["left", "center", "right"] as const).map((align) => (
+                              <button
+                                key={align}
+                                className={`flex-1 py-1 rounded text-sm ${
+                                  fieldTextAlign === align ? "bg-background shadow-sm" : "hover:bg-background/50"
+                                }`}
+                                onClick={() => handleTextAlignChange(align)}
+                                data-testid={`button-align-${align}`}
+                              >
+                                <i className={`fas fa-align-${align}`}></i>
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  {selectedField.type === "signature" && (
+                    <div>
+                      <Label className="text-sm font-medium text-muted-foreground">
+                        Signature
+                      </Label>
+                      {selectedField.signatureImage ? (
+                        <img
+                          src={selectedField.signatureImage}
+                          alt="Signature"
+                          className="mt-1 w-full h-16 object-contain border border-border rounded bg-white"
+                          data-testid="img-field-signature"
+                        />
+                      ) : (
+                        <p className="mt-1 text-xs text-muted-foreground">
+                          Not signed yet; the exported field can still be signed in a PDF viewer.
+                        </p>
+                      )}
+                      <div className="flex gap-2 mt-2">
+                        <Button
+                          size="sm"
+                          className="flex-1"
+                          onClick={() => setIsSignatureDialogOpen(true)}
+                          data-testid="button-sign-field"
+                        >
+                          <i className="fas fa-pen-nib mr-2"></i>
+                          {selectedField.signatureImage ? "Re-sign" : "Sign"}
+                        </Button>
+                        {selectedField.signatureImage && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleUpdateField("signatureImage", null)}
+                            data-testid="button-clear-signature"
+                          >
+                            Clear
+                          </Button>
+                        )}
+                      </div>
+                      <SignatureDialog
+                        open={isSignatureDialogOpen}
+                        onOpenChange={setIsSignatureDialogOpen}
+                        onSave={(dataUrl) => handleUpdateField("signatureImage", dataUrl)}
+                      />
+                    </div>
+                  )}
+                  {selectedField.type === "radio" && (
+                    <div>
+                      <Label htmlFor="field-group-name" className="text-sm font-medium text-muted-foreground">
+                        Group Name
+                      </Label>
+                      <Input
+                        id="field-group-name"
+                        type="text"
+                        value={fieldGroupName}
+                        onChange={(e) => handleGroupNameChange(e.target.value)}
+                        placeholder="Group 1"
+                        className="mt-1"
+                        data-testid="input-field-group-name"
+                      />
+                    </div>
+                  )}
+                  {(selectedField.type === "dropdown" || selectedField.type === "listbox") && (
+                    <>
+                      <div>
+                        <Label htmlFor="field-options" className="text-sm font-medium text-muted-foreground">
+                          Options
+                        </Label>
+                        <Textarea
+                          id="field-options"
+                          value={fieldOptionsText}
+                          onChange={(e) => handleOptionsTextChange(e.target.value)}
+                          placeholder={"One option per line\nDisplay text | export value"}
+                          rows={5}
+                          className="mt-1 font-mono text-xs"
+                          data-testid="textarea-field-options"
+                        />
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Separate export values with "|" or a tab. Click an option below to make it the default.
+                        </p>
+                      </div>
+                      {parsedOptions.length > 0 && (
+                        <div className="space-y-1">
+                          {parsedOptions.map((option, index) => (
+                            <button
+                              key={index}
+                              className={`w-full flex items-center justify-between gap-2 px-2 py-1 rounded border text-xs text-left ${
+                                option.selected ? "bg-primary/10 border-primary/30" : "border-border hover:border-primary/50"
+                              }`}
+                              onClick={() => handleToggleDefaultOption(index)}
+                              data-testid={`button-default-option-${index}`}
+                            >
+                              <span className="truncate">{option.label}</span>
+                              <span className="text-muted-foreground shrink-0">
+                                {option.selected ? "default" : option.value !== option.label ? option.value : ""}
+                              </span>
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                      {selectedField.type === "dropdown" && (
+                        <div className="flex items-center justify-between">
+                          <Label htmlFor="field-allow-custom-text" className="text-sm font-medium text-muted-foreground">
+                            Allow custom text
+                          </Label>
+                          <Switch
+                            id="field-allow-custom-text"
+                            checked={fieldAllowCustomText}
+                            onCheckedChange={handleAllowCustomTextChange}
+                            data-testid="switch-field-allow-custom-text"
+                          />
+                        </div>
+                      )}
+                      {selectedField.type === "listbox" && (
+                        <div className="flex items-center justify-between">
+                          <Label htmlFor="field-multi-select" className="text-sm font-medium text-muted-foreground">
+                            Multiple selection
+                          </Label>
+                          <Switch
+                            id="field-multi-select"
+                            checked={fieldMultiSelect}
+                            onCheckedChange={handleMultiSelectChange}
+                            data-testid="switch-field-multi-select"
+                          />
+                        </div>
+                      )}
+                    </>
+                  )}
+                  {(selectedField.type === "checkbox" || selectedField.type === "radio") && (
+                    <div>
+                      <Label htmlFor="field-export-value" className="text-sm font-medium text-muted-foreground">
+                        Export Value
+                      </Label>
+                      <Input
+                        id="field-export-value"
+                        type="text"
+                        value={fieldExportValue}
+                        onChange={(e) => handleExportValueChange(e.target.value)}
+                        placeholder={selectedField.type === "checkbox" ? "Yes" : "Option 1"}
+                        className="mt-1"
+                        data-testid="input-field-export-value"
+                      />
+                    </div>
+                  )}
+                  {selectedField.type !== "signature" && (
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="field-required" className="text-sm font-medium text-muted-foreground">
+                        Required
+                      </Label>
+                      <Switch
+                        id="field-required"
+                        checked={!!selectedField.required}
+                        onCheckedChange={(checked) => handleUpdateField("required", checked)}
+                        data-testid="switch-field-required"
+                      />
+                    </div>
+                  )}
+                  {selectedField.value !== null && selectedField.value !== undefined && (
+                    <div className="flex items-center justify-between gap-2 rounded bg-muted px-2 py-1" data-testid="text-field-saved-value">
+                      <span className="text-xs truncate">
+                        <span className="text-muted-foreground">Value: </span>
+                        {formatFieldValue(selectedField.value)}
+                      </span>
+                      <button
+                        className="text-xs text-muted-foreground hover:text-foreground shrink-0"
+                        onClick={() => handleUpdateField("value", null)}
+                        data-testid="button-clear-field-value"
+                      >
+                        Clear
+                      </button>
+                    </div>
+                  )}
+                </fieldset>
               </CardContent>
             </Card>
           )}
@@ -200,44 +712,89 @@ export default function Sidebar({
           {/* Fields List */}
           <Card>
             <CardContent className="p-4">
-              <h3 className="font-medium mb-3">
-                Text Fields{" "}
-                <span className="text-xs text-muted-foreground" data-testid="text-field-count">
-                  ({textFields.length})
-                </span>
-              </h3>
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="font-medium">
+                  Form Fields{" "}
+                  <span className="text-xs text-muted-foreground" data-testid="text-field-count">
+                    ({textFields.length})
+                  </span>
+                </h3>
+                <button
+                  className="text-xs text-primary hover:text-primary/80 disabled:opacity-40"
+                  onClick={() => setIsRenameOpen(true)}
+                  disabled={textFields.length === 0 || readOnly}
+                  title="Name fields after the label text next to them"
+                  data-testid="button-rename-from-labels"
+                >
+                  <i className="fas fa-tags mr-1"></i>
+                  Rename from labels
+                </button>
+              </div>
+              <RenameFieldsDialog
+                open={isRenameOpen}
+                onOpenChange={setIsRenameOpen}
+                document={selectedDocument}
+                textFields={textFields}
+                onRename={(id, name) => onUpdateField(id, { name })}
+              />
               <div className="space-y-2">
                 {textFields.map((field) => (
                   <div
                     key={field.id}
                     className={`flex items-center justify-between p-2 rounded border cursor-pointer transition-colors ${
-                      selectedField?.id === field.id
+                      selectedFields.some((selected) => selected.id === field.id)
                         ? "bg-primary/10 border-primary/30"
                         : "bg-background border-border hover:border-primary/50"
                     }`}
-                    onClick={() => onSelectField(field)}
+                    onClick={(e) => onSelectField(field, e.shiftKey)}
                     data-testid={`field-item-${field.id}`}
                   >
                     <div className="flex items-center gap-2 min-w-0 flex-1">
                       <i className="fas fa-grip-vertical text-muted-foreground text-xs"></i>
-                      <span className="text-sm truncate">{field.name}</span>
+                      {field.type === "checkbox" && (
+                        <i className="far fa-check-square text-muted-foreground text-xs"></i>
+                      )}
+                      {field.type === "radio" && (
+                        <i className="far fa-dot-circle text-muted-foreground text-xs"></i>
+                      )}
+                      {field.type === "dropdown" && (
+                        <i className="fas fa-caret-square-down text-muted-foreground text-xs"></i>
+                      )}
+                      {field.type === "listbox" && (
+                        <i className="fas fa-list text-muted-foreground text-xs"></i>
+                      )}
+                      {field.type === "signature" && (
+                        <i className="fas fa-signature text-muted-foreground text-xs"></i>
+                      )}
+                      <span className="text-sm truncate">
+                        {field.type === "radio" ? `${field.groupName}: ${field.exportValue}` : field.name}
+                      </span>
+                      <span className="text-xs text-muted-foreground shrink-0">
+                        p.{field.pageIndex + 1}
+                      </span>
                     </div>
-                    <button
-                      className="text-destructive hover:text-destructive/80 text-xs p-1"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        onDeleteField(field.id);
-                      }}
-                      data-testid={`button-delete-field-${field.id}`}
-                    >
-                      <i className="fas fa-trash"></i>
-                    </button>
+                    {!readOnly && (
+                      <button
+                        className="text-destructive hover:text-destructive/80 text-xs p-1"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onDeleteField(field.id);
+                        }}
+                        data-testid={`button-delete-field-${field.id}`}
+                      >
+                        <i className="fas fa-trash"></i>
+                      </button>
+                    )}
                   </div>
                 ))}
-                {textFields.length === 0 && (
+                {textFields.length === 0 ? (
                   <div className="text-center py-4 text-sm text-muted-foreground">
-                    No text fields added yet
+                    No form fields added yet
                   </div>
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    Shift-click or drag across the page to select several fields
+                  </p>
                 )}
               </div>
             </CardContent>
@@ -249,16 +806,44 @@ export default function Sidebar({
       {selectedDocument && (
         <div className="p-6 border-t border-border">
           <Button
-            onClick={() => onExportPDF(selectedFont)}
+            onClick={() => handleExport(false)}
             disabled={isExporting}
-            className="w-full bg-green-600 hover:bg-green-700 text-white flex items-center justify-center gap-2 mb-3"
+            className="w-full bg-green-600 hover:bg-green-700 text-white flex items-center justify-center gap-2 mb-2"
             data-testid="button-export-pdf"
           >
             <i className="fas fa-download"></i>
-            {isExporting ? "Exporting..." : "Download Fillable PDF"}
+            {isExporting && !isExportingFlattened ? "Exporting..." : "Download Fillable PDF"}
+          </Button>
+          <Button
+            onClick={() => handleExport(true)}
+            disabled={isExporting}
+            variant="outline"
+            className="w-full flex items-center justify-center gap-2 mb-3"
+            data-testid="button-export-flattened-pdf"
+          >
+            <i className="fas fa-file-pdf"></i>
+            {isExporting && isExportingFlattened ? "Exporting..." : "Download Flattened PDF"}
+          </Button>
+          <Button
+            onClick={() => setIsBatchFillOpen(true)}
+            disabled={textFields.length === 0}
+            variant="outline"
+            className="w-full flex items-center justify-center gap-2 mb-3"
+            data-testid="button-batch-fill"
+          >
+            <i className="fas fa-layer-group"></i>
+            Batch Fill from CSV/JSON
           </Button>
+          <BatchFillDialog
+            open={isBatchFillOpen}
+            onOpenChange={setIsBatchFillOpen}
+            document={selectedDocument}
+            textFields={textFields}
+            font={selectedFont}
+          />
+          <FieldDataTransfer document={selectedDocument} readOnly={readOnly} />
           <p className="text-xs text-muted-foreground text-center">
-            Fields will be invisible and fillable in the exported PDF
+            Flattened copies bake default values and signatures into the page and can't be edited
           </p>
         </div>
       )}
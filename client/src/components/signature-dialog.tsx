@@ -0,0 +1,217 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { getFontStack } from "@/lib/fonts";
+import {
+  SIGNATURE_HEIGHT,
+  SIGNATURE_WIDTH,
+  renderImageSignature,
+  renderTypedSignature,
+  signatureFonts,
+} from "@/lib/signature";
+
+type CaptureMode = "draw" | "type" | "upload";
+
+interface SignatureDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Receives the captured signature as a PNG data URL
+  onSave: (dataUrl: string) => void;
+  defaultName?: string;
+}
+
+export default function SignatureDialog({ open, onOpenChange, onSave, defaultName = "" }: SignatureDialogProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const [mode, setMode] = useState<CaptureMode>("draw");
+  const [hasDrawing, setHasDrawing] = useState(false);
+  const [typedName, setTypedName] = useState(defaultName);
+  const [typedFont, setTypedFont] = useState<string>(signatureFonts[0]);
+  const [uploadedImage, setUploadedImage] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) {
+      setHasDrawing(false);
+      setTypedName(defaultName);
+      setUploadedImage(null);
+    }
+  }, [open, defaultName]);
+
+  // Maps a pointer position onto the canvas' own pixel grid
+  const getCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPointRef.current = getCanvasPoint(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = canvasRef.current?.getContext("2d");
+    if (!lastPointRef.current || !context) return;
+
+    const point = getCanvasPoint(e);
+    context.strokeStyle = "#000000";
+    context.lineWidth = 4;
+    context.lineCap = "round";
+    context.lineJoin = "round";
+    context.beginPath();
+    context.moveTo(lastPointRef.current.x, lastPointRef.current.y);
+    context.lineTo(point.x, point.y);
+    context.stroke();
+
+    lastPointRef.current = point;
+    setHasDrawing(true);
+  };
+
+  const handlePointerUp = () => {
+    lastPointRef.current = null;
+  };
+
+  const clearDrawing = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext("2d")?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasDrawing(false);
+  };
+
+  const handleUpload = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setUploadedImage(await renderImageSignature(file));
+    } catch (error) {
+      toast({
+        title: "Could not use this image",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const canSave =
+    (mode === "draw" && hasDrawing) ||
+    (mode === "type" && typedName.trim() !== "") ||
+    (mode === "upload" && !!uploadedImage);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      if (mode === "draw" && canvasRef.current) {
+        onSave(canvasRef.current.toDataURL("image/png"));
+      } else if (mode === "type") {
+        onSave(await renderTypedSignature(typedName.trim(), typedFont));
+      } else if (mode === "upload" && uploadedImage) {
+        onSave(uploadedImage);
+      }
+      onOpenChange(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Add Signature</DialogTitle>
+          <DialogDescription>Draw, type or upload a signature to place in this field.</DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={mode} onValueChange={(value) => setMode(value as CaptureMode)}>
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="draw" data-testid="tab-signature-draw">Draw</TabsTrigger>
+            <TabsTrigger value="type" data-testid="tab-signature-type">Type</TabsTrigger>
+            <TabsTrigger value="upload" data-testid="tab-signature-upload">Upload</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="draw" forceMount className="data-[state=inactive]:hidden">
+            <canvas
+              ref={canvasRef}
+              width={SIGNATURE_WIDTH}
+              height={SIGNATURE_HEIGHT}
+              className="w-full border border-dashed border-border rounded bg-white cursor-crosshair touch-none"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+              data-testid="canvas-signature-draw"
+            />
+            <div className="flex justify-end mt-2">
+              <Button variant="ghost" size="sm" onClick={clearDrawing} disabled={!hasDrawing} data-testid="button-clear-signature-drawing">
+                Clear
+              </Button>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="type" className="space-y-3">
+            <div>
+              <Label htmlFor="signature-name" className="text-sm font-medium text-muted-foreground">
+                Name
+              </Label>
+              <Input
+                id="signature-name"
+                value={typedName}
+                onChange={(e) => setTypedName(e.target.value)}
+                placeholder="Your name"
+                className="mt-1"
+                data-testid="input-signature-name"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {signatureFonts.map((family) => (
+                <button
+                  key={family}
+                  className={`h-20 rounded border px-2 text-3xl truncate bg-white ${
+                    typedFont === family ? "border-primary ring-1 ring-primary" : "border-border hover:border-primary/50"
+                  }`}
+                  style={{ fontFamily: getFontStack(family) }}
+                  onClick={() => setTypedFont(family)}
+                  data-testid={`button-signature-font-${family.replace(/\s+/g, "-").toLowerCase()}`}
+                >
+                  {typedName.trim() || "Signature"}
+                </button>
+              ))}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="upload" className="space-y-3">
+            <Input
+              type="file"
+              accept="image/png,image/jpeg"
+              onChange={(e) => handleUpload(e.target.files?.[0])}
+              data-testid="input-signature-upload"
+            />
+            {uploadedImage && (
+              <img
+                src={uploadedImage}
+                alt="Uploaded signature"
+                className="w-full border border-border rounded bg-white object-contain"
+                data-testid="img-signature-upload-preview"
+              />
+            )}
+          </TabsContent>
+        </Tabs>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave || isSaving} data-testid="button-save-signature">
+            Apply Signature
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,81 @@
+import { useState } from "react";
+import { type SnapSettings } from "@/lib/snapping";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+
+interface SnapSettingsMenuProps {
+  settings: SnapSettings;
+  onChange: (settings: SnapSettings) => void;
+}
+
+export default function SnapSettingsMenu({ settings, onChange }: SnapSettingsMenuProps) {
+  const [gridSizeText, setGridSizeText] = useState(settings.gridSize.toString());
+  const update = (changes: Partial<SnapSettings>) => onChange({ ...settings, ...changes });
+
+  const handleGridSizeChange = (value: string) => {
+    setGridSizeText(value);
+    const gridSize = parseFloat(value);
+    if (!isNaN(gridSize) && gridSize >= 2) update({ gridSize });
+  };
+
+  const isSnapping = settings.guides || settings.pageLines || settings.grid;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className={`p-2 hover:bg-muted rounded text-sm ${isSnapping ? "text-primary" : ""}`}
+          title="Snapping and grid"
+          data-testid="button-snap-settings"
+        >
+          <i className="fas fa-magnet"></i>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-64 space-y-3">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="snap-guides" className="text-sm">Snap to other fields</Label>
+          <Switch
+            id="snap-guides"
+            checked={settings.guides}
+            onCheckedChange={(guides) => update({ guides })}
+            data-testid="switch-snap-guides"
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="snap-page-lines" className="text-sm">Snap to lines on the page</Label>
+          <Switch
+            id="snap-page-lines"
+            checked={settings.pageLines}
+            onCheckedChange={(pageLines) => update({ pageLines })}
+            data-testid="switch-snap-page-lines"
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="snap-grid" className="text-sm">Show and snap to grid</Label>
+          <Switch
+            id="snap-grid"
+            checked={settings.grid}
+            onCheckedChange={(grid) => update({ grid })}
+            data-testid="switch-snap-grid"
+          />
+        </div>
+        <div className="flex items-center justify-between gap-2">
+          <Label htmlFor="snap-grid-size" className="text-sm text-muted-foreground">Grid size (pt)</Label>
+          <Input
+            id="snap-grid-size"
+            type="number"
+            min={2}
+            value={gridSizeText}
+            onChange={(e) => handleGridSizeChange(e.target.value)}
+            disabled={!settings.grid}
+            className="w-20"
+            data-testid="input-snap-grid-size"
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">Hold Alt while dragging to place a field freely.</p>
+      </PopoverContent>
+    </Popover>
+  );
+}
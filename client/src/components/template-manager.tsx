@@ -0,0 +1,234 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { type DocumentWithRole, type FieldTemplate, type TextField } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+
+interface TemplateManagerProps {
+  document: DocumentWithRole;
+  fieldCount: number;
+  // Templates can neither be saved from the document nor applied to it
+  readOnly: boolean;
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+export default function TemplateManager({ document, fieldCount, readOnly }: TemplateManagerProps) {
+  const [templateName, setTemplateName] = useState("");
+  const [applying, setApplying] = useState<FieldTemplate | null>(null);
+  const [offsetX, setOffsetX] = useState("0");
+  const [offsetY, setOffsetY] = useState("0");
+  const [scaleX, setScaleX] = useState("1");
+  const [scaleY, setScaleY] = useState("1");
+  const [replaceExisting, setReplaceExisting] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: templates = [] } = useQuery<FieldTemplate[]>({
+    queryKey: ["/api/templates"],
+  });
+
+  const saveTemplateMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await apiRequest("POST", "/api/templates", { name, documentId: document.id });
+      return response.json();
+    },
+    onSuccess: (template: FieldTemplate) => {
+      setTemplateName("");
+      queryClient.invalidateQueries({ queryKey: ["/api/templates"] });
+      toast({ title: `Template "${template.name}" saved` });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to save template", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const deleteTemplateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/templates/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/templates"] });
+      toast({ title: "Template removed" });
+    },
+    onError: () => {
+      toast({ title: "Failed to remove template", variant: "destructive" });
+    },
+  });
+
+  const applyTemplateMutation = useMutation({
+    mutationFn: async (template: FieldTemplate) => {
+      const response = await apiRequest("POST", `/api/documents/${document.id}/apply-template`, {
+        templateId: template.id,
+        offsetX: parseFloat(offsetX) || 0,
+        offsetY: parseFloat(offsetY) || 0,
+        scaleX: parseFloat(scaleX) || 1,
+        scaleY: parseFloat(scaleY) || 1,
+        replaceExisting,
+      });
+      return response.json() as Promise<{ created: TextField[]; skipped: number }>;
+    },
+    onSuccess: ({ created, skipped }) => {
+      setApplying(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/documents", document.id, "text-fields"] });
+      toast({
+        title: `Added ${created.length} field${created.length === 1 ? "" : "s"}`,
+        description: skipped > 0 ? `${skipped} field${skipped === 1 ? " was" : "s were"} on pages this document doesn't have` : undefined,
+      });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to apply template", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const openApplyDialog = (template: FieldTemplate) => {
+    setApplying(template);
+    setOffsetX("0");
+    setOffsetY("0");
+    setScaleX("1");
+    setScaleY("1");
+    setReplaceExisting(false);
+  };
+
+  // Stretch the template's page onto this document's first page
+  const fitToPage = () => {
+    if (!applying?.pageWidth || !applying.pageHeight || !document.width || !document.height) return;
+    setScaleX(round(document.width / applying.pageWidth).toString());
+    setScaleY(round(document.height / applying.pageHeight).toString());
+    setOffsetX("0");
+    setOffsetY("0");
+  };
+
+  const canFit = !!(applying?.pageWidth && applying.pageHeight && document.width && document.height);
+  const pageSizesDiffer =
+    canFit && (Math.abs(applying!.pageWidth! - document.width!) > 0.5 || Math.abs(applying!.pageHeight! - document.height!) > 0.5);
+
+  return (
+    <div className="mb-6">
+      <Label htmlFor="template-name" className="text-sm font-medium text-muted-foreground">
+        Templates
+      </Label>
+      {!readOnly && (
+        <div className="flex gap-2 mt-1">
+          <Input
+            id="template-name"
+            value={templateName}
+            onChange={(e) => setTemplateName(e.target.value)}
+            placeholder="Save fields as..."
+            data-testid="input-template-name"
+          />
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => saveTemplateMutation.mutate(templateName)}
+            disabled={!templateName.trim() || fieldCount === 0 || saveTemplateMutation.isPending}
+            title="Save the current fields as a template"
+            data-testid="button-save-template"
+          >
+            <i className={saveTemplateMutation.isPending ? "fas fa-spinner fa-spin" : "fas fa-save"}></i>
+          </Button>
+        </div>
+      )}
+
+      {templates.length > 0 && (
+        <div className="mt-2 space-y-1">
+          {templates.map((template) => (
+            <div
+              key={template.id}
+              className="flex items-center justify-between gap-2 px-2 py-1 rounded border border-border text-sm"
+              data-testid={`template-item-${template.id}`}
+            >
+              <span className="truncate flex-1">{template.name}</span>
+              <span className="text-xs text-muted-foreground shrink-0">{template.fields.length} fields</span>
+              {!readOnly && (
+                <button
+                  className="text-primary hover:text-primary/80 text-xs p-1"
+                  onClick={() => openApplyDialog(template)}
+                  title="Apply to this document"
+                  data-testid={`button-apply-template-${template.id}`}
+                >
+                  <i className="fas fa-file-import"></i>
+                </button>
+              )}
+              <button
+                className="text-destructive hover:text-destructive/80 text-xs p-1"
+                onClick={() => deleteTemplateMutation.mutate(template.id)}
+                data-testid={`button-delete-template-${template.id}`}
+              >
+                <i className="fas fa-trash"></i>
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={!!applying} onOpenChange={(open) => !open && setApplying(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Apply "{applying?.name}"</DialogTitle>
+            <DialogDescription>
+              Adds the template's {applying?.fields.length} fields to this document. Positions are in points from the top-left corner.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3">
+            {pageSizesDiffer && (
+              <div className="flex items-center justify-between gap-2 rounded bg-muted px-3 py-2 text-xs">
+                <span>
+                  Page size differs: {Math.round(applying!.pageWidth!)}×{Math.round(applying!.pageHeight!)} →{" "}
+                  {Math.round(document.width!)}×{Math.round(document.height!)}
+                </span>
+                <Button size="sm" variant="outline" onClick={fitToPage} data-testid="button-template-fit-page">
+                  Fit to page
+                </Button>
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label htmlFor="template-offset-x" className="text-sm font-medium text-muted-foreground">Offset X</Label>
+                <Input id="template-offset-x" type="number" value={offsetX} onChange={(e) => setOffsetX(e.target.value)} className="mt-1" data-testid="input-template-offset-x" />
+              </div>
+              <div>
+                <Label htmlFor="template-offset-y" className="text-sm font-medium text-muted-foreground">Offset Y</Label>
+                <Input id="template-offset-y" type="number" value={offsetY} onChange={(e) => setOffsetY(e.target.value)} className="mt-1" data-testid="input-template-offset-y" />
+              </div>
+              <div>
+                <Label htmlFor="template-scale-x" className="text-sm font-medium text-muted-foreground">Scale X</Label>
+                <Input id="template-scale-x" type="number" step="0.01" min={0.01} value={scaleX} onChange={(e) => setScaleX(e.target.value)} className="mt-1" data-testid="input-template-scale-x" />
+              </div>
+              <div>
+                <Label htmlFor="template-scale-y" className="text-sm font-medium text-muted-foreground">Scale Y</Label>
+                <Input id="template-scale-y" type="number" step="0.01" min={0.01} value={scaleY} onChange={(e) => setScaleY(e.target.value)} className="mt-1" data-testid="input-template-scale-y" />
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="template-replace" className="text-sm font-medium text-muted-foreground">
+                Replace existing fields
+              </Label>
+              <Switch id="template-replace" checked={replaceExisting} onCheckedChange={setReplaceExisting} data-testid="switch-template-replace" />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setApplying(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => applying && applyTemplateMutation.mutate(applying)}
+              disabled={applyTemplateMutation.isPending}
+              data-testid="button-apply-template"
+            >
+              Apply Template
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,22 +1,50 @@
 import { useState, useRef, useEffect } from "react";
-import { type TextField } from "@shared/schema";
+import { type FieldType, type TextField } from "@shared/schema";
+import { getFontStack } from "@/lib/fonts";
+import { type FieldRect } from "@/lib/snapping";
+
+// How far a field has been moved or resized while a drag is in progress
+export interface FieldDelta {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const getMinFieldSize = (type: FieldType) =>
+  type === 'checkbox' || type === 'radio' ? { width: 10, height: 10 } : { width: 50, height: 20 };
 
 interface TextFieldComponentProps {
   field: TextField;
   isSelected: boolean;
+  isGroupMember?: boolean;
   zoomLevel: number;
-  onSelect: () => void;
+  // Set while another selected field is being dragged, so this one follows it
+  dragOffset?: FieldDelta | null;
+  onSelect: (additive: boolean) => void;
+  onDragChange?: (delta: FieldDelta | null) => void;
+  // Adjust the field's position or size while dragging, for guides and the grid
+  onSnapMove?: (rect: FieldRect) => { x: number; y: number };
+  onSnapResize?: (rect: FieldRect, edges: { right: boolean; bottom: boolean }) => { width: number; height: number };
   onUpdatePosition: (x: number, y: number) => void;
   onUpdateSize: (width: number, height: number) => void;
+  // Selectable but not movable or resizable
+  readOnly?: boolean;
 }
 
 export default function TextFieldComponent({
   field,
   isSelected,
+  isGroupMember = false,
   zoomLevel,
+  dragOffset = null,
   onSelect,
+  onDragChange,
+  onSnapMove,
+  onSnapResize,
   onUpdatePosition,
   onUpdateSize,
+  readOnly = false,
 }: TextFieldComponentProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [isResizing, setIsResizing] = useState(false);
@@ -31,6 +59,17 @@ export default function TextFieldComponent({
 
   const fieldRef = useRef<HTMLDivElement>(null);
   const scale = zoomLevel / 100;
+  const isToggle = field.type === 'checkbox' || field.type === 'radio';
+  const { width: minWidth, height: minHeight } = getMinFieldSize(field.type);
+  const fontFamily = getFontStack(field.fontFamily);
+  // Mirrors what the export applies; auto-sized text keeps the default preview size
+  const textStyle: React.CSSProperties = {
+    fontFamily,
+    fontSize: field.fontSize ? field.fontSize * scale : undefined,
+    color: field.textColor ?? undefined,
+    paddingLeft: (field.padding ?? 2) * scale,
+    paddingRight: (field.padding ?? 2) * scale,
+  };
 
   // Update current state when field props change, but only when not actively dragging/resizing
   useEffect(() => {
@@ -41,59 +80,52 @@ export default function TextFieldComponent({
   }, [field.x, field.y, field.width, field.height, isDragging, isResizing]);
 
   useEffect(() => {
-    const handleMouseMove = (e: MouseEvent) => {
+    // Holding Alt while dragging turns snapping off
+    const moveTo = (clientX: number, clientY: number, snap: boolean) => {
+      const deltaX = (clientX - dragStart.x) / scale;
+      const deltaY = (clientY - dragStart.y) / scale;
+
       if (isDragging) {
-        const deltaX = (e.clientX - dragStart.x) / scale;
-        const deltaY = (e.clientY - dragStart.y) / scale;
-        const newX = Math.max(0, initialPosition.x + deltaX);
-        const newY = Math.max(0, initialPosition.y + deltaY);
+        let newX = Math.max(0, initialPosition.x + deltaX);
+        let newY = Math.max(0, initialPosition.y + deltaY);
+        if (snap && onSnapMove) {
+          ({ x: newX, y: newY } = onSnapMove({ x: newX, y: newY, width: currentSize.width, height: currentSize.height }));
+        }
         setCurrentPosition({ x: newX, y: newY });
+        onDragChange?.({ x: newX - initialPosition.x, y: newY - initialPosition.y, width: 0, height: 0 });
       } else if (isResizing && resizeDirection) {
-        const deltaX = (e.clientX - dragStart.x) / scale;
-        const deltaY = (e.clientY - dragStart.y) / scale;
-
-        let newWidth = initialSize.width;
-        let newHeight = initialSize.height;
-
-        if (resizeDirection === 'se' || resizeDirection === 'e') {
-          newWidth = Math.max(50, initialSize.width + deltaX);
-        }
-        if (resizeDirection === 'se' || resizeDirection === 's') {
-          newHeight = Math.max(20, initialSize.height + deltaY);
+        const edges = {
+          right: resizeDirection === 'se' || resizeDirection === 'e',
+          bottom: resizeDirection === 'se' || resizeDirection === 's',
+        };
+        let newWidth = edges.right ? initialSize.width + deltaX : initialSize.width;
+        let newHeight = edges.bottom ? initialSize.height + deltaY : initialSize.height;
+        if (snap && onSnapResize) {
+          ({ width: newWidth, height: newHeight } = onSnapResize(
+            { x: currentPosition.x, y: currentPosition.y, width: newWidth, height: newHeight },
+            edges
+          ));
         }
+        newWidth = Math.max(minWidth, newWidth);
+        newHeight = Math.max(minHeight, newHeight);
 
         setCurrentSize({ width: newWidth, height: newHeight });
+        onDragChange?.({ x: 0, y: 0, width: newWidth - initialSize.width, height: newHeight - initialSize.height });
       }
     };
 
-    const handleTouchMove = (e: TouchEvent) => {
-      if (isDragging && e.touches.length === 1) {
-        const touch = e.touches[0];
-        const deltaX = (touch.clientX - dragStart.x) / scale;
-        const deltaY = (touch.clientY - dragStart.y) / scale;
-        const newX = Math.max(0, initialPosition.x + deltaX);
-        const newY = Math.max(0, initialPosition.y + deltaY);
-        setCurrentPosition({ x: newX, y: newY });
-      } else if (isResizing && resizeDirection && e.touches.length === 1) {
-        const touch = e.touches[0];
-        const deltaX = (touch.clientX - dragStart.x) / scale;
-        const deltaY = (touch.clientY - dragStart.y) / scale;
-
-        let newWidth = initialSize.width;
-        let newHeight = initialSize.height;
-
-        if (resizeDirection === 'se' || resizeDirection === 'e') {
-          newWidth = Math.max(50, initialSize.width + deltaX);
-        }
-        if (resizeDirection === 'se' || resizeDirection === 's') {
-          newHeight = Math.max(20, initialSize.height + deltaY);
-        }
+    const handleMouseMove = (e: MouseEvent) => {
+      moveTo(e.clientX, e.clientY, !e.altKey);
+    };
 
-        setCurrentSize({ width: newWidth, height: newHeight });
+    const handleTouchMove = (e: TouchEvent) => {
+      if (e.touches.length === 1) {
+        moveTo(e.touches[0].clientX, e.touches[0].clientY, true);
       }
     };
 
     const handleEnd = () => {
+      onDragChange?.(null);
       if (isDragging) {
         onUpdatePosition(currentPosition.x, currentPosition.y);
         setIsDragging(false);
@@ -123,15 +155,18 @@ export default function TextFieldComponent({
       document.body.style.userSelect = '';
       document.body.style.cursor = '';
     };
-  }, [isDragging, isResizing, dragStart, initialPosition, initialSize, resizeDirection, scale, currentPosition, currentSize, onUpdatePosition, onUpdateSize]);
+  }, [isDragging, isResizing, dragStart, initialPosition, initialSize, resizeDirection, scale, minWidth, minHeight, currentPosition, currentSize, onDragChange, onSnapMove, onSnapResize, onUpdatePosition, onUpdateSize]);
 
   const handleMouseDown = (e: React.MouseEvent) => {
     e.preventDefault();
     e.stopPropagation();
 
-    if (!isSelected) {
-      onSelect();
-    } else {
+    // Shift-click adds the field to the selection or takes it out again
+    if (e.shiftKey) {
+      onSelect(true);
+    } else if (!isSelected) {
+      onSelect(false);
+    } else if (!readOnly) {
       setIsDragging(true);
       setDragStart({ x: e.clientX, y: e.clientY });
       setInitialPosition({ x: currentPosition.x, y: currentPosition.y });
@@ -143,8 +178,8 @@ export default function TextFieldComponent({
     e.stopPropagation();
 
     if (!isSelected) {
-      onSelect();
-    } else if (e.touches.length === 1) {
+      onSelect(false);
+    } else if (!readOnly && e.touches.length === 1) {
       const touch = e.touches[0];
       setIsDragging(true);
       setDragStart({ x: touch.clientX, y: touch.clientY });
@@ -175,13 +210,23 @@ export default function TextFieldComponent({
     }
   };
 
+  const offset = isDragging || isResizing ? null : dragOffset;
+  const left = Math.max(0, currentPosition.x + (offset?.x ?? 0));
+  const top = Math.max(0, currentPosition.y + (offset?.y ?? 0));
+  const width = Math.max(minWidth, currentSize.width + (offset?.width ?? 0));
+  const height = Math.max(minHeight, currentSize.height + (offset?.height ?? 0));
+
   return (
     <div
       ref={fieldRef}
       className={`absolute transition-all duration-150 touch-none select-none ${
+        field.type === 'radio' ? 'rounded-full' : ''
+      } ${
         isSelected 
-          ? 'border-2 border-primary shadow-lg shadow-primary/20 cursor-move' 
-          : 'border-2 border-black hover:border-primary hover:shadow-md hover:shadow-primary/10 cursor-pointer'
+          ? `border-2 border-primary shadow-lg shadow-primary/20 ${readOnly ? 'cursor-default' : 'cursor-move'}` 
+          : isGroupMember
+            ? 'border-2 border-dashed border-primary/60 hover:border-primary cursor-pointer'
+            : 'border-2 border-black hover:border-primary hover:shadow-md hover:shadow-primary/10 cursor-pointer'
       }`}
       style={{
         WebkitUserSelect: 'none',
@@ -189,30 +234,73 @@ export default function TextFieldComponent({
         msUserSelect: 'none',
         userSelect: 'none',
         WebkitTouchCallout: 'none',
-        left: currentPosition.x * scale,
-        top: currentPosition.y * scale,
-        width: currentSize.width * scale,
-        height: currentSize.height * scale,
+        left: left * scale,
+        top: top * scale,
+        width: width * scale,
+        height: height * scale,
         backgroundColor: 'rgba(255, 255, 255, 0.8)',
-        minWidth: 50 * scale,
-        minHeight: 20 * scale,
+        minWidth: minWidth * scale,
+        minHeight: minHeight * scale,
       }}
       onMouseDown={handleMouseDown}
       onTouchStart={handleTouchStart}
       data-testid={`text-field-${field.id}`}
     >
-      <div 
-        className="w-full h-full flex items-center px-2 text-sm text-gray-600 pointer-events-none overflow-hidden select-none"
-        style={{ 
-          fontFamily: field.fontFamily === 'Dancing Script' ? 'Dancing Script, cursive' : 
-                      field.fontFamily === 'Allura' ? 'Allura, cursive' : 
-                      'Arial, sans-serif'
-        }}
-      >
-        {field.name}
-      </div>
-
-      {isSelected && (
+      {isToggle ? (
+        <div
+          className="w-full h-full flex items-center justify-center text-gray-600 pointer-events-none select-none"
+          style={{
+            fontSize: Math.min(width, height) * scale * 0.7,
+            color: field.textColor ?? undefined,
+          }}
+          title={field.type === 'radio' ? `${field.groupName}: ${field.exportValue}` : field.name}
+        >
+          <i className={field.type === 'radio' ? 'fas fa-circle' : 'fas fa-check'} style={{ fontSize: field.type === 'radio' ? '0.6em' : undefined }}></i>
+        </div>
+      ) : field.type === 'listbox' ? (
+        <div
+          className="w-full h-full py-1 text-sm text-gray-600 pointer-events-none overflow-hidden select-none"
+          style={textStyle}
+        >
+          {(field.options ?? []).map((option, index) => (
+            <div key={index} className={`truncate ${option.selected ? 'bg-primary/20' : ''}`}>
+              {option.label}
+            </div>
+          ))}
+        </div>
+      ) : field.type === 'dropdown' ? (
+        <div
+          className="w-full h-full flex items-center justify-between gap-1 text-sm text-gray-600 pointer-events-none overflow-hidden select-none"
+          style={textStyle}
+        >
+          <span className="truncate">
+            {field.options?.find(option => option.selected)?.label ?? field.name}
+          </span>
+          <i className="fas fa-caret-down shrink-0"></i>
+        </div>
+      ) : field.type === 'signature' ? (
+        <div className="w-full h-full flex items-center justify-center text-sm text-gray-500 pointer-events-none overflow-hidden select-none">
+          {field.signatureImage ? (
+            <img src={field.signatureImage} alt={field.name} className="max-w-full max-h-full object-contain" draggable={false} />
+          ) : (
+            <span className="truncate">
+              <i className="fas fa-signature mr-1"></i>
+              {field.name}
+            </span>
+          )}
+        </div>
+      ) : (
+        <div 
+          className={`w-full h-full flex items-center text-sm text-gray-600 pointer-events-none overflow-hidden select-none ${
+            field.textAlign === 'center' ? 'justify-center' : field.textAlign === 'right' ? 'justify-end' : 'justify-start'
+          }`}
+          style={textStyle}
+        >
+          <span className="truncate">{typeof field.value === 'string' && field.value ? field.value : field.name}</span>
+        </div>
+      )}
+
+      {isSelected && !readOnly && (
         <>
           <div
             className="absolute bottom-0 right-0 w-2 h-2 bg-primary border border-white cursor-se-resize transform translate-x-1 translate-y-1 touch-none"
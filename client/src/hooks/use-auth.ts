@@ -0,0 +1,42 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { type InsertUser, type PublicUser } from "@shared/schema";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+
+const USER_KEY = ["/api/user"];
+
+// The signed-in account, or null when signed out
+export function useAuth() {
+  const { data: user, isLoading } = useQuery<PublicUser | null>({
+    queryKey: USER_KEY,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: InsertUser) => {
+      const response = await apiRequest("POST", "/api/login", credentials);
+      return (await response.json()) as PublicUser;
+    },
+    onSuccess: (signedIn) => queryClient.setQueryData(USER_KEY, signedIn),
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: InsertUser) => {
+      const response = await apiRequest("POST", "/api/register", credentials);
+      return (await response.json()) as PublicUser;
+    },
+    onSuccess: (signedIn) => queryClient.setQueryData(USER_KEY, signedIn),
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => {
+      // Nothing cached for one account should show up for the next
+      queryClient.clear();
+      queryClient.setQueryData(USER_KEY, null);
+    },
+  });
+
+  return { user: user ?? null, isLoading, loginMutation, registerMutation, logoutMutation };
+}
@@ -0,0 +1,142 @@
+import { useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { type TextField } from "@shared/schema";
+import {
+  COLLABORATION_PATH,
+  FINAL_CLOSE_CODES,
+  type ClientMessage,
+  type Collaborator,
+  type CursorPosition,
+  type ServerMessage,
+} from "@shared/collaboration";
+import { clientId } from "@/lib/collaborator";
+
+const RECONNECT_DELAY_MS = 2000;
+// Cursor updates are sent at most this often
+const CURSOR_INTERVAL_MS = 50;
+
+// Applies field changes from the server to the cached list. Returns null when
+// the cache can't take them, e.g. an update for a field it never saw.
+function applyFieldChanges(fields: TextField[], changes: Extract<ServerMessage, { type: "fields" }>["changes"]) {
+  let next = fields;
+  for (const change of changes) {
+    if (change.action === "create") {
+      next = [...next.filter((field) => field.id !== change.fieldId), change.after as TextField];
+    } else if (change.action === "delete") {
+      next = next.filter((field) => field.id !== change.fieldId);
+    } else {
+      if (!next.some((field) => field.id === change.fieldId)) return null;
+      next = next.map((field) => (field.id === change.fieldId ? { ...field, ...change.after } : field));
+    }
+  }
+  return next;
+}
+
+// Joins the document's collaboration room: keeps the field cache in step with
+// other people's edits and tracks their cursors and selections
+export function useCollaboration(documentId: string | undefined, selectedFieldIds: string[]) {
+  const [collaborators, setCollaborators] = useState<Collaborator[]>([]);
+  const [self, setSelf] = useState<Collaborator | null>(null);
+  const queryClient = useQueryClient();
+  const socketRef = useRef<WebSocket | null>(null);
+  const lastCursorSent = useRef(0);
+  const pendingCursor = useRef<number | null>(null);
+  const selectionKey = selectedFieldIds.join(",");
+
+  const send = (message: ClientMessage) => {
+    const socket = socketRef.current;
+    if (socket?.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  };
+
+  useEffect(() => {
+    if (!documentId) return;
+
+    const textFieldsKey = ["/api/documents", documentId, "text-fields"];
+    let seq = 0;
+    let closed = false;
+    let reconnectTimer: number | undefined;
+
+    const handleMessage = (message: ServerMessage) => {
+      switch (message.type) {
+        case "welcome":
+          seq = message.seq;
+          setSelf(message.self);
+          setCollaborators(message.collaborators);
+          // Anything could have changed while we weren't connected
+          queryClient.invalidateQueries({ queryKey: textFieldsKey });
+          break;
+        case "collaborator":
+          setCollaborators((prev) => [
+            ...prev.filter((other) => other.id !== message.collaborator.id),
+            message.collaborator,
+          ]);
+          break;
+        case "left":
+          setCollaborators((prev) => prev.filter((other) => other.id !== message.clientId));
+          break;
+        case "fields": {
+          // Replaying in server order keeps every tab on the server's version
+          // of the fields; after a missed message, start over from the server
+          const inOrder = message.seq === seq + 1;
+          seq = message.seq;
+          const fields = queryClient.getQueryData<TextField[]>(textFieldsKey);
+          const next = inOrder && fields ? applyFieldChanges(fields, message.changes) : null;
+          if (next) {
+            queryClient.setQueryData(textFieldsKey, next);
+          } else {
+            queryClient.invalidateQueries({ queryKey: textFieldsKey });
+          }
+          break;
+        }
+      }
+    };
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      const socket = new WebSocket(`${protocol}//${window.location.host}${COLLABORATION_PATH}`);
+      socketRef.current = socket;
+
+      socket.onopen = () => {
+        send({ type: "join", documentId, clientId });
+      };
+      socket.onmessage = (event) => handleMessage(JSON.parse(event.data));
+      socket.onclose = (event) => {
+        setCollaborators([]);
+        setSelf(null);
+        // Signed out, or not allowed to see the document: trying again won't help
+        if (!closed && !FINAL_CLOSE_CODES.includes(event.code)) {
+          reconnectTimer = window.setTimeout(connect, RECONNECT_DELAY_MS);
+        }
+      };
+    };
+
+    connect();
+    return () => {
+      closed = true;
+      window.clearTimeout(reconnectTimer);
+      window.clearTimeout(pendingCursor.current ?? undefined);
+      socketRef.current?.close();
+      socketRef.current = null;
+    };
+  }, [documentId]);
+
+  useEffect(() => {
+    send({ type: "presence", selection: selectedFieldIds });
+  }, [selectionKey, self?.id]);
+
+  // Throttled; the last position always goes out so cursors don't stop short
+  const sendCursor = (cursor: CursorPosition | null) => {
+    window.clearTimeout(pendingCursor.current ?? undefined);
+    const wait = lastCursorSent.current + CURSOR_INTERVAL_MS - Date.now();
+    if (cursor && wait > 0) {
+      pendingCursor.current = window.setTimeout(() => sendCursor(cursor), wait);
+      return;
+    }
+    lastCursorSent.current = Date.now();
+    send({ type: "presence", cursor });
+  };
+
+  return { collaborators, self, sendCursor };
+}
@@ -0,0 +1,32 @@
+import { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { type FontSummary } from "@shared/schema";
+import { withShareToken } from "@/lib/share-link";
+
+const registeredFonts = new Set<string>();
+
+// Lists uploaded fonts and registers each with the browser so field
+// previews render in the same typeface the export will embed
+export function useCustomFonts() {
+  const { data: fonts = [] } = useQuery<FontSummary[]>({
+    queryKey: ["/api/fonts"],
+  });
+
+  useEffect(() => {
+    for (const font of fonts) {
+      if (registeredFonts.has(font.id)) continue;
+      registeredFonts.add(font.id);
+
+      const fontFace = new FontFace(font.family, `url(${withShareToken(`/api/fonts/${font.id}/file`)})`);
+      fontFace
+        .load()
+        .then((loaded) => document.fonts.add(loaded))
+        .catch((error) => {
+          registeredFonts.delete(font.id);
+          console.error(`Error loading font ${font.family}:`, error);
+        });
+    }
+  }, [fonts]);
+
+  return fonts;
+}
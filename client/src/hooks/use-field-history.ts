@@ -0,0 +1,158 @@
+import { useRef, useState } from "react";
+import { type TextField } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { type FieldChange } from "@/lib/arrange";
+
+// One reversible change to a field. Creates and deletes keep the whole
+// field, so it comes back with its id and every property intact.
+export type FieldStep =
+  | { type: "create"; field: TextField }
+  | { type: "delete"; field: TextField }
+  | { type: "update"; id: string; before: Partial<TextField>; after: Partial<TextField> };
+
+// What a single undo or redo reverts or replays
+export interface HistoryEntry {
+  label: string;
+  steps: FieldStep[];
+  // Entries with the same key that follow each other quickly merge into one,
+  // so typing into a box or dragging a field again undoes in one go
+  coalesceKey?: string;
+  time: number;
+}
+
+const COALESCE_WINDOW_MS = 1000;
+
+const restoreField = (field: TextField) => apiRequest("PUT", `/api/text-fields/${field.id}`, field);
+const removeField = (field: TextField) => apiRequest("DELETE", `/api/text-fields/${field.id}`);
+
+function applyStep(step: FieldStep, direction: "undo" | "redo") {
+  switch (step.type) {
+    case "create":
+      return direction === "redo" ? restoreField(step.field) : removeField(step.field);
+    case "delete":
+      return direction === "redo" ? removeField(step.field) : restoreField(step.field);
+    case "update":
+      return apiRequest("PATCH", `/api/text-fields/${step.id}`, direction === "redo" ? step.after : step.before);
+  }
+}
+
+const opposite = (direction: "undo" | "redo") => (direction === "undo" ? "redo" : "undo");
+
+// Applies the steps in order. If one fails, the ones already applied are
+// reverted so the entry isn't left half done, and the failure is rethrown.
+async function applySteps(steps: FieldStep[], direction: "undo" | "redo") {
+  const applied: FieldStep[] = [];
+  try {
+    for (const step of steps) {
+      await applyStep(step, direction);
+      applied.push(step);
+    }
+  } catch (err) {
+    for (const step of applied.reverse()) {
+      // Best effort; the caller refetches the fields either way
+      await applyStep(step, opposite(direction)).catch(() => undefined);
+    }
+    throw err;
+  }
+}
+
+// An update step for a field, remembering the values it overwrites
+export function updateStep(field: TextField, updates: Partial<TextField>): FieldStep {
+  const before = Object.fromEntries(Object.keys(updates).map((key) => [key, field[key as keyof TextField]]));
+  return { type: "update", id: field.id, before, after: updates };
+}
+
+// Edits to the same properties of the same fields share a key
+export const updateCoalesceKey = (changes: FieldChange[]) =>
+  `update:${changes.map((change) => change.id).sort().join(",")}:${Object.keys(changes[0]?.updates ?? {}).sort().join(",")}`;
+
+// Updates to the same field keep the earlier entry's starting values and the
+// later entry's end values
+function mergeEntries(earlier: HistoryEntry, later: HistoryEntry): HistoryEntry {
+  const steps = [...earlier.steps];
+  for (const step of later.steps) {
+    const index = steps.findIndex((existing) => existing.type === "update" && step.type === "update" && existing.id === step.id);
+    const existing = steps[index];
+    if (step.type === "update" && existing?.type === "update") {
+      steps[index] = {
+        ...existing,
+        before: { ...step.before, ...existing.before },
+        after: { ...existing.after, ...step.after },
+      };
+    } else {
+      steps.push(step);
+    }
+  }
+  return { ...later, steps };
+}
+
+// Keeps the undo and redo stacks for the field editor. Each entry is a list
+// of steps that undo in reverse and redo in order against the API.
+export function useFieldHistory() {
+  const [undoStack, setUndoStack] = useState<HistoryEntry[]>([]);
+  const [redoStack, setRedoStack] = useState<HistoryEntry[]>([]);
+  const isApplying = useRef(false);
+
+  const record = (entry: Omit<HistoryEntry, "time">) => {
+    if (entry.steps.length === 0) return;
+    const next: HistoryEntry = { ...entry, time: Date.now() };
+    setUndoStack((prev) => {
+      const last = prev[prev.length - 1];
+      if (last && next.coalesceKey && last.coalesceKey === next.coalesceKey && next.time - last.time < COALESCE_WINDOW_MS) {
+        return [...prev.slice(0, -1), mergeEntries(last, next)];
+      }
+      return [...prev, next];
+    });
+    setRedoStack([]);
+  };
+
+  // Each resolves with the entry it applied, or null when there was nothing
+  // to do. A failed step rolls back the rest of the entry, then rejects and
+  // leaves both stacks as they were.
+  const undo = async (): Promise<HistoryEntry | null> => {
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry || isApplying.current) return null;
+
+    isApplying.current = true;
+    try {
+      await applySteps([...entry.steps].reverse(), "undo");
+      setUndoStack((prev) => prev.filter((candidate) => candidate !== entry));
+      setRedoStack((prev) => [...prev, entry]);
+      return entry;
+    } finally {
+      isApplying.current = false;
+    }
+  };
+
+  const redo = async (): Promise<HistoryEntry | null> => {
+    const entry = redoStack[redoStack.length - 1];
+    if (!entry || isApplying.current) return null;
+
+    isApplying.current = true;
+    try {
+      await applySteps(entry.steps, "redo");
+      setRedoStack((prev) => prev.filter((candidate) => candidate !== entry));
+      // A redone entry never merges with whatever comes next
+      setUndoStack((prev) => [...prev, { ...entry, coalesceKey: undefined }]);
+      return entry;
+    } finally {
+      isApplying.current = false;
+    }
+  };
+
+  const clear = () => {
+    setUndoStack([]);
+    setRedoStack([]);
+  };
+
+  return {
+    record,
+    undo,
+    redo,
+    clear,
+    canUndo: undoStack.length > 0,
+    canRedo: redoStack.length > 0,
+    undoLabel: undoStack[undoStack.length - 1]?.label,
+    redoLabel: redoStack[redoStack.length - 1]?.label,
+  };
+}
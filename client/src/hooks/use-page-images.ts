@@ -0,0 +1,78 @@
+import { useEffect, useState } from "react";
+import { type Document } from "@shared/schema";
+import { loadPDFDocument, renderPDFPage } from "@/lib/pdf-utils";
+import { withShareToken } from "@/lib/share-link";
+
+export interface PageImage {
+  url: string;
+  width: number;
+  height: number;
+}
+
+// What rendering needs to know about a document. The fill view's summary has
+// no type or size; uploads are always stored as PDFs, so it's treated as one.
+type PageSource = Pick<Document, "id" | "originalName"> & Partial<Pick<Document, "mimeType" | "width" | "height">>;
+
+// Renders every page of a document to an image URL, in points at scale 1.
+// Pages arrive one by one, so isLoading clears as soon as the first is ready.
+export function usePageImages(document: PageSource) {
+  const [pageImages, setPageImages] = useState<PageImage[]>([]);
+  const [pageCount, setPageCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPageImages([]);
+    setPageCount(0);
+
+    if ((document.mimeType ?? 'application/pdf') === 'application/pdf') {
+      setIsLoading(true);
+
+      // Fetch the PDF file and render each page to an image
+      fetch(withShareToken(`/api/documents/${document.id}/file`))
+        .then(response => response.blob())
+        .then(blob => {
+          const file = new File([blob], document.originalName, { type: 'application/pdf' });
+          return loadPDFDocument(file);
+        })
+        .then(async (pdf) => {
+          if (cancelled) return;
+          setPageCount(pdf.numPages);
+
+          for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+            const { canvas, width, height } = await renderPDFPage(pdf, pageNumber);
+            if (cancelled) return;
+
+            // Convert canvas to image URL for background
+            const page = { url: canvas.toDataURL('image/png'), width, height };
+            setPageImages(prev => [...prev, page]);
+
+            if (pageNumber === 1) {
+              setIsLoading(false);
+            }
+          }
+        })
+        .catch(error => {
+          console.error('Error loading PDF:', error);
+          if (!cancelled) {
+            setIsLoading(false);
+          }
+        });
+    } else {
+      // Images are always a single page
+      setPageImages([{
+        url: withShareToken(`/api/documents/${document.id}/file`),
+        width: document.width || 612,
+        height: document.height || 792,
+      }]);
+      setPageCount(1);
+      setIsLoading(false);
+    }
+
+    return () => {
+      cancelled = true;
+    };
+  }, [document.id, document.mimeType]);
+
+  return { pageImages, pageCount, isLoading };
+}
@@ -0,0 +1,89 @@
+import { type TextField } from "@shared/schema";
+
+export interface FieldChange {
+  id: string;
+  updates: Partial<TextField>;
+}
+
+export type ArrangeCommand =
+  | "align-left"
+  | "align-center"
+  | "align-right"
+  | "align-top"
+  | "align-middle"
+  | "align-bottom"
+  | "same-width"
+  | "same-height"
+  | "distribute-horizontal"
+  | "distribute-vertical";
+
+// Spreads fields out so the gaps between them are equal, keeping the first
+// and last in place
+function distribute(fields: TextField[], axis: "x" | "y"): FieldChange[] {
+  const size = axis === "x" ? "width" : "height";
+  const sorted = [...fields].sort((a, b) => a[axis] - b[axis]);
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  const occupied = sorted.reduce((total, field) => total + field[size], 0);
+  const gap = (last[axis] + last[size] - first[axis] - occupied) / (sorted.length - 1);
+
+  const changes: FieldChange[] = [];
+  let position = first[axis];
+  for (const field of sorted) {
+    changes.push({ id: field.id, updates: { [axis]: position } });
+    position += field[size] + gap;
+  }
+  return changes;
+}
+
+// Changes that line up or size the fields. Edges align to the outermost
+// field; sizes match the first field selected.
+export function arrangeFields(fields: TextField[], command: ArrangeCommand): FieldChange[] {
+  if (fields.length < 2) return [];
+
+  const left = Math.min(...fields.map((field) => field.x));
+  const right = Math.max(...fields.map((field) => field.x + field.width));
+  const top = Math.min(...fields.map((field) => field.y));
+  const bottom = Math.max(...fields.map((field) => field.y + field.height));
+  const [reference] = fields;
+
+  let changes: FieldChange[];
+  switch (command) {
+    case "align-left":
+      changes = fields.map((field) => ({ id: field.id, updates: { x: left } }));
+      break;
+    case "align-center":
+      changes = fields.map((field) => ({ id: field.id, updates: { x: (left + right) / 2 - field.width / 2 } }));
+      break;
+    case "align-right":
+      changes = fields.map((field) => ({ id: field.id, updates: { x: right - field.width } }));
+      break;
+    case "align-top":
+      changes = fields.map((field) => ({ id: field.id, updates: { y: top } }));
+      break;
+    case "align-middle":
+      changes = fields.map((field) => ({ id: field.id, updates: { y: (top + bottom) / 2 - field.height / 2 } }));
+      break;
+    case "align-bottom":
+      changes = fields.map((field) => ({ id: field.id, updates: { y: bottom - field.height } }));
+      break;
+    case "same-width":
+      changes = fields.map((field) => ({ id: field.id, updates: { width: reference.width } }));
+      break;
+    case "same-height":
+      changes = fields.map((field) => ({ id: field.id, updates: { height: reference.height } }));
+      break;
+    case "distribute-horizontal":
+      changes = fields.length > 2 ? distribute(fields, "x") : [];
+      break;
+    case "distribute-vertical":
+      changes = fields.length > 2 ? distribute(fields, "y") : [];
+      break;
+  }
+
+  // Leave out fields that are already where they should be
+  return changes.filter(({ id, updates }) => {
+    const field = fields.find((candidate) => candidate.id === id)!;
+    return Object.entries(updates).some(([key, value]) => Math.abs((field[key as keyof TextField] as number) - (value as number)) > 0.01);
+  });
+}
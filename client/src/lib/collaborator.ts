@@ -0,0 +1,7 @@
+// Identifies this tab to the server, so it can tell our own field changes
+// apart when they come back over the collaboration socket
+export const clientId = crypto.randomUUID();
+
+export const collaboratorHeaders = (): Record<string, string> => ({
+  "X-Client-Id": clientId,
+});
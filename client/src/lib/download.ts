@@ -0,0 +1,15 @@
+// Saves a blob through a temporary link, as the browser's own download would
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  document.body.removeChild(a);
+};
+
+// "contract.pdf" -> "contract_filled.pdf"
+export const withFileSuffix = (originalName: string | undefined, suffix: string, extension = "pdf") =>
+  `${originalName?.replace(/\.[^/.]+$/, "") || "document"}_${suffix}.${extension}`;
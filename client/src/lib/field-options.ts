@@ -0,0 +1,36 @@
+import { type FieldOption } from "@shared/schema";
+
+// Options are edited as plain text, one per line:
+//   Display text
+//   Display text | export value
+//   Display text<TAB>export value   (pasted from a spreadsheet)
+// A leading "*" marks the option as selected by default.
+export const parseFieldOptions = (text: string): FieldOption[] => {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .map(line => {
+      const selected = line.startsWith('*');
+      const content = selected ? line.slice(1).trim() : line;
+      const [label, value] = content.split(/\t|\s*\|\s*/, 2).map(part => part.trim());
+
+      return {
+        label: label || value,
+        value: value || label,
+        ...(selected ? { selected: true } : {}),
+      };
+    })
+    .filter(option => option.label && option.value);
+};
+
+export const formatFieldOptions = (options: FieldOption[]): string => {
+  return options
+    .map(option => {
+      const prefix = option.selected ? '*' : '';
+      return option.value === option.label
+        ? `${prefix}${option.label}`
+        : `${prefix}${option.label} | ${option.value}`;
+    })
+    .join('\n');
+};
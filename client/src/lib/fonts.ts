@@ -0,0 +1,15 @@
+// CSS font stack for previewing a font family, including uploaded fonts
+export const getFontStack = (family: string | null | undefined): string => {
+  switch (family) {
+    case "Dancing Script":
+      return "Dancing Script, cursive";
+    case "Allura":
+      return "Allura, cursive";
+    case "Arial":
+    case null:
+    case undefined:
+      return "Arial, sans-serif";
+    default:
+      return `"${family}", Arial, sans-serif`;
+  }
+};
@@ -1,4 +1,12 @@
-export const loadPDFPage = async (file: File): Promise<{ canvas: HTMLCanvasElement; width: number; height: number }> => {
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+
+export interface RenderedPage {
+  canvas: HTMLCanvasElement;
+  width: number;
+  height: number;
+}
+
+export const loadPDFDocument = async (file: File): Promise<PDFDocumentProxy> => {
   return new Promise((resolve, reject) => {
     const fileReader = new FileReader();
     
@@ -11,32 +19,7 @@ export const loadPDFPage = async (file: File): Promise<{ canvas: HTMLCanvasEleme
         pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js';
         
         const typedarray = new Uint8Array(this.result as ArrayBuffer);
-        const pdf = await pdfjsLib.getDocument(typedarray).promise;
-        const page = await pdf.getPage(1);
-        
-        const viewport = page.getViewport({ scale: 1 });
-        const canvas = document.createElement('canvas');
-        const context = canvas.getContext('2d');
-        
-        if (!context) {
-          reject(new Error('Could not get canvas context'));
-          return;
-        }
-        
-        canvas.width = viewport.width;
-        canvas.height = viewport.height;
-        
-        await page.render({
-          canvasContext: context,
-          viewport: viewport,
-          canvas: canvas
-        }).promise;
-        
-        resolve({
-          canvas,
-          width: viewport.width,
-          height: viewport.height
-        });
+        resolve(await pdfjsLib.getDocument(typedarray).promise);
       } catch (error) {
         reject(error);
       }
@@ -47,6 +30,34 @@ export const loadPDFPage = async (file: File): Promise<{ canvas: HTMLCanvasEleme
   });
 };
 
+// Page numbers are 1-based, as in pdf.js
+export const renderPDFPage = async (pdf: PDFDocumentProxy, pageNumber: number, scale = 1): Promise<RenderedPage> => {
+  const page = await pdf.getPage(pageNumber);
+  
+  const viewport = page.getViewport({ scale });
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  
+  if (!context) {
+    throw new Error('Could not get canvas context');
+  }
+  
+  canvas.width = viewport.width;
+  canvas.height = viewport.height;
+  
+  await page.render({
+    canvasContext: context,
+    viewport: viewport,
+    canvas: canvas
+  }).promise;
+  
+  return {
+    canvas,
+    width: viewport.width,
+    height: viewport.height
+  };
+};
+
 export const loadImageData = async (file: File): Promise<{ width: number; height: number }> => {
   return new Promise((resolve, reject) => {
     const img = new Image();
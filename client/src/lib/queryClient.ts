@@ -1,12 +1,28 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { collaboratorHeaders } from "./collaborator";
+import { withShareToken } from "./share-link";
 
 async function throwIfResNotOk(res: Response) {
+  // The session ran out; dropping the user shows the sign-in page
+  if (res.status === 401) {
+    queryClient.setQueryData(["/api/user"], null);
+  }
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
     throw new Error(`${res.status}: ${text}`);
   }
 }
 
+// Errors thrown above read "409: {json}"; pull out the server's message
+export function apiErrorMessage(error: unknown): string {
+  const text = error instanceof Error ? error.message : "Unknown error";
+  try {
+    return JSON.parse(text.replace(/^\d+:\s*/, "")).message ?? text;
+  } catch {
+    return text;
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -14,7 +30,10 @@ export async function apiRequest(
 ): Promise<Response> {
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: {
+      ...(data ? { "Content-Type": "application/json" } : {}),
+      ...collaboratorHeaders(),
+    },
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
@@ -29,7 +48,7 @@ export const getQueryFn: <T>(options: {
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey.join("/") as string, {
+    const res = await fetch(withShareToken(queryKey.join("/") as string), {
       credentials: "include",
     });
 
@@ -0,0 +1,11 @@
+// The token of the share link this page was opened through, if any. Every
+// API request from the fill view has to carry it when there's no session.
+export const shareToken = new URLSearchParams(window.location.search).get("share");
+
+export function withShareToken(url: string) {
+  if (!shareToken) return url;
+  return `${url}${url.includes("?") ? "&" : "?"}share=${encodeURIComponent(shareToken)}`;
+}
+
+export const shareLinkUrl = (documentId: string, token: string) =>
+  `${window.location.origin}/fill/${documentId}?share=${encodeURIComponent(token)}`;
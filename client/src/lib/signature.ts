@@ -0,0 +1,65 @@
+import { getFontStack } from "./fonts";
+
+// Every capture method renders onto a canvas of this size so the stored PNG
+// stays small enough for a JSON request
+export const SIGNATURE_WIDTH = 600;
+export const SIGNATURE_HEIGHT = 200;
+
+// Script fonts offered for typed signatures; both ship with the exporter too
+export const signatureFonts = ["Allura", "Dancing Script"] as const;
+
+export const createSignatureCanvas = (): HTMLCanvasElement => {
+  const canvas = document.createElement("canvas");
+  canvas.width = SIGNATURE_WIDTH;
+  canvas.height = SIGNATURE_HEIGHT;
+  return canvas;
+};
+
+// Renders a typed name in a script font, shrinking it until it fits
+export const renderTypedSignature = async (name: string, family: string): Promise<string> => {
+  const canvas = createSignatureCanvas();
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas not supported");
+
+  const fontStack = getFontStack(family);
+  await document.fonts.load(`96px ${fontStack}`);
+
+  let fontSize = SIGNATURE_HEIGHT * 0.6;
+  context.font = `${fontSize}px ${fontStack}`;
+  const measured = context.measureText(name).width;
+  if (measured > SIGNATURE_WIDTH * 0.9) {
+    fontSize *= (SIGNATURE_WIDTH * 0.9) / measured;
+    context.font = `${fontSize}px ${fontStack}`;
+  }
+
+  context.fillStyle = "#000000";
+  context.textAlign = "center";
+  context.textBaseline = "middle";
+  context.fillText(name, SIGNATURE_WIDTH / 2, SIGNATURE_HEIGHT / 2);
+  return canvas.toDataURL("image/png");
+};
+
+// Scales an uploaded PNG/JPEG to fit the signature canvas and re-encodes it as PNG
+export const renderImageSignature = async (file: File): Promise<string> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error("Could not read the image"));
+      img.src = url;
+    });
+
+    const canvas = createSignatureCanvas();
+    const context = canvas.getContext("2d");
+    if (!context) throw new Error("Canvas not supported");
+
+    const scale = Math.min(SIGNATURE_WIDTH / image.width, SIGNATURE_HEIGHT / image.height, 1);
+    const width = image.width * scale;
+    const height = image.height * scale;
+    context.drawImage(image, (SIGNATURE_WIDTH - width) / 2, (SIGNATURE_HEIGHT - height) / 2, width, height);
+    return canvas.toDataURL("image/png");
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
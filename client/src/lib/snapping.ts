@@ -0,0 +1,146 @@
+import { type PageLines, type TextField } from "@shared/schema";
+
+export interface FieldRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SnapSettings {
+  // Line up with the edges and centres of other fields
+  guides: boolean;
+  // Line up with rules and box edges drawn on the page
+  pageLines: boolean;
+  grid: boolean;
+  gridSize: number;
+}
+
+export const defaultSnapSettings: SnapSettings = {
+  guides: true,
+  pageLines: true,
+  grid: false,
+  gridSize: 10,
+};
+
+// Something a field edge can snap to. Lines on the page only pull in fields
+// lying alongside them; field guides reach across the whole page.
+interface SnapLine {
+  position: number;
+  start: number;
+  end: number;
+}
+
+export interface SnapTargets {
+  vertical: SnapLine[];
+  horizontal: SnapLine[];
+}
+
+// Guide lines to draw while dragging, as page x and y positions
+export interface Guides {
+  vertical: number[];
+  horizontal: number[];
+}
+
+// How close an edge has to come to a target, in screen pixels
+export const SNAP_DISTANCE = 6;
+
+export function buildSnapTargets(fields: TextField[], lines: PageLines | undefined, settings: SnapSettings): SnapTargets {
+  const targets: SnapTargets = { vertical: [], horizontal: [] };
+
+  if (settings.guides) {
+    for (const field of fields) {
+      for (const x of [field.x, field.x + field.width / 2, field.x + field.width]) {
+        targets.vertical.push({ position: x, start: -Infinity, end: Infinity });
+      }
+      for (const y of [field.y, field.y + field.height / 2, field.y + field.height]) {
+        targets.horizontal.push({ position: y, start: -Infinity, end: Infinity });
+      }
+    }
+  }
+
+  if (settings.pageLines && lines) {
+    for (const line of lines.horizontal) {
+      targets.horizontal.push({ position: line.y, start: line.x1, end: line.x2 });
+    }
+    for (const line of lines.vertical) {
+      targets.vertical.push({ position: line.x, start: line.y1, end: line.y2 });
+    }
+  }
+
+  return targets;
+}
+
+// The smallest shift that puts one of the edges on a target, or null when
+// none is within reach. `span` is the field's extent along the other axis.
+function findSnap(edges: number[], targets: SnapLine[], span: [number, number], distance: number) {
+  let best: number | null = null;
+  for (const target of targets) {
+    if (span[1] < target.start - distance || span[0] > target.end + distance) continue;
+    for (const edge of edges) {
+      const shift = target.position - edge;
+      if (Math.abs(shift) <= distance && (best === null || Math.abs(shift) < Math.abs(best))) {
+        best = shift;
+      }
+    }
+  }
+  return best;
+}
+
+// Every target the snapped edges now sit on, so all matches get a guide
+function matchedPositions(edges: number[], targets: SnapLine[], span: [number, number]) {
+  const positions = targets
+    .filter((target) => span[1] >= target.start && span[0] <= target.end)
+    .filter((target) => edges.some((edge) => Math.abs(target.position - edge) < 0.5))
+    .map((target) => target.position);
+  return Array.from(new Set(positions));
+}
+
+const toGrid = (value: number, gridSize: number | null) => (gridSize ? Math.round(value / gridSize) * gridSize : value);
+
+// Snaps a field being dragged. Edges and centres snap to targets; failing
+// that, the top-left corner snaps to the grid.
+export function snapMove(rect: FieldRect, targets: SnapTargets, distance: number, gridSize: number | null) {
+  const horizontalSpan: [number, number] = [rect.x, rect.x + rect.width];
+  const verticalSpan: [number, number] = [rect.y, rect.y + rect.height];
+  const xEdges = [rect.x, rect.x + rect.width / 2, rect.x + rect.width];
+  const yEdges = [rect.y, rect.y + rect.height / 2, rect.y + rect.height];
+
+  const shiftX = findSnap(xEdges, targets.vertical, verticalSpan, distance);
+  const shiftY = findSnap(yEdges, targets.horizontal, horizontalSpan, distance);
+  const x = shiftX !== null ? rect.x + shiftX : toGrid(rect.x, gridSize);
+  const y = shiftY !== null ? rect.y + shiftY : toGrid(rect.y, gridSize);
+
+  const guides: Guides = {
+    vertical: shiftX !== null ? matchedPositions(xEdges.map((edge) => edge + shiftX), targets.vertical, [y, y + rect.height]) : [],
+    horizontal: shiftY !== null ? matchedPositions(yEdges.map((edge) => edge + shiftY), targets.horizontal, [x, x + rect.width]) : [],
+  };
+  return { x: Math.max(0, x), y: Math.max(0, y), guides };
+}
+
+// Snaps the edges a resize handle moves: the right edge, the bottom edge or both
+export function snapResize(
+  rect: FieldRect,
+  edges: { right: boolean; bottom: boolean },
+  targets: SnapTargets,
+  distance: number,
+  gridSize: number | null
+) {
+  const guides: Guides = { vertical: [], horizontal: [] };
+  let { width, height } = rect;
+
+  if (edges.right) {
+    const right = rect.x + rect.width;
+    const shift = findSnap([right], targets.vertical, [rect.y, rect.y + rect.height], distance);
+    width = shift !== null ? rect.width + shift : toGrid(right, gridSize) - rect.x;
+    if (shift !== null) guides.vertical.push(right + shift);
+  }
+  if (edges.bottom) {
+    const bottom = rect.y + rect.height;
+    const shift = findSnap([bottom], targets.horizontal, [rect.x, rect.x + width], distance);
+    height = shift !== null ? rect.height + shift : toGrid(bottom, gridSize) - rect.y;
+    if (shift !== null) guides.horizontal.push(bottom + shift);
+  }
+
+  return { width, height, guides };
+}
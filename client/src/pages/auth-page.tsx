@@ -0,0 +1,93 @@
+import { useState, type FormEvent } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { apiErrorMessage } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+
+type Mode = "login" | "register";
+
+function CredentialsForm({ mode }: { mode: Mode }) {
+  const { loginMutation, registerMutation } = useAuth();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const mutation = mode === "login" ? loginMutation : registerMutation;
+
+  const submit = (e: FormEvent) => {
+    e.preventDefault();
+    mutation.mutate({ username, password });
+  };
+
+  return (
+    <form onSubmit={submit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor={`${mode}-username`}>Username</Label>
+        <Input
+          id={`${mode}-username`}
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          autoComplete="username"
+          autoFocus
+          required
+          data-testid={`input-${mode}-username`}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${mode}-password`}>Password</Label>
+        <Input
+          id={`${mode}-password`}
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoComplete={mode === "login" ? "current-password" : "new-password"}
+          required
+          data-testid={`input-${mode}-password`}
+        />
+        {mode === "register" && (
+          <p className="text-xs text-muted-foreground">At least 8 characters.</p>
+        )}
+      </div>
+      {mutation.isError && (
+        <p className="text-sm text-destructive" data-testid={`text-${mode}-error`}>
+          {apiErrorMessage(mutation.error)}
+        </p>
+      )}
+      <Button type="submit" className="w-full" disabled={mutation.isPending} data-testid={`button-${mode}`}>
+        {mutation.isPending && <i className="fas fa-spinner fa-spin mr-2"></i>}
+        {mode === "login" ? "Sign in" : "Create account"}
+      </Button>
+    </form>
+  );
+}
+
+export default function AuthPage() {
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-sm mx-4">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <i className="fas fa-file-pdf text-primary"></i>
+            PDF Form Creator
+          </CardTitle>
+          <CardDescription>Sign in to see your documents.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="login">
+            <TabsList className="grid w-full grid-cols-2 mb-4">
+              <TabsTrigger value="login" data-testid="tab-login">Sign in</TabsTrigger>
+              <TabsTrigger value="register" data-testid="tab-register">Create account</TabsTrigger>
+            </TabsList>
+            <TabsContent value="login">
+              <CredentialsForm mode="login" />
+            </TabsContent>
+            <TabsContent value="register">
+              <CredentialsForm mode="register" />
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
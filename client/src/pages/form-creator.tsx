@@ -1,45 +1,62 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { downloadBlob, withFileSuffix } from "@/lib/download";
 import { useToast } from "@/hooks/use-toast";
-import { type Document, type TextField } from "@shared/schema";
+import { useFieldHistory, updateCoalesceKey, updateStep, type FieldStep } from "@/hooks/use-field-history";
+import { useCollaboration } from "@/hooks/use-collaboration";
+import { type DocumentWithRole, type TextField, type FieldType, type FieldSuggestion } from "@shared/schema";
 import FileUpload from "@/components/file-upload";
 import Sidebar from "@/components/sidebar";
 import Canvas from "@/components/canvas";
-
-interface UndoAction {
-  type: 'create' | 'update' | 'delete';
-  fieldId: string;
-  data?: any;
-  previousData?: any;
-}
+import SnapSettingsMenu from "@/components/snap-settings";
+import CollaboratorsBar, { AccountMenu } from "@/components/collaborators-bar";
+import DocumentList from "@/components/document-list";
+import ShareDialog from "@/components/share-dialog";
+import { getMinFieldSize } from "@/components/text-field";
+import { type FieldChange } from "@/lib/arrange";
+import { defaultSnapSettings, type SnapSettings } from "@/lib/snapping";
 
 export default function FormCreator() {
-  const [selectedDocument, setSelectedDocument] = useState<Document | null>(null);
-  const [selectedField, setSelectedField] = useState<TextField | null>(null);
+  const [selectedDocument, setSelectedDocument] = useState<DocumentWithRole | null>(null);
+  const [selectedFieldIds, setSelectedFieldIds] = useState<string[]>([]);
   const [zoomLevel, setZoomLevel] = useState(100);
-  const [undoStack, setUndoStack] = useState<UndoAction[]>([]);
+  const [snapSettings, setSnapSettings] = useState<SnapSettings>(defaultSnapSettings);
+  const [currentPage, setCurrentPage] = useState(0);
+  const [pageCount, setPageCount] = useState(1);
+  const [suggestions, setSuggestions] = useState<FieldSuggestion[]>([]);
+  const [isShareOpen, setIsShareOpen] = useState(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const history = useFieldHistory();
+  // Documents shared as "viewer" open in the editor without the editing tools
+  const readOnly = !!selectedDocument && selectedDocument.role !== "owner" && selectedDocument.role !== "editor";
 
   const { data: textFields = [], refetch: refetchFields } = useQuery<TextField[]>({
     queryKey: ["/api/documents", selectedDocument?.id, "text-fields"],
     enabled: !!selectedDocument?.id,
   });
+  const textFieldsKey = ["/api/documents", selectedDocument?.id, "text-fields"];
+
+  // In the order they were selected; the first one sets sizes when arranging
+  const selectedFields = selectedFieldIds
+    .map(id => textFields.find(f => f.id === id))
+    .filter((field): field is TextField => !!field);
+  const selectedField = selectedFields.length === 1 ? selectedFields[0] : null;
+  const collaboration = useCollaboration(selectedDocument?.id, selectedFieldIds);
 
   const createFieldMutation = useMutation({
     mutationFn: async (fieldData: any) => {
       const response = await apiRequest("POST", "/api/text-fields", fieldData);
       return response.json();
     },
-    onSuccess: (newField) => {
-      // Add to undo stack
-      setUndoStack(prev => [...prev, { type: 'create', fieldId: newField.id }]);
+    onSuccess: (newField: TextField) => {
+      history.record({ label: "Add field", steps: [{ type: "create", field: newField }] });
       queryClient.invalidateQueries({ queryKey: ["/api/documents", selectedDocument?.id, "text-fields"] });
-      toast({ title: "Text field added successfully" });
+      toast({ title: "Field added successfully" });
     },
     onError: (error) => {
-      toast({ title: "Failed to add text field", variant: "destructive" });
+      toast({ title: "Failed to add field", variant: "destructive" });
     },
   });
 
@@ -49,14 +66,12 @@ export default function FormCreator() {
       return response.json();
     },
     onSuccess: (updatedField, variables) => {
-      // Add to undo stack if we have previous data
       if (variables.previousData) {
-        setUndoStack(prev => [...prev, { 
-          type: 'update', 
-          fieldId: updatedField.id, 
-          data: variables.updates,
-          previousData: variables.previousData
-        }]);
+        history.record({
+          label: "Edit field",
+          steps: [updateStep(variables.previousData, variables.updates)],
+          coalesceKey: updateCoalesceKey([{ id: variables.id, updates: variables.updates }]),
+        });
       }
       queryClient.invalidateQueries({ queryKey: ["/api/documents", selectedDocument?.id, "text-fields"] });
     },
@@ -68,22 +83,19 @@ export default function FormCreator() {
       return response.json();
     },
     onSuccess: (result, variables) => {
-      // Add to undo stack
-      setUndoStack(prev => [...prev, { 
-        type: 'delete', 
-        fieldId: variables.id, 
-        previousData: variables.fieldData 
-      }]);
+      history.record({ label: "Delete field", steps: [{ type: "delete", field: variables.fieldData }] });
       queryClient.invalidateQueries({ queryKey: ["/api/documents", selectedDocument?.id, "text-fields"] });
-      setSelectedField(null);
+      setSelectedFieldIds(prev => prev.filter(id => id !== variables.id));
       toast({ title: "Text field deleted" });
     },
   });
 
   const exportPDFMutation = useMutation({
-    mutationFn: async (documentId: string) => {
+    mutationFn: async ({ documentId, font, flatten }: { documentId: string; font: string; flatten: boolean }) => {
       const response = await fetch(`/api/documents/${documentId}/export`, {
         method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ font, flatten }),
         credentials: "include",
       });
       
@@ -91,15 +103,7 @@ export default function FormCreator() {
         throw new Error("Export failed");
       }
       
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `${selectedDocument?.originalName?.replace(/\.[^/.]+$/, "")}_fillable.pdf` || "document_fillable.pdf";
-      document.body.appendChild(a);
-      a.click();
-      window.URL.revokeObjectURL(url);
-      document.body.removeChild(a);
+      downloadBlob(await response.blob(), withFileSuffix(selectedDocument?.originalName, flatten ? "flattened" : "fillable"));
     },
     onSuccess: () => {
       toast({ title: "PDF exported successfully!" });
@@ -109,12 +113,81 @@ export default function FormCreator() {
     },
   });
 
-  const addTextField = () => {
+  const detectFieldsMutation = useMutation({
+    mutationFn: async (documentId: string) => {
+      const response = await apiRequest("POST", `/api/documents/${documentId}/detect-fields`);
+      return response.json() as Promise<FieldSuggestion[]>;
+    },
+    onSuccess: (detected) => {
+      setSuggestions(detected);
+      toast({
+        title: detected.length > 0
+          ? `Found ${detected.length} possible field${detected.length === 1 ? "" : "s"}`
+          : "No blank lines or boxes found",
+        description: detected.length > 0 ? "Accept or dismiss each suggestion on the page" : undefined,
+      });
+    },
+    onError: () => {
+      toast({ title: "Failed to detect fields", variant: "destructive" });
+    },
+  });
+
+  const suggestionToField = (suggestion: FieldSuggestion, fieldNumber: number) => ({
+    documentId: selectedDocument?.id,
+    name: suggestion.name ?? `Field ${fieldNumber}`,
+    type: suggestion.type,
+    pageIndex: suggestion.pageIndex,
+    x: suggestion.x,
+    y: suggestion.y,
+    width: suggestion.width,
+    height: suggestion.height,
+    required: false,
+    fontFamily: "Arial" as const,
+    ...(suggestion.type === "checkbox" ? { exportValue: "Yes" } : {}),
+  });
+
+  const acceptSuggestion = (suggestion: FieldSuggestion) => {
+    createFieldMutation.mutate(suggestionToField(suggestion, textFields.length + 1));
+    setSuggestions(prev => prev.filter(s => s.id !== suggestion.id));
+  };
+
+  const rejectSuggestion = (suggestion: FieldSuggestion) => {
+    setSuggestions(prev => prev.filter(s => s.id !== suggestion.id));
+  };
+
+  const acceptAllSuggestions = async () => {
+    if (!selectedDocument || suggestions.length === 0) return;
+
+    const pending = suggestions;
+    const created: TextField[] = [];
+    setSuggestions([]);
+    try {
+      // One at a time so field numbers follow reading order
+      for (const suggestion of pending) {
+        const response = await apiRequest("POST", "/api/text-fields", suggestionToField(suggestion, textFields.length + created.length + 1));
+        created.push(await response.json());
+      }
+      toast({ title: `Added ${created.length} field${created.length === 1 ? "" : "s"}` });
+    } catch (error) {
+      toast({ title: "Failed to add some fields", variant: "destructive" });
+    }
+    history.record({ label: "Add suggested fields", steps: created.map(field => ({ type: "create", field })) });
+    queryClient.invalidateQueries({ queryKey: ["/api/documents", selectedDocument.id, "text-fields"] });
+  };
+
+  const detectFields = () => {
+    if (!selectedDocument) return;
+    detectFieldsMutation.mutate(selectedDocument.id);
+  };
+
+  const addField = (type: FieldType) => {
     if (!selectedDocument) return;
 
     const newField = {
       documentId: selectedDocument.id,
       name: `Field ${textFields.length + 1}`,
+      type,
+      pageIndex: currentPage,
       x: 100,
       y: 100,
       width: 150,
@@ -123,7 +196,39 @@ export default function FormCreator() {
       fontFamily: "Arial" as const,
     };
 
-    createFieldMutation.mutate(newField);
+    if (type === "checkbox") {
+      createFieldMutation.mutate({ ...newField, width: 18, height: 18, exportValue: "Yes" });
+    } else if (type === "radio") {
+      // Keep adding options below the selected radio button, otherwise start a new group
+      const sibling = selectedField?.type === "radio" && selectedField.groupName ? selectedField : null;
+      const groupName = sibling?.groupName
+        ?? `Group ${new Set(textFields.filter(f => f.type === "radio").map(f => f.groupName)).size + 1}`;
+      const optionCount = textFields.filter(f => f.type === "radio" && f.groupName === groupName).length;
+      createFieldMutation.mutate({
+        ...newField,
+        x: sibling ? sibling.x : newField.x,
+        y: sibling ? sibling.y + sibling.height + 8 : newField.y,
+        width: 18,
+        height: 18,
+        groupName,
+        exportValue: `Option ${optionCount + 1}`,
+      });
+    } else if (type === "dropdown" || type === "listbox") {
+      createFieldMutation.mutate({
+        ...newField,
+        height: type === "listbox" ? 80 : newField.height,
+        options: [
+          { label: "Option 1", value: "Option 1" },
+          { label: "Option 2", value: "Option 2" },
+        ],
+        allowCustomText: false,
+        multiSelect: false,
+      });
+    } else if (type === "signature") {
+      createFieldMutation.mutate({ ...newField, width: 200, height: 50 });
+    } else {
+      createFieldMutation.mutate(newField);
+    }
   };
 
   const updateFieldPosition = (id: string, x: number, y: number) => {
@@ -148,54 +253,135 @@ export default function FormCreator() {
     }
   };
 
-  // Undo functionality
-  const undoLastAction = async () => {
-    if (undoStack.length === 0) return;
+  // Sends several field updates at once and records them as one history
+  // entry. The cache is patched first so a dragged group doesn't jump back.
+  const updateFields = async (changes: FieldChange[], label = "Edit fields") => {
+    if (!selectedDocument || changes.length === 0) return;
 
-    const lastAction = undoStack[undoStack.length - 1];
-    setUndoStack(prev => prev.slice(0, -1)); // Remove last action from stack
+    queryClient.setQueryData<TextField[]>(textFieldsKey, fields =>
+      fields?.map(field => {
+        const change = changes.find(c => c.id === field.id);
+        return change ? { ...field, ...change.updates } : field;
+      })
+    );
 
+    const steps: FieldStep[] = [];
     try {
-      if (lastAction.type === 'create') {
-        // Undo create by deleting the field
-        await apiRequest("DELETE", `/api/text-fields/${lastAction.fieldId}`);
-      } else if (lastAction.type === 'delete') {
-        // Undo delete by recreating the field
-        await apiRequest("POST", "/api/text-fields", lastAction.previousData);
-      } else if (lastAction.type === 'update') {
-        // Undo update by reverting to previous data
-        const revertData = {
-          x: lastAction.previousData.x,
-          y: lastAction.previousData.y,
-          width: lastAction.previousData.width,
-          height: lastAction.previousData.height,
-          name: lastAction.previousData.name
-        };
-        await apiRequest("PATCH", `/api/text-fields/${lastAction.fieldId}`, revertData);
-      }
+      await Promise.all(changes.map(async ({ id, updates }) => {
+        const previousData = textFields.find(f => f.id === id);
+        await apiRequest("PATCH", `/api/text-fields/${id}`, updates);
+        if (previousData) steps.push(updateStep(previousData, updates));
+      }));
+    } catch (error) {
+      toast({ title: "Failed to update some fields", variant: "destructive" });
+    }
+    history.record({ label, steps, coalesceKey: updateCoalesceKey(changes) });
+    queryClient.invalidateQueries({ queryKey: textFieldsKey });
+  };
 
-      queryClient.invalidateQueries({ queryKey: ["/api/documents", selectedDocument?.id, "text-fields"] });
-      toast({ title: "Action undone successfully" });
+  const moveFields = (ids: string[], deltaX: number, deltaY: number) => {
+    updateFields(
+      textFields
+        .filter(f => ids.includes(f.id))
+        .map(f => ({ id: f.id, updates: { x: Math.max(0, f.x + deltaX), y: Math.max(0, f.y + deltaY) } })),
+      "Move fields"
+    );
+  };
+
+  const resizeFields = (ids: string[], deltaWidth: number, deltaHeight: number) => {
+    updateFields(
+      textFields
+        .filter(f => ids.includes(f.id))
+        .map(f => {
+          const minSize = getMinFieldSize(f.type);
+          return {
+            id: f.id,
+            updates: {
+              width: Math.max(minSize.width, f.width + deltaWidth),
+              height: Math.max(minSize.height, f.height + deltaHeight),
+            },
+          };
+        }),
+      "Resize fields"
+    );
+  };
+
+  const deleteFields = async (ids: string[]) => {
+    if (!selectedDocument) return;
+
+    const steps: FieldStep[] = [];
+    try {
+      await Promise.all(textFields.filter(f => ids.includes(f.id)).map(async field => {
+        await apiRequest("DELETE", `/api/text-fields/${field.id}`);
+        steps.push({ type: "delete", field });
+      }));
+      toast({ title: `Deleted ${ids.length} fields` });
+    } catch (error) {
+      toast({ title: "Failed to delete some fields", variant: "destructive" });
+    }
+    history.record({ label: "Delete fields", steps });
+    setSelectedFieldIds([]);
+    queryClient.invalidateQueries({ queryKey: textFieldsKey });
+  };
+
+  const undoLastAction = async () => {
+    try {
+      const entry = await history.undo();
+      if (!entry) return;
+      queryClient.invalidateQueries({ queryKey: textFieldsKey });
+      toast({ title: `Undid: ${entry.label}` });
+    } catch (error) {
+      await queryClient.invalidateQueries({ queryKey: textFieldsKey });
+      toast({ title: "Failed to undo", variant: "destructive" });
+    }
+  };
+
+  const redoLastAction = async () => {
+    try {
+      const entry = await history.redo();
+      if (!entry) return;
+      queryClient.invalidateQueries({ queryKey: textFieldsKey });
+      toast({ title: `Redid: ${entry.label}` });
     } catch (error) {
-      toast({ title: "Failed to undo action", variant: "destructive" });
-      // Restore the action to the stack if it failed
-      setUndoStack(prev => [...prev, lastAction]);
+      await queryClient.invalidateQueries({ queryKey: textFieldsKey });
+      toast({ title: "Failed to redo", variant: "destructive" });
     }
   };
 
+  // Ctrl+Z undoes, Ctrl+Shift+Z or Ctrl+Y redoes (Cmd on macOS). Text inputs
+  // keep their own undo.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))) return;
+
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        undoLastAction();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        redoLastAction();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
   // Restart functionality
   const restartForm = async () => {
     if (!selectedDocument || textFields.length === 0) return;
 
     try {
-      // Delete all text fields
+      // Delete all text fields; undo brings them all back
       await Promise.all(textFields.map(field => 
         apiRequest("DELETE", `/api/text-fields/${field.id}`)
       ));
 
-      // Clear undo stack and selected field
-      setUndoStack([]);
-      setSelectedField(null);
+      history.record({ label: "Restart form", steps: textFields.map(field => ({ type: "delete", field })) });
+      setSelectedFieldIds([]);
       
       queryClient.invalidateQueries({ queryKey: ["/api/documents", selectedDocument.id, "text-fields"] });
       toast({ title: "Form restarted - all fields cleared" });
@@ -204,9 +390,47 @@ export default function FormCreator() {
     }
   };
 
-  const exportPDF = () => {
+  const exportPDF = (font: string, flatten: boolean) => {
     if (!selectedDocument) return;
-    exportPDFMutation.mutate(selectedDocument.id);
+    exportPDFMutation.mutate({ documentId: selectedDocument.id, font, flatten });
+  };
+
+  // Undo steps recorded before a restore no longer match the fields, so the
+  // history starts over; fields that survived stay selected
+  const handleRevisionRestored = (fields: TextField[]) => {
+    history.clear();
+    setSelectedFieldIds(prev => prev.filter(id => fields.some(field => field.id === id)));
+  };
+
+  const openDocument = (document: DocumentWithRole) => {
+    setSelectedDocument(document);
+    setSelectedFieldIds([]);
+    history.clear();
+    setSuggestions([]);
+    setCurrentPage(0);
+    setPageCount(1);
+  };
+
+  // Selecting a field from the list jumps to the page it lives on; an
+  // additive (shift) click toggles it within the current selection instead
+  const selectField = (field: TextField | null, additive = false) => {
+    if (!field) {
+      setSelectedFieldIds([]);
+    } else if (additive) {
+      setSelectedFieldIds(prev => prev.includes(field.id) ? prev.filter(id => id !== field.id) : [...prev, field.id]);
+    } else {
+      setSelectedFieldIds([field.id]);
+      if (field.pageIndex !== currentPage) {
+        setCurrentPage(field.pageIndex);
+      }
+    }
+  };
+
+  const goToPage = (pageIndex: number) => {
+    const nextPage = Math.max(0, Math.min(pageIndex, pageCount - 1));
+    if (nextPage === currentPage) return;
+    setCurrentPage(nextPage);
+    setSelectedFieldIds([]);
   };
 
   const zoomIn = () => setZoomLevel(Math.min(zoomLevel + 25, 200));
@@ -219,22 +443,42 @@ export default function FormCreator() {
         selectedDocument={selectedDocument}
         textFields={textFields}
         selectedField={selectedField}
-        onAddTextField={addTextField}
-        onSelectField={setSelectedField}
+        selectedFields={selectedFields}
+        onAddField={addField}
+        onSelectField={selectField}
         onUpdateField={updateFieldProperties}
+        onUpdateFields={updateFields}
         onDeleteField={deleteField}
+        onDeleteFields={deleteFields}
         onExportPDF={exportPDF}
         onUndo={undoLastAction}
+        onRedo={redoLastAction}
         onRestart={restartForm}
-        canUndo={undoStack.length > 0}
+        onRevisionRestored={handleRevisionRestored}
+        canUndo={history.canUndo}
+        canRedo={history.canRedo}
+        undoLabel={history.undoLabel}
+        redoLabel={history.redoLabel}
         isExporting={exportPDFMutation.isPending}
+        onDetectFields={detectFields}
+        isDetecting={detectFieldsMutation.isPending}
+        suggestionCount={suggestions.length}
+        onAcceptAllSuggestions={acceptAllSuggestions}
+        onDismissSuggestions={() => setSuggestions([])}
+        readOnly={readOnly}
       />
       
       <div className="flex-1 flex flex-col">
         {!selectedDocument ? (
-          <div className="flex-1 flex items-center justify-center p-8">
-            <div className="max-w-md w-full">
-              <FileUpload onDocumentUploaded={setSelectedDocument} />
+          <div className="flex-1 flex flex-col">
+            <div className="flex justify-end px-6 py-4">
+              <AccountMenu />
+            </div>
+            <div className="flex-1 flex items-center justify-center p-8">
+              <div className="max-w-md w-full">
+                <FileUpload onDocumentUploaded={openDocument} />
+                <DocumentList onOpenDocument={openDocument} />
+              </div>
             </div>
           </div>
         ) : (
@@ -244,11 +488,66 @@ export default function FormCreator() {
                 <h2 className="text-lg font-semibold" data-testid="document-name">
                   {selectedDocument.originalName}
                 </h2>
-                <div className="text-sm text-muted-foreground">
-                  Page 1 of 1 • {Math.round((selectedDocument.width || 612) / 72 * 10) / 10}" × {Math.round((selectedDocument.height || 792) / 72 * 10) / 10}"
+                <div className="flex items-center gap-1 text-sm text-muted-foreground">
+                  <button
+                    className="p-1 hover:bg-muted rounded disabled:opacity-40"
+                    onClick={() => goToPage(currentPage - 1)}
+                    disabled={currentPage === 0}
+                    data-testid="button-prev-page"
+                  >
+                    <i className="fas fa-chevron-left"></i>
+                  </button>
+                  <span data-testid="text-page-indicator">
+                    Page {currentPage + 1} of {pageCount}
+                  </span>
+                  <button
+                    className="p-1 hover:bg-muted rounded disabled:opacity-40"
+                    onClick={() => goToPage(currentPage + 1)}
+                    disabled={currentPage >= pageCount - 1}
+                    data-testid="button-next-page"
+                  >
+                    <i className="fas fa-chevron-right"></i>
+                  </button>
+                  <span className="ml-1">
+                    • {Math.round((selectedDocument.width || 612) / 72 * 10) / 10}" × {Math.round((selectedDocument.height || 792) / 72 * 10) / 10}"
+                  </span>
                 </div>
               </div>
               <div className="flex items-center gap-2">
+                <CollaboratorsBar
+                  collaborators={collaboration.collaborators}
+                  color={collaboration.self?.color}
+                />
+                {readOnly && (
+                  <span className="px-2 py-1 rounded bg-muted text-xs text-muted-foreground" data-testid="text-view-only">
+                    <i className="fas fa-eye mr-1"></i>
+                    View only
+                  </span>
+                )}
+                {selectedDocument.role === "owner" && (
+                  <>
+                    <button
+                      className="px-3 py-2 hover:bg-muted rounded text-sm flex items-center gap-2"
+                      onClick={() => setIsShareOpen(true)}
+                      data-testid="button-share-document"
+                    >
+                      <i className="fas fa-user-plus"></i>
+                      Share
+                    </button>
+                    <ShareDialog open={isShareOpen} onOpenChange={setIsShareOpen} document={selectedDocument} />
+                  </>
+                )}
+                {/* Opens in a new tab so the editor keeps its place */}
+                <a
+                  href={`/fill/${selectedDocument.id}`}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="px-3 py-2 hover:bg-muted rounded text-sm flex items-center gap-2"
+                  data-testid="link-fill-document"
+                >
+                  <i className="fas fa-pen"></i>
+                  Fill Out
+                </a>
                 <div className="flex items-center gap-1 bg-muted rounded-lg p-1">
                   <button 
                     className="p-2 hover:bg-background rounded text-sm"
@@ -268,6 +567,7 @@ export default function FormCreator() {
                     <i className="fas fa-plus"></i>
                   </button>
                 </div>
+                <SnapSettingsMenu settings={snapSettings} onChange={setSnapSettings} />
                 <button 
                   className="p-2 hover:bg-muted rounded text-sm"
                   onClick={fitToScreen}
@@ -281,11 +581,24 @@ export default function FormCreator() {
             <Canvas
               document={selectedDocument}
               textFields={textFields}
-              selectedField={selectedField}
+              selectedFieldIds={selectedFieldIds}
               zoomLevel={zoomLevel}
-              onSelectField={setSelectedField}
+              snapSettings={snapSettings}
+              currentPage={currentPage}
+              onPageChange={goToPage}
+              onPageCountChange={setPageCount}
+              onSelectField={selectField}
+              onSelectFields={setSelectedFieldIds}
               onUpdateFieldPosition={updateFieldPosition}
               onUpdateFieldSize={updateFieldSize}
+              onMoveFields={moveFields}
+              onResizeFields={resizeFields}
+              suggestions={suggestions}
+              onAcceptSuggestion={acceptSuggestion}
+              onRejectSuggestion={rejectSuggestion}
+              collaborators={collaboration.collaborators}
+              onCursorMove={collaboration.sendCursor}
+              readOnly={readOnly}
             />
           </>
         )}
@@ -0,0 +1,249 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useRoute } from "wouter";
+import { useToast } from "@/hooks/use-toast";
+import { usePageImages } from "@/hooks/use-page-images";
+import { useCustomFonts } from "@/hooks/use-custom-fonts";
+import { downloadBlob, withFileSuffix } from "@/lib/download";
+import { withShareToken } from "@/lib/share-link";
+import { type DocumentSummary, type FieldValue, type FieldValues, type TextField } from "@shared/schema";
+import { findMissingRequiredFields, getInitialFieldValues, radioGroupKey } from "@shared/field-values";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import FillField from "@/components/fill-field";
+import SignatureDialog from "@/components/signature-dialog";
+
+function FillPages({ document, textFields, values, missingIds, zoomLevel, onChange, onSign }: {
+  document: DocumentSummary;
+  textFields: TextField[];
+  values: FieldValues;
+  missingIds: Set<string>;
+  zoomLevel: number;
+  onChange: (field: TextField, value: FieldValue) => void;
+  onSign: (field: TextField) => void;
+}) {
+  const { pageImages, isLoading } = usePageImages(document);
+  const scale = zoomLevel / 100;
+
+  if (isLoading && pageImages.length === 0) {
+    return (
+      <div className="flex flex-col items-center py-16">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mb-2"></div>
+        <p className="text-sm text-gray-600">Loading PDF...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {pageImages.map((page, pageIndex) => (
+        <div
+          key={pageIndex}
+          className="bg-white rounded-lg shadow-lg relative overflow-hidden mx-auto"
+          style={{
+            width: page.width * scale,
+            height: page.height * scale,
+            backgroundImage: `url(${page.url})`,
+            backgroundSize: "contain",
+            backgroundRepeat: "no-repeat",
+          }}
+          data-testid={`fill-page-${pageIndex}`}
+        >
+          {textFields
+            .filter((field) => field.pageIndex === pageIndex)
+            .map((field) => (
+              <FillField
+                key={field.id}
+                field={field}
+                value={values[field.id]}
+                scale={scale}
+                invalid={missingIds.has(field.id)}
+                onChange={(value) => onChange(field, value)}
+                onSign={() => onSign(field)}
+              />
+            ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function FormFiller() {
+  const [, params] = useRoute("/fill/:id");
+  const documentId = params?.id;
+  const [values, setValues] = useState<FieldValues>({});
+  const [missingIds, setMissingIds] = useState<Set<string>>(new Set());
+  const [flatten, setFlatten] = useState(false);
+  const [zoomLevel, setZoomLevel] = useState(100);
+  const [signingField, setSigningField] = useState<TextField | null>(null);
+  const { toast } = useToast();
+  useCustomFonts();
+
+  const { data: document, error } = useQuery<DocumentSummary>({
+    queryKey: ["/api/documents", documentId],
+    enabled: !!documentId,
+  });
+
+  const { data: textFields = [] } = useQuery<TextField[]>({
+    queryKey: ["/api/documents", documentId, "text-fields"],
+    enabled: !!documentId,
+  });
+
+  useEffect(() => {
+    setValues(getInitialFieldValues(textFields));
+  }, [textFields]);
+
+  const fillMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(withShareToken(`/api/documents/${documentId}/fill`), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ values, flatten }),
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || "Fill failed");
+      }
+
+      downloadBlob(await response.blob(), withFileSuffix(document?.originalName, "filled"));
+    },
+    onSuccess: () => {
+      toast({ title: "Filled PDF downloaded" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to fill PDF",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleChange = (field: TextField, value: FieldValue) => {
+    setValues((prev) => {
+      const next = { ...prev, [field.id]: value };
+      // Selecting a radio button clears the rest of its group
+      if (field.type === "radio" && value === true) {
+        textFields
+          .filter((other) => other.type === "radio" && other.id !== field.id && radioGroupKey(other) === radioGroupKey(field))
+          .forEach((other) => {
+            next[other.id] = false;
+          });
+      }
+      return next;
+    });
+    setMissingIds((prev) => {
+      if (!prev.has(field.id)) return prev;
+      const next = new Set(prev);
+      next.delete(field.id);
+      return next;
+    });
+  };
+
+  const handleSubmit = () => {
+    const missing = findMissingRequiredFields(textFields, values);
+    setMissingIds(new Set(missing.map((field) => field.id)));
+
+    if (missing.length > 0) {
+      toast({
+        title: `${missing.length} required field${missing.length === 1 ? " is" : "s are"} empty`,
+        description: missing.map((field) => field.name).join(", "),
+        variant: "destructive",
+      });
+      window.document.getElementById(`fill-field-${missing[0].id}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+      return;
+    }
+
+    fillMutation.mutate();
+  };
+
+  if (error) {
+    // 410 is an expired or revoked share link
+    const linkGone = error.message.startsWith("410");
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <p className="text-muted-foreground" data-testid="text-fill-not-found">
+          {linkGone ? "This link has expired or been revoked." : "This document could not be found."}
+        </p>
+      </div>
+    );
+  }
+
+  const requiredCount = textFields.filter((field) => field.required).length;
+
+  return (
+    <div className="flex flex-col h-screen bg-background">
+      <div className="bg-card border-b border-border px-6 py-4 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold" data-testid="document-name">
+            {document?.originalName ?? "Loading..."}
+          </h2>
+          {requiredCount > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Fields outlined in red must be filled in before downloading
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-4">
+          <div className="flex items-center gap-1 bg-muted rounded-lg p-1">
+            <button
+              className="p-2 hover:bg-background rounded text-sm"
+              onClick={() => setZoomLevel(Math.max(zoomLevel - 25, 25))}
+              data-testid="button-zoom-out"
+            >
+              <i className="fas fa-minus"></i>
+            </button>
+            <span className="px-3 py-2 text-sm font-medium" data-testid="text-zoom-level">
+              {zoomLevel}%
+            </span>
+            <button
+              className="p-2 hover:bg-background rounded text-sm"
+              onClick={() => setZoomLevel(Math.min(zoomLevel + 25, 200))}
+              data-testid="button-zoom-in"
+            >
+              <i className="fas fa-plus"></i>
+            </button>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="fill-flatten" checked={flatten} onCheckedChange={setFlatten} data-testid="switch-fill-flatten" />
+            <Label htmlFor="fill-flatten" className="text-sm">
+              Flatten
+            </Label>
+          </div>
+          <Button
+            onClick={handleSubmit}
+            disabled={!document || fillMutation.isPending}
+            className="bg-green-600 hover:bg-green-700 text-white flex items-center gap-2"
+            data-testid="button-download-filled"
+          >
+            <i className="fas fa-download"></i>
+            {fillMutation.isPending ? "Generating..." : "Download Filled PDF"}
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto p-8 canvas-area">
+        {document && (
+          <FillPages
+            document={document}
+            textFields={textFields}
+            values={values}
+            missingIds={missingIds}
+            zoomLevel={zoomLevel}
+            onChange={handleChange}
+            onSign={setSigningField}
+          />
+        )}
+      </div>
+
+      <SignatureDialog
+        open={!!signingField}
+        onOpenChange={(open) => !open && setSigningField(null)}
+        onSave={(dataUrl) => signingField && handleChange(signingField, dataUrl)}
+      />
+    </div>
+  );
+}
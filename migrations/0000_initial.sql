@@ -0,0 +1,31 @@
+CREATE TABLE "documents" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"filename" text NOT NULL,
+	"original_name" text NOT NULL,
+	"mime_type" text NOT NULL,
+	"size" integer NOT NULL,
+	"width" real,
+	"height" real
+);
+--> statement-breakpoint
+CREATE TABLE "text_fields" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"document_id" varchar NOT NULL,
+	"name" text NOT NULL,
+	"type" text DEFAULT 'text' NOT NULL,
+	"page_index" integer DEFAULT 0 NOT NULL,
+	"x" real NOT NULL,
+	"y" real NOT NULL,
+	"width" real NOT NULL,
+	"height" real NOT NULL,
+	"required" boolean DEFAULT false,
+	"font_family" text DEFAULT 'Arial',
+	"font_size" real,
+	"export_value" text,
+	"group_name" text,
+	"options" jsonb,
+	"allow_custom_text" boolean DEFAULT false,
+	"multi_select" boolean DEFAULT false
+);
+--> statement-breakpoint
+ALTER TABLE "text_fields" ADD CONSTRAINT "text_fields_document_id_documents_id_fk" FOREIGN KEY ("document_id") REFERENCES "public"."documents"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
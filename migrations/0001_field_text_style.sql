@@ -0,0 +1,3 @@
+ALTER TABLE "text_fields" ADD COLUMN "text_color" text DEFAULT '#000000';--> statement-breakpoint
+ALTER TABLE "text_fields" ADD COLUMN "text_align" text DEFAULT 'left';--> statement-breakpoint
+ALTER TABLE "text_fields" ADD COLUMN "padding" real DEFAULT 2;
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE TABLE "fonts" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"family" text NOT NULL,
+	"filename" text NOT NULL,
+	"original_name" text NOT NULL,
+	"format" text NOT NULL,
+	"size" integer NOT NULL,
+	CONSTRAINT "fonts_family_unique" UNIQUE("family")
+);
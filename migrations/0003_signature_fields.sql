@@ -0,0 +1 @@
+ALTER TABLE "text_fields" ADD COLUMN "signature_image" text;
\ No newline at end of file
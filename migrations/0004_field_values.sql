@@ -0,0 +1 @@
+ALTER TABLE "text_fields" ADD COLUMN "value" jsonb;
\ No newline at end of file
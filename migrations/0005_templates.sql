@@ -0,0 +1,8 @@
+CREATE TABLE "templates" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"page_width" real,
+	"page_height" real,
+	"fields" jsonb NOT NULL,
+	CONSTRAINT "templates_name_unique" UNIQUE("name")
+);
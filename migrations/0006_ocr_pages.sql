@@ -0,0 +1,9 @@
+CREATE TABLE "ocr_pages" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"document_id" varchar NOT NULL,
+	"page_index" integer DEFAULT 0 NOT NULL,
+	"text" text NOT NULL,
+	"words" jsonb NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "ocr_pages" ADD CONSTRAINT "ocr_pages_document_id_documents_id_fk" FOREIGN KEY ("document_id") REFERENCES "public"."documents"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "field_revisions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"document_id" varchar NOT NULL,
+	"number" integer NOT NULL,
+	"author" text,
+	"summary" text NOT NULL,
+	"changes" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "field_revisions" ADD CONSTRAINT "field_revisions_document_id_documents_id_fk" FOREIGN KEY ("document_id") REFERENCES "public"."documents"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
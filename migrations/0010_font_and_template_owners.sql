@@ -0,0 +1,8 @@
+ALTER TABLE "fonts" DROP CONSTRAINT "fonts_family_unique";--> statement-breakpoint
+ALTER TABLE "templates" DROP CONSTRAINT "templates_name_unique";--> statement-breakpoint
+ALTER TABLE "fonts" ADD COLUMN "owner_id" varchar;--> statement-breakpoint
+ALTER TABLE "templates" ADD COLUMN "owner_id" varchar;--> statement-breakpoint
+ALTER TABLE "fonts" ADD CONSTRAINT "fonts_owner_id_users_id_fk" FOREIGN KEY ("owner_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "templates" ADD CONSTRAINT "templates_owner_id_users_id_fk" FOREIGN KEY ("owner_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "fonts" ADD CONSTRAINT "fonts_owner_id_family_unique" UNIQUE("owner_id","family");--> statement-breakpoint
+ALTER TABLE "templates" ADD CONSTRAINT "templates_owner_id_name_unique" UNIQUE("owner_id","name");
\ No newline at end of file
@@ -0,0 +1,137 @@
+import {
+  PDFCheckBox,
+  PDFDocument,
+  PDFDropdown,
+  PDFOptionList,
+  PDFRadioGroup,
+  PDFSignature,
+  PDFTextField,
+  type PDFField,
+  type PDFWidgetAnnotation,
+} from "pdf-lib";
+import { type FieldOption, type FieldType, type InsertTextField } from "@shared/schema";
+import { displayedRect } from "./pdf-export";
+
+export type ImportedField = Omit<InsertTextField, "documentId">;
+
+// Finds the page a widget is drawn on, falling back to scanning page
+// annotations for widgets that omit their /P entry
+function findPageIndex(pdfDoc: PDFDocument, widget: PDFWidgetAnnotation): number {
+  const pages = pdfDoc.getPages();
+  const pageRef = widget.P();
+  if (pageRef) {
+    const index = pages.findIndex((page) => page.ref === pageRef);
+    if (index !== -1) return index;
+  }
+
+  const index = pages.findIndex((page) =>
+    (page.node.Annots()?.asArray() ?? []).some(
+      (annot) => pdfDoc.context.lookup(annot) === widget.dict
+    )
+  );
+  return Math.max(index, 0);
+}
+
+// "/Helv 12 Tf 0 g" -> 12; a size of 0 means auto-size
+function parseFontSize(defaultAppearance: string | undefined): number | null {
+  const match = defaultAppearance?.match(/(\d*\.?\d+)\s+Tf/);
+  const size = match ? parseFloat(match[1]) : 0;
+  return size > 0 ? size : null;
+}
+
+function getChoiceOptions(field: PDFDropdown | PDFOptionList): FieldOption[] {
+  const selected = field.getSelected();
+  return field.acroField.getOptions().map(({ value, display }) => {
+    const option = {
+      label: (display ?? value).decodeText(),
+      value: value.decodeText(),
+    };
+    const isSelected = selected.includes(option.value) || selected.includes(option.label);
+    return isSelected ? { ...option, selected: true } : option;
+  });
+}
+
+type FieldDescription = Partial<ImportedField> & { type: FieldType };
+
+function describeField(field: PDFField, widgetIndex: number): FieldDescription | null {
+  if (field instanceof PDFTextField) {
+    return { type: "text" };
+  }
+  if (field instanceof PDFCheckBox) {
+    const onValue = field.acroField.getWidgets()[widgetIndex].getOnValue();
+    return { type: "checkbox", exportValue: onValue?.decodeText() ?? "Yes" };
+  }
+  if (field instanceof PDFRadioGroup) {
+    const onValue = field.acroField.getWidgets()[widgetIndex].getOnValue();
+    return {
+      type: "radio",
+      groupName: field.getName(),
+      exportValue: field.getOptions()[widgetIndex] ?? onValue?.decodeText() ?? `Option ${widgetIndex + 1}`,
+    };
+  }
+  if (field instanceof PDFDropdown) {
+    return {
+      type: "dropdown",
+      options: getChoiceOptions(field),
+      allowCustomText: field.isEditable(),
+    };
+  }
+  if (field instanceof PDFOptionList) {
+    return {
+      type: "listbox",
+      options: getChoiceOptions(field),
+      multiSelect: field.isMultiselect(),
+    };
+  }
+  if (field instanceof PDFSignature) {
+    return { type: "signature" };
+  }
+  // Push buttons have no editor equivalent yet
+  return null;
+}
+
+// Converts every widget of the document's existing AcroForm into a field row
+// and removes the converted fields, so exports don't duplicate them
+export function extractFormFields(pdfDoc: PDFDocument): ImportedField[] {
+  const form = pdfDoc.getForm();
+  const pages = pdfDoc.getPages();
+  const imported: ImportedField[] = [];
+  const converted: PDFField[] = [];
+
+  for (const field of form.getFields()) {
+    const widgets = field.acroField.getWidgets();
+    const fieldFontSize = parseFontSize(field.acroField.getDefaultAppearance());
+
+    widgets.forEach((widget, widgetIndex) => {
+      const description = describeField(field, widgetIndex);
+      if (!description) return;
+
+      // Widget rects are on the unrotated page and take in the border, which
+      // export adds back around the field
+      const pageIndex = findPageIndex(pdfDoc, widget);
+      const { x, y, width, height } = widget.getRectangle();
+      const inset = (widget.getBorderStyle()?.getWidth() ?? 0) / 2;
+      const rect = displayedRect(pages[pageIndex], {
+        x: x + inset,
+        y: y + inset,
+        width: Math.max(width - inset * 2, 1),
+        height: Math.max(height - inset * 2, 1),
+      });
+      imported.push({
+        ...description,
+        name: field.getName(),
+        pageIndex,
+        ...rect,
+        required: field.isRequired(),
+        fontSize: parseFontSize(widget.getDefaultAppearance()) ?? fieldFontSize,
+      });
+    });
+
+    if (widgets.length > 0 && describeField(field, 0)) {
+      converted.push(field);
+    }
+  }
+
+  converted.forEach((field) => form.removeField(field));
+  return imported;
+}
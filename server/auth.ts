@@ -0,0 +1,133 @@
+import type { IncomingMessage } from "http";
+import type { Express, NextFunction, Request, Response } from "express";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+import type { PublicUser, User as StoredUser } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends StoredUser {}
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    passport?: { user?: string };
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hash, salt] = stored.split(".");
+  const expected = Buffer.from(hash, "hex");
+  const actual = (await scryptAsync(password, salt, 64)) as Buffer;
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+export function publicUser({ password, ...user }: StoredUser): PublicUser {
+  return user;
+}
+
+// Sessions live next to the data: in Postgres when there is a database,
+// otherwise in memory
+function createSessionStore() {
+  if (process.env.DATABASE_URL) {
+    const PgStore = connectPgSimple(session);
+    return new PgStore({ conString: process.env.DATABASE_URL, createTableIfMissing: true });
+  }
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+}
+
+function sessionSecret() {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  // Development sessions just don't survive a restart
+  return randomBytes(32).toString("hex");
+}
+
+const sessionMiddleware = session({
+  secret: sessionSecret(),
+  store: createSessionStore(),
+  resave: false,
+  saveUninitialized: false,
+  cookie: {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    maxAge: SESSION_MAX_AGE_MS,
+  },
+});
+
+passport.use(
+  new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getUserByUsername(username.trim().toLowerCase());
+      if (!user || !(await verifyPassword(password, user.password))) {
+        return done(null, false);
+      }
+      return done(null, user);
+    } catch (err) {
+      return done(err);
+    }
+  })
+);
+
+passport.serializeUser((user, done) => done(null, user.id));
+passport.deserializeUser(async (id: string, done) => {
+  try {
+    done(null, (await storage.getUser(id)) ?? false);
+  } catch (err) {
+    done(err);
+  }
+});
+
+export function setupAuth(app: Express) {
+  if (process.env.NODE_ENV === "production") {
+    // Secure cookies need to see the proxy's HTTPS
+    app.set("trust proxy", 1);
+  }
+  app.use(sessionMiddleware);
+  app.use(passport.initialize());
+  app.use(passport.session());
+}
+
+// A share link will do instead of a session, on the routes it opens
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated() && !req.shareLink) {
+    return res.status(401).json({ message: "Sign in to continue" });
+  }
+  next();
+}
+
+// The signed-in user behind a WebSocket upgrade, read from the same session
+// cookie the REST API uses
+export function sessionUser(req: IncomingMessage): Promise<StoredUser | undefined> {
+  return new Promise((resolve, reject) => {
+    const request = req as Request;
+    sessionMiddleware(request, {} as Response, async () => {
+      try {
+        const userId = request.session?.passport?.user;
+        resolve(userId ? await storage.getUser(userId) : undefined);
+      } catch (err) {
+        reject(err);
+      }
+    });
+  });
+}
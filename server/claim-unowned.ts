@@ -0,0 +1,29 @@
+import { storage } from "./storage";
+
+// Hands the documents, fonts and templates uploaded before accounts existed to
+// one account. Run it once after upgrading, after that account has signed up:
+//   npm run claim-unowned -- <username>
+(async () => {
+  const username = process.argv[2];
+  if (!username) {
+    console.error("Usage: npm run claim-unowned -- <username>");
+    process.exit(1);
+  }
+  if (!process.env.DATABASE_URL) {
+    console.error("DATABASE_URL isn't set, so there is no stored data to claim");
+    process.exit(1);
+  }
+
+  const user = await storage.getUserByUsername(username);
+  if (!user) {
+    console.error(`No account named ${username}; sign up first, then run this again`);
+    process.exit(1);
+  }
+
+  await storage.claimUnowned(user.id);
+  console.log(`${username} now owns everything uploaded before accounts existed`);
+  process.exit(0);
+})().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
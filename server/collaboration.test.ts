@@ -0,0 +1,135 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { WebSocket } from "ws";
+import { startTestServer, registerUser } from "./test-server";
+import { storage } from "./storage";
+import {
+  CLOSE_NOT_FOUND,
+  CLOSE_UNAUTHORIZED,
+  COLLABORATION_PATH,
+  type ServerMessage,
+} from "@shared/collaboration";
+import type { TextField } from "@shared/schema";
+
+let server: Awaited<ReturnType<typeof startTestServer>>;
+let baseUrl: string;
+let cookie: string;
+
+before(async () => {
+  server = await startTestServer();
+  baseUrl = server.baseUrl;
+  cookie = await registerUser(baseUrl, "collaborator");
+});
+
+after(() => server.close());
+
+async function createField(): Promise<TextField> {
+  const user = await storage.getUserByUsername("collaborator");
+  const document = await storage.createDocument({
+    ownerId: user!.id,
+    filename: "uploads/missing.pdf",
+    originalName: "form.pdf",
+    mimeType: "application/pdf",
+    size: 0,
+  });
+  return storage.createTextField({ documentId: document.id, name: "name", x: 0, y: 0, width: 100, height: 20 });
+}
+
+// A socket joined to the document, collecting the field messages it's sent
+async function joinDocument(documentId: string, asCookie = cookie) {
+  const socket = new WebSocket(baseUrl.replace("http", "ws") + COLLABORATION_PATH, { headers: { cookie: asCookie } });
+  const messages: ServerMessage[] = [];
+  await new Promise<void>((resolve, reject) => {
+    socket.on("error", reject);
+    socket.on("message", (data) => {
+      const message = JSON.parse(data.toString()) as ServerMessage;
+      messages.push(message);
+      if (message.type === "welcome") resolve();
+    });
+    socket.on("open", () => socket.send(JSON.stringify({ type: "join", documentId, clientId: "watcher" })));
+  });
+  return { socket, messages };
+}
+
+// The code the server closes a socket with after it asks to join
+function closeCode(documentId: string, headers: Record<string, string>) {
+  const socket = new WebSocket(baseUrl.replace("http", "ws") + COLLABORATION_PATH, { headers });
+  socket.on("open", () => socket.send(JSON.stringify({ type: "join", documentId, clientId: "refused" })));
+  return new Promise<number>((resolve) => socket.on("close", resolve));
+}
+
+const patchField = (id: string, updates: Partial<TextField>) =>
+  fetch(`${baseUrl}/api/text-fields/${id}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json", cookie },
+    body: JSON.stringify(updates),
+  });
+
+test("numbers interleaved updates in the order they were saved", async () => {
+  const field = await createField();
+  const { socket, messages } = await joinDocument(field.documentId);
+
+  // Hold up logging the first update until the second one has been saved,
+  // so the two requests finish out of order
+  const getFieldRevisions = storage.getFieldRevisions.bind(storage);
+  let releaseFirst!: () => void;
+  const firstHeld = new Promise<void>((resolve) => (releaseFirst = resolve));
+  let calls = 0;
+  storage.getFieldRevisions = async (documentId) => {
+    if (++calls === 1) await firstHeld;
+    return getFieldRevisions(documentId);
+  };
+
+  try {
+    const first = patchField(field.id, { x: 10 });
+    while (calls === 0) await new Promise((resolve) => setTimeout(resolve, 5));
+    const second = patchField(field.id, { x: 20 });
+    while ((await storage.getTextField(field.id))?.x !== 20) await new Promise((resolve) => setTimeout(resolve, 5));
+    releaseFirst();
+    await Promise.all([first, second]);
+  } finally {
+    storage.getFieldRevisions = getFieldRevisions;
+    socket.close();
+  }
+
+  const updates = messages
+    .filter((message) => message.type === "fields")
+    .sort((a, b) => a.seq - b.seq)
+    .map((message) => message.changes[0].after?.x);
+  assert.deepEqual(updates, [10, 20]);
+  assert.equal((await storage.getTextField(field.id))?.x, 20);
+
+  // Both edits land in one revision, which has to end where the field did
+  const revisions = await storage.getFieldRevisions(field.documentId);
+  assert.equal(revisions[revisions.length - 1].changes[0].after?.x, 20);
+});
+
+test("refuses sockets without a session with a code not worth retrying", async () => {
+  const field = await createField();
+  assert.equal(await closeCode(field.documentId, {}), CLOSE_UNAUTHORIZED);
+});
+
+test("refuses to join documents the user can't view", async () => {
+  const field = await createField();
+  const stranger = await registerUser(baseUrl, "stranger");
+  assert.equal(await closeCode(field.documentId, { cookie: stranger }), CLOSE_NOT_FOUND);
+});
+
+test("disconnects people once the document is unshared with them", async () => {
+  const field = await createField();
+  const viewerCookie = await registerUser(baseUrl, "unshared");
+  const viewer = await storage.getUserByUsername("unshared");
+  await storage.saveDocumentShare({ documentId: field.documentId, userId: viewer!.id, role: "viewer" });
+  const { socket, messages } = await joinDocument(field.documentId, viewerCookie);
+  const closed = new Promise<number>((resolve) => socket.on("close", resolve));
+
+  const response = await fetch(`${baseUrl}/api/documents/${field.documentId}/shares/${viewer!.id}`, {
+    method: "DELETE",
+    headers: { cookie },
+  });
+  assert.equal(response.status, 200);
+  assert.equal(await closed, CLOSE_NOT_FOUND);
+
+  await patchField(field.id, { x: 30 });
+  assert.equal(messages.filter((message) => message.type === "fields").length, 0);
+});
@@ -0,0 +1,208 @@
+import type { Server } from "http";
+import type { Request } from "express";
+import { WebSocketServer, WebSocket, type RawData } from "ws";
+import { storage } from "./storage";
+import { sessionUser } from "./auth";
+import { documentRole, hasRole } from "./sharing";
+import {
+  CLOSE_INVALID_MESSAGE,
+  CLOSE_NOT_FOUND,
+  CLOSE_UNAUTHORIZED,
+  COLLABORATION_PATH,
+  clientMessageSchema,
+  type ClientMessage,
+  type Collaborator,
+  type ServerMessage,
+} from "@shared/collaboration";
+import type { FieldRevisionChange, User } from "@shared/schema";
+
+// Edits themselves still go through the REST routes, which apply them one at
+// a time. That order is the tie-breaker for concurrent edits: updates only
+// carry the properties they change, so edits to different properties of a
+// field both survive, and for the same property the one the server applied
+// last wins. Every client replays the changes in `seq` order and so ends up
+// with the same fields as the server.
+
+interface Peer {
+  socket: WebSocket;
+  documentId: string;
+  userId: string;
+  collaborator: Collaborator;
+  isAlive: boolean;
+}
+
+const PEER_COLORS = ["#e11d48", "#2563eb", "#16a34a", "#d97706", "#9333ea", "#0891b2", "#db2777", "#65a30d"];
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+const rooms = new Map<string, Set<Peer>>();
+// Per-room message counters; clients refetch when they see a gap. Joining
+// clients learn the current count, so a room starts over once it empties.
+const sequences = new Map<string, number>();
+
+function send(socket: WebSocket, message: ServerMessage) {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+function broadcast(documentId: string, message: ServerMessage, except?: Peer) {
+  for (const peer of Array.from(rooms.get(documentId) ?? [])) {
+    if (peer !== except) send(peer.socket, message);
+  }
+}
+
+// The first colour nobody else in the room has, so cursors stay distinguishable
+function pickColor(room: Set<Peer>) {
+  const used = new Set(Array.from(room).map((peer) => peer.collaborator.color));
+  return PEER_COLORS.find((color) => !used.has(color)) ?? PEER_COLORS[room.size % PEER_COLORS.length];
+}
+
+// The tab behind a REST request, if it says
+export function collaboratorId(req: Request): string | null {
+  return req.get("X-Client-Id") ?? null;
+}
+
+// Tells everyone with the document open about changes that have already been saved
+export function broadcastFieldChanges(documentId: string, changes: FieldRevisionChange[], origin: string | null) {
+  if (changes.length === 0 || !rooms.has(documentId)) return;
+
+  const seq = (sequences.get(documentId) ?? 0) + 1;
+  sequences.set(documentId, seq);
+  broadcast(documentId, { type: "fields", seq, origin, changes });
+}
+
+// Disconnects everyone, or just the given user, from a document they can no
+// longer view, with a code their client won't reconnect after
+export function closeDocumentSockets(documentId: string, userId?: string) {
+  for (const peer of Array.from(rooms.get(documentId) ?? [])) {
+    if (!userId || peer.userId === userId) {
+      leave(peer);
+      peer.socket.close(CLOSE_NOT_FOUND, "Document not found");
+    }
+  }
+}
+
+async function join(socket: WebSocket, user: User, message: Extract<ClientMessage, { type: "join" }>): Promise<Peer | null> {
+  const document = await storage.getDocument(message.documentId);
+  // Fillers only get the fill view, which doesn't join
+  if (!document || !hasRole(await documentRole(user, document), "viewer")) {
+    socket.close(CLOSE_NOT_FOUND, "Document not found");
+    return null;
+  }
+
+  const room = rooms.get(message.documentId) ?? new Set<Peer>();
+  rooms.set(message.documentId, room);
+
+  const peer: Peer = {
+    socket,
+    documentId: message.documentId,
+    userId: user.id,
+    isAlive: true,
+    collaborator: {
+      id: message.clientId,
+      name: user.username,
+      color: pickColor(room),
+      cursor: null,
+      selection: [],
+    },
+  };
+  send(socket, {
+    type: "welcome",
+    seq: sequences.get(message.documentId) ?? 0,
+    self: peer.collaborator,
+    collaborators: Array.from(room).map((other) => other.collaborator),
+  });
+  room.add(peer);
+  broadcast(peer.documentId, { type: "collaborator", collaborator: peer.collaborator }, peer);
+  return peer;
+}
+
+function leave(peer: Peer) {
+  const room = rooms.get(peer.documentId);
+  if (!room?.delete(peer)) return;
+
+  if (room.size === 0) {
+    rooms.delete(peer.documentId);
+    sequences.delete(peer.documentId);
+  }
+  broadcast(peer.documentId, { type: "left", clientId: peer.collaborator.id });
+}
+
+function handleConnection(socket: WebSocket, user: User) {
+  let peer: Peer | null = null;
+  let joining = false;
+
+  socket.on("message", async (data: RawData) => {
+    let message: ClientMessage;
+    try {
+      message = clientMessageSchema.parse(JSON.parse(data.toString()));
+    } catch {
+      socket.close(CLOSE_INVALID_MESSAGE, "Invalid message");
+      return;
+    }
+
+    try {
+      if (message.type === "join") {
+        // One document per connection
+        if (peer || joining) return;
+        joining = true;
+        peer = await join(socket, user, message);
+        // The socket may have closed while the document was looked up
+        if (peer && socket.readyState !== WebSocket.OPEN) leave(peer);
+      } else if (peer) {
+        const { type, ...presence } = message;
+        peer.collaborator = { ...peer.collaborator, ...presence };
+        broadcast(peer.documentId, { type: "collaborator", collaborator: peer.collaborator }, peer);
+      }
+    } catch (err) {
+      console.error("Collaboration error:", err);
+      socket.close(1011, "Internal error");
+    }
+  });
+
+  socket.on("pong", () => {
+    if (peer) peer.isAlive = true;
+  });
+
+  socket.on("close", () => {
+    if (peer) leave(peer);
+  });
+}
+
+// Accepts collaboration sockets on the app's HTTP server, next to Vite's
+export function setupCollaboration(server: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", async (req, socket, head) => {
+    if (new URL(req.url ?? "/", "http://localhost").pathname !== COLLABORATION_PATH) return;
+
+    try {
+      const user = await sessionUser(req);
+      if (!user) {
+        // Browsers only report a refused upgrade as a dropped connection, so
+        // accept it and close with a code the client knows not to retry
+        wss.handleUpgrade(req, socket, head, (ws) => ws.close(CLOSE_UNAUTHORIZED, "Sign in to continue"));
+        return;
+      }
+      wss.handleUpgrade(req, socket, head, (ws) => handleConnection(ws, user));
+    } catch (err) {
+      console.error("Collaboration error:", err);
+      socket.destroy();
+    }
+  });
+
+  // Drop connections that stopped answering pings, so their cursors go away
+  const heartbeat = setInterval(() => {
+    for (const room of Array.from(rooms.values())) {
+      for (const peer of Array.from(room)) {
+        if (!peer.isAlive) {
+          peer.socket.terminate();
+          continue;
+        }
+        peer.isAlive = false;
+        peer.socket.ping();
+      }
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+  server.on("close", () => clearInterval(heartbeat));
+}
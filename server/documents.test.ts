@@ -0,0 +1,69 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import { PDFDocument, PDFName } from "pdf-lib";
+import sharp from "sharp";
+import { storage } from "./storage";
+import { startTestServer, registerUser } from "./test-server";
+
+let server: Awaited<ReturnType<typeof startTestServer>>;
+let cookie: string;
+
+before(async () => {
+  server = await startTestServer();
+  cookie = await registerUser(server.baseUrl, "uploader");
+});
+
+after(() => server.close());
+
+const upload = (bytes: Uint8Array, name: string) => {
+  const form = new FormData();
+  form.append("file", new Blob([bytes], { type: "application/pdf" }), name);
+  return fetch(`${server.baseUrl}/api/documents`, { method: "POST", headers: { cookie }, body: form });
+};
+
+test("turns away encrypted PDFs at upload", async () => {
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.addPage();
+  pdfDoc.context.trailerInfo.Encrypt = pdfDoc.context.obj({ Filter: PDFName.of("Standard"), V: 1, R: 2, P: -4 });
+  const uploadsBefore = fs.readdirSync("uploads").length;
+
+  const response = await upload(await pdfDoc.save({ useObjectStreams: false }), "locked.pdf");
+  assert.equal(response.status, 400);
+  assert.match(((await response.json()) as { message: string }).message, /encrypted/);
+  assert.equal(fs.readdirSync("uploads").length, uploadsBefore);
+});
+
+test("names the signature field when its image isn't a PNG", async () => {
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.addPage();
+  let response = await upload(await pdfDoc.save(), "signed.pdf");
+  const document = (await response.json()) as { id: string };
+  const field = await storage.createTextField({
+    documentId: document.id,
+    name: "applicant_signature",
+    type: "signature",
+    x: 0,
+    y: 0,
+    width: 100,
+    height: 40,
+  });
+  const fill = (signature: string) =>
+    fetch(`${server.baseUrl}/api/documents/${document.id}/fill`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", cookie },
+      body: JSON.stringify({ values: { [field.id]: signature } }),
+    });
+
+  try {
+    response = await fill(`data:image/png;base64,${Buffer.from("not a png, just some text").toString("base64")}`);
+    assert.equal(response.status, 400);
+    assert.match(((await response.json()) as { message: string }).message, /applicant_signature/);
+
+    const png = await sharp({ create: { width: 4, height: 2, channels: 4, background: "#000" } }).png().toBuffer();
+    response = await fill(`data:image/png;base64,${png.toString("base64")}`);
+    assert.equal(response.status, 200);
+  } finally {
+    await fetch(`${server.baseUrl}/api/documents/${document.id}`, { method: "DELETE", headers: { cookie } });
+  }
+});
@@ -0,0 +1,63 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { PDFDocument } from "pdf-lib";
+import { buildFdf, buildXfdf, parseFdf, parseXfdf, toNamedFieldData } from "./fdf";
+import { buildFillablePdf } from "./pdf-export";
+import { textField } from "./test-fields";
+
+const fields = [
+  textField({ id: "name", name: "applicant_name" }),
+  textField({ id: "note", name: "Notes (optional)", y: 30 }),
+  textField({ id: "city", name: "address.city", y: 60 }),
+  textField({ id: "agree", name: "agree", type: "checkbox", exportValue: "On It", y: 90 }),
+  textField({ id: "yes", name: "Yes", type: "radio", groupName: "consent", exportValue: "yes", y: 120 }),
+  textField({ id: "no", name: "No", type: "radio", groupName: "consent", exportValue: "no", y: 150 }),
+  textField({
+    id: "colors",
+    name: "colors",
+    type: "listbox",
+    multiSelect: true,
+    options: [
+      { label: "Red", value: "red" },
+      { label: "Blue", value: "blue" },
+    ],
+    y: 180,
+  }),
+];
+
+const values = {
+  name: "Zoë (née) O\\Brien",
+  note: "",
+  city: "Zürich",
+  agree: true,
+  no: true,
+  colors: ["red", "blue"],
+};
+
+const expected = {
+  applicant_name: "Zoë (née) O\\Brien",
+  "Notes (optional)": "",
+  "address.city": "Zürich",
+  agree: "On It",
+  consent: "no",
+  colors: ["red", "blue"],
+};
+
+test("reads back the values it writes to FDF", async () => {
+  assert.deepEqual(toNamedFieldData(fields, values), expected);
+  const fdf = buildFdf(fields, values);
+  assert.deepEqual(await parseFdf(new TextEncoder().encode(fdf)), expected);
+});
+
+test("reads back the values it writes to XFDF", () => {
+  assert.deepEqual(parseXfdf(buildXfdf(fields, values)), expected);
+});
+
+test("uses the same names as the fields of the exported PDF", async () => {
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.addPage();
+  const output = await buildFillablePdf(await pdfDoc.save(), fields, { values });
+  const pdfNames = (await PDFDocument.load(output)).getForm().getFields().map((field) => field.getName());
+  const fdfNames = Object.keys(await parseFdf(new TextEncoder().encode(buildFdf(fields, values))));
+  assert.deepEqual(pdfNames.sort(), fdfNames.sort());
+});
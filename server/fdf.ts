@@ -0,0 +1,201 @@
+import { XMLParser } from "fast-xml-parser";
+import {
+  PDFArray,
+  PDFDict,
+  PDFHexString,
+  PDFName,
+  PDFParser,
+  PDFRef,
+  PDFString,
+  type PDFObject,
+} from "pdf-lib";
+import { type FieldValue, type FieldValues, type TextField } from "@shared/schema";
+import { fieldDataName } from "@shared/field-values";
+
+// Field data by name, as read from or written to FDF/XFDF
+export type NamedFieldData = Record<string, string | string[]>;
+
+// Collapses per-widget values into one entry per data name; a radio group
+// takes the export value of its selected button, or Off
+export function toNamedFieldData(fields: TextField[], values: FieldValues): NamedFieldData {
+  const data: NamedFieldData = {};
+  for (const field of fields) {
+    const name = fieldDataName(field);
+    const value: FieldValue | undefined = values[field.id];
+
+    if (field.type === "signature") continue;
+    if (field.type === "checkbox") {
+      data[name] = value === true ? field.exportValue || "Yes" : "Off";
+    } else if (field.type === "radio") {
+      if (value === true) data[name] = field.exportValue || field.name;
+      else if (!(name in data)) data[name] = "Off";
+    } else if (Array.isArray(value)) {
+      data[name] = value;
+    } else {
+      data[name] = typeof value === "string" ? value : "";
+    }
+  }
+  return data;
+}
+
+// PDF literal strings only need backslashes and parentheses escaped; anything
+// outside Latin-1 goes out as a UTF-16 hex string instead
+function fdfString(text: string): string {
+  if (/^[\x20-\x7e]*$/.test(text)) {
+    return `(${text.replace(/[\\()]/g, (char) => `\\${char}`)})`;
+  }
+  return PDFHexString.fromText(text).toString();
+}
+
+function fdfName(text: string): string {
+  return PDFName.of(text).toString();
+}
+
+export function buildFdf(fields: TextField[], values: FieldValues): string {
+  const entries = Object.entries(toNamedFieldData(fields, values)).map(([name, value]) => {
+    const isToggle = fields.some(
+      (field) => fieldDataName(field) === name && (field.type === "checkbox" || field.type === "radio")
+    );
+    const encoded = Array.isArray(value)
+      ? `[${value.map(fdfString).join(" ")}]`
+      : isToggle
+        ? fdfName(value)
+        : fdfString(value);
+    return `<< /T ${fdfString(name)} /V ${encoded} >>`;
+  });
+
+  return [
+    "%FDF-1.2",
+    "1 0 obj",
+    "<< /FDF << /Fields [",
+    ...entries,
+    "] >> >>",
+    "endobj",
+    "trailer",
+    "<< /Root 1 0 R >>",
+    "%%EOF",
+    "",
+  ].join("\n");
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+export function buildXfdf(fields: TextField[], values: FieldValues): string {
+  const entries = Object.entries(toNamedFieldData(fields, values)).map(([name, value]) => {
+    const valueTags = (Array.isArray(value) ? value : [value])
+      .map((item) => `<value>${escapeXml(item)}</value>`)
+      .join("");
+    return `    <field name="${escapeXml(name)}">${valueTags}</field>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<xfdf xmlns="http://ns.adobe.com/xfdf/" xml:space="preserve">',
+    "  <fields>",
+    ...entries,
+    "  </fields>",
+    "</xfdf>",
+    "",
+  ].join("\n");
+}
+
+function decodeFdfValue(value: PDFObject | undefined): string | string[] | undefined {
+  if (value instanceof PDFString || value instanceof PDFHexString) return value.decodeText();
+  if (value instanceof PDFName) return value.decodeText();
+  if (value instanceof PDFArray) {
+    return value
+      .asArray()
+      .filter((item): item is PDFString | PDFHexString => item instanceof PDFString || item instanceof PDFHexString)
+      .map((item) => item.decodeText());
+  }
+  return undefined;
+}
+
+// FDF shares the PDF object syntax, so pdf-lib's parser reads it once the
+// header says PDF. Nested /Kids build dotted names, as in AcroForms.
+export async function parseFdf(bytes: Uint8Array): Promise<NamedFieldData> {
+  const header = new TextDecoder("latin1").decode(bytes.subarray(0, 1024));
+  const headerAt = header.indexOf("%FDF-");
+  if (headerAt === -1) {
+    throw new Error("Not an FDF file");
+  }
+
+  const pdfBytes = new Uint8Array(bytes);
+  pdfBytes.set(new TextEncoder().encode("%PDF-"), headerAt);
+  const context = await PDFParser.forBytesWithOptions(pdfBytes).parseDocument();
+
+  const lookupDict = (object: PDFObject | undefined) => {
+    const resolved = object instanceof PDFRef ? context.lookup(object) : object;
+    return resolved instanceof PDFDict ? resolved : undefined;
+  };
+  const root = lookupDict(context.trailerInfo.Root);
+  const fdf = lookupDict(root?.get(PDFName.of("FDF")));
+  const fieldList = fdf?.lookup(PDFName.of("Fields"));
+  if (!(fieldList instanceof PDFArray)) {
+    throw new Error("The FDF file has no /Fields");
+  }
+
+  const data: NamedFieldData = {};
+  const visit = (fieldArray: PDFArray, prefix: string) => {
+    for (const entry of fieldArray.asArray()) {
+      const field = lookupDict(entry);
+      if (!field) continue;
+
+      const partialName = decodeFdfValue(field.lookup(PDFName.of("T")));
+      const name = typeof partialName === "string" ? (prefix ? `${prefix}.${partialName}` : partialName) : prefix;
+      const kids = field.lookup(PDFName.of("Kids"));
+      if (kids instanceof PDFArray) {
+        visit(kids, name);
+      }
+
+      const value = decodeFdfValue(field.lookup(PDFName.of("V")));
+      if (name && value !== undefined) {
+        data[name] = value;
+      }
+    }
+  };
+  visit(fieldList, "");
+  return data;
+}
+
+interface XfdfField {
+  "@_name"?: string;
+  value?: Array<string | number | { "#text"?: string | number }>;
+  field?: XfdfField[];
+}
+
+const xfdfParser = new XMLParser({
+  ignoreAttributes: false,
+  parseTagValue: false,
+  trimValues: false,
+  isArray: (tagName) => tagName === "field" || tagName === "value",
+});
+
+// Nested <field> elements build dotted names, like /Kids in FDF
+export function parseXfdf(xml: string): NamedFieldData {
+  const document = xfdfParser.parse(xml);
+  const fields: XfdfField[] | undefined = document?.xfdf?.fields?.field;
+  if (!document?.xfdf) {
+    throw new Error("Not an XFDF file");
+  }
+
+  const data: NamedFieldData = {};
+  const visit = (list: XfdfField[], prefix: string) => {
+    for (const field of list) {
+      const partialName = field["@_name"];
+      const name = partialName ? (prefix ? `${prefix}.${partialName}` : partialName) : prefix;
+      if (field.field) {
+        visit(field.field, name);
+      }
+      if (name && field.value) {
+        const values = field.value.map((item) =>
+          typeof item === "object" ? String(item["#text"] ?? "") : String(item)
+        );
+        data[name] = values.length === 1 ? values[0] : values;
+      }
+    }
+  };
+  visit(fields ?? [], "");
+  return data;
+}
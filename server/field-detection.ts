@@ -0,0 +1,534 @@
+import { ImageKind, OPS, type PDFPageProxy, type PageViewport } from "pdfjs-dist/legacy/build/pdf.mjs";
+import { type DetectionSource, type FieldSuggestion, type PageLines, type TextField } from "@shared/schema";
+import { applyMatrix, loadPdf, readPageText, type Matrix, type Rect, type TextBox } from "./pdf-text";
+import { nameFromLabels } from "./field-labels";
+
+// Everything below works in the editor's space: points from the page's
+// top-left corner, after rotation
+
+interface HorizontalSegment {
+  x1: number;
+  x2: number;
+  y: number;
+}
+
+interface VerticalSegment {
+  y1: number;
+  y2: number;
+  x: number;
+}
+
+interface PageShapes {
+  horizontal: HorizontalSegment[];
+  vertical: VerticalSegment[];
+  text: TextBox[];
+  underscores: Rect[];
+}
+
+type Candidate = Omit<FieldSuggestion, "id" | "pageIndex">;
+
+// How far apart line ends can be and still count as touching
+const JOIN_TOLERANCE = 2;
+const MIN_LINE_LENGTH = 36;
+const MIN_CHECKBOX_SIZE = 6;
+const MAX_CHECKBOX_SIZE = 24;
+const MIN_CELL_HEIGHT = 10;
+const MAX_CELL_HEIGHT = 60;
+const MIN_FIELD_WIDTH = 30;
+const LINE_FIELD_HEIGHT = 18;
+// Lines spanning most of the page are separators rather than blanks
+const MAX_LINE_PAGE_FRACTION = 0.9;
+
+// pdf.js path commands inside constructPath; not exported by the library
+const PATH_MOVE_TO = 0;
+const PATH_LINE_TO = 1;
+const PATH_CURVE_TO = 2;
+const PATH_CLOSE = 3;
+
+const FILL_OPS = new Set<number>([OPS.fill, OPS.eoFill]);
+const STROKE_OPS = new Set<number>([OPS.stroke, OPS.closeStroke]);
+const FILL_STROKE_OPS = new Set<number>([
+  OPS.fillStroke,
+  OPS.eoFillStroke,
+  OPS.closeFillStroke,
+  OPS.closeEOFillStroke,
+]);
+
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[2] * n[1],
+  m[1] * n[0] + m[3] * n[1],
+  m[0] * n[2] + m[2] * n[3],
+  m[1] * n[2] + m[3] * n[3],
+  m[0] * n[4] + m[2] * n[5] + m[4],
+  m[1] * n[4] + m[3] * n[5] + m[5],
+];
+
+// White or transparent paint doesn't draw anything a user would fill in
+function isVisibleColor(color: string | null): boolean {
+  if (!color) return false;
+  const match = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(color);
+  if (!match) return true;
+  return match.slice(1).some((channel) => parseInt(channel, 16) < 0xf0);
+}
+
+function addSegment(shapes: PageShapes, [x1, y1]: [number, number], [x2, y2]: [number, number]) {
+  if (Math.abs(y1 - y2) <= 0.5 && Math.abs(x1 - x2) > 0.5) {
+    shapes.horizontal.push({ x1: Math.min(x1, x2), x2: Math.max(x1, x2), y: (y1 + y2) / 2 });
+  } else if (Math.abs(x1 - x2) <= 0.5 && Math.abs(y1 - y2) > 0.5) {
+    shapes.vertical.push({ y1: Math.min(y1, y2), y2: Math.max(y1, y2), x: (x1 + x2) / 2 });
+  }
+}
+
+// Stroked paths contribute their straight edges; filled paths contribute their
+// outline, except hairline fills, which are how many generators draw rules
+function addPath(shapes: PageShapes, points: [number, number][][], filled: boolean) {
+  for (const subpath of points) {
+    if (subpath.length < 2) continue;
+
+    if (filled) {
+      const xs = subpath.map(([x]) => x);
+      const ys = subpath.map(([, y]) => y);
+      const left = Math.min(...xs);
+      const right = Math.max(...xs);
+      const top = Math.min(...ys);
+      const bottom = Math.max(...ys);
+      if (bottom - top <= 3 && right - left > 3) {
+        shapes.horizontal.push({ x1: left, x2: right, y: (top + bottom) / 2 });
+        continue;
+      }
+      if (right - left <= 3 && bottom - top > 3) {
+        shapes.vertical.push({ y1: top, y2: bottom, x: (left + right) / 2 });
+        continue;
+      }
+    }
+
+    for (let i = 1; i < subpath.length; i++) {
+      addSegment(shapes, subpath[i - 1], subpath[i]);
+    }
+  }
+}
+
+// Splits pdf.js path data into subpaths of page points. Curves only move the
+// pen; they never form a blank line or a box.
+function readPathData(data: ArrayLike<number>, toPage: (x: number, y: number) => [number, number]) {
+  const subpaths: [number, number][][] = [];
+  let current: [number, number][] = [];
+  let i = 0;
+  while (i < data.length) {
+    const command = data[i];
+    if (command === PATH_MOVE_TO) {
+      if (current.length > 0) subpaths.push(current);
+      current = [toPage(data[i + 1], data[i + 2])];
+      i += 3;
+    } else if (command === PATH_LINE_TO) {
+      current.push(toPage(data[i + 1], data[i + 2]));
+      i += 3;
+    } else if (command === PATH_CURVE_TO) {
+      if (current.length > 0) subpaths.push(current);
+      current = [toPage(data[i + 5], data[i + 6])];
+      i += 7;
+    } else if (command === PATH_CLOSE) {
+      if (current.length > 1) current.push(current[0]);
+      i += 1;
+    } else {
+      break;
+    }
+  }
+  if (current.length > 0) subpaths.push(current);
+  return subpaths;
+}
+
+interface PageImage {
+  name: string;
+  rect: Rect;
+}
+
+async function collectVectorShapes(page: PDFPageProxy, viewport: PageViewport) {
+  const shapes: PageShapes = { horizontal: [], vertical: [], text: [], underscores: [] };
+  const images: PageImage[] = [];
+  const operatorList = await page.getOperatorList();
+
+  let ctm: Matrix = [...viewport.transform] as Matrix;
+  let fillColor: string | null = "#000000";
+  let strokeColor: string | null = "#000000";
+  const stack: { ctm: Matrix; fillColor: string | null; strokeColor: string | null }[] = [];
+
+  for (let i = 0; i < operatorList.fnArray.length; i++) {
+    const fn = operatorList.fnArray[i];
+    const args = operatorList.argsArray[i];
+
+    switch (fn) {
+      case OPS.save:
+        stack.push({ ctm, fillColor, strokeColor });
+        break;
+      case OPS.restore: {
+        const state = stack.pop();
+        if (state) ({ ctm, fillColor, strokeColor } = state);
+        break;
+      }
+      case OPS.transform:
+        ctm = multiply(ctm, args as Matrix);
+        break;
+      case OPS.paintFormXObjectBegin:
+        stack.push({ ctm, fillColor, strokeColor });
+        if (Array.isArray(args[0]) || ArrayBuffer.isView(args[0])) {
+          ctm = multiply(ctm, Array.from(args[0] as ArrayLike<number>) as Matrix);
+        }
+        break;
+      case OPS.paintFormXObjectEnd: {
+        const state = stack.pop();
+        if (state) ({ ctm, fillColor, strokeColor } = state);
+        break;
+      }
+      case OPS.setFillRGBColor:
+        fillColor = args[0];
+        break;
+      case OPS.setStrokeRGBColor:
+        strokeColor = args[0];
+        break;
+      case OPS.setFillTransparent:
+        fillColor = null;
+        break;
+      case OPS.setStrokeTransparent:
+        strokeColor = null;
+        break;
+      case OPS.constructPath: {
+        const [paintOp, pathData] = args as [number, ArrayLike<number>[] | null];
+        const filled = FILL_OPS.has(paintOp) || FILL_STROKE_OPS.has(paintOp);
+        const stroked = STROKE_OPS.has(paintOp) || FILL_STROKE_OPS.has(paintOp);
+        const visible = (filled && isVisibleColor(fillColor)) || (stroked && isVisibleColor(strokeColor));
+        if (!visible || !pathData) break;
+
+        const pathCtm = ctm;
+        const toPage = (x: number, y: number) => applyMatrix(pathCtm, x, y);
+        for (const data of pathData) {
+          addPath(shapes, readPathData(data, toPage), filled && !stroked);
+        }
+        break;
+      }
+      case OPS.paintImageXObject: {
+        const [x1, y1] = applyMatrix(ctm, 0, 0);
+        const [x2, y2] = applyMatrix(ctm, 1, 1);
+        // Skewed or rotated images can't be mapped back to the page pixel by pixel
+        if (Math.abs(ctm[1]) > 1e-6 || Math.abs(ctm[2]) > 1e-6) break;
+        images.push({
+          name: args[0],
+          rect: {
+            x: Math.min(x1, x2),
+            y: Math.min(y1, y2),
+            width: Math.abs(x2 - x1),
+            height: Math.abs(y2 - y1),
+          },
+        });
+        break;
+      }
+    }
+  }
+
+  return { shapes, images };
+}
+
+// Finds the horizontal (or, transposed, vertical) strokes in a dark-pixel mask:
+// runs at least minRun long, merged across neighbouring rows, and thrown away
+// if the result is too thick to be a line
+function findStrokes(
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  horizontal: boolean,
+  minRun: number,
+  maxThickness: number
+) {
+  const lineCount = horizontal ? height : width;
+  const lineLength = horizontal ? width : height;
+  const at = horizontal ? (line: number, i: number) => mask[line * width + i] : (line: number, i: number) => mask[i * width + line];
+
+  interface Band { start: number; end: number; first: number; last: number }
+  const strokes: Band[] = [];
+  let active: Band[] = [];
+
+  const close = (band: Band) => {
+    if (band.last - band.first + 1 <= maxThickness) strokes.push(band);
+  };
+
+  for (let line = 0; line < lineCount; line++) {
+    const next: Band[] = [];
+    let i = 0;
+    while (i < lineLength) {
+      if (!at(line, i)) {
+        i++;
+        continue;
+      }
+      const start = i;
+      while (i < lineLength && at(line, i)) i++;
+      const end = i - 1;
+      if (end - start + 1 < minRun) continue;
+
+      const band = active.find((candidate) => start <= candidate.end && end >= candidate.start);
+      if (band) {
+        active = active.filter((candidate) => candidate !== band);
+        next.push({ start: Math.min(start, band.start), end: Math.max(end, band.end), first: band.first, last: line });
+      } else {
+        next.push({ start, end, first: line, last: line });
+      }
+    }
+    active.forEach(close);
+    active = next;
+  }
+  active.forEach(close);
+  return strokes;
+}
+
+// Scanned pages are a single image; read its pixels for the lines a vector
+// page would have drawn
+async function collectImageShapes(page: PDFPageProxy, image: PageImage, shapes: PageShapes) {
+  const objs = image.name.startsWith("g_") ? page.commonObjs : page.objs;
+  const data: { width: number; height: number; kind: number; data?: Uint8Array | Uint8ClampedArray } | null =
+    await new Promise((resolve) => objs.get(image.name, resolve));
+  if (!data?.data) return;
+
+  const { width, height, kind } = data;
+  const pixels = data.data;
+  const mask = new Uint8Array(width * height);
+  if (kind === ImageKind.GRAYSCALE_1BPP) {
+    const rowBytes = (width + 7) >> 3;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        // Set bits are white
+        mask[y * width + x] = pixels[y * rowBytes + (x >> 3)] & (128 >> (x & 7)) ? 0 : 1;
+      }
+    }
+  } else {
+    const channels = kind === ImageKind.RGBA_32BPP ? 4 : 3;
+    for (let p = 0; p < width * height; p++) {
+      const offset = p * channels;
+      const luma = 0.299 * pixels[offset] + 0.587 * pixels[offset + 1] + 0.114 * pixels[offset + 2];
+      mask[p] = luma < 128 ? 1 : 0;
+    }
+  }
+
+  const scaleX = image.rect.width / width;
+  const scaleY = image.rect.height / height;
+  const minRunX = Math.max(2, Math.round(MIN_CHECKBOX_SIZE / scaleX));
+  const minRunY = Math.max(2, Math.round(MIN_CHECKBOX_SIZE / scaleY));
+  // Scanned rules come out a few pixels thick once blurred; anything thicker
+  // is ink, not a line
+  const maxThicknessX = Math.max(2, Math.round(5 / scaleX));
+  const maxThicknessY = Math.max(2, Math.round(5 / scaleY));
+
+  for (const band of findStrokes(mask, width, height, true, minRunX, maxThicknessY)) {
+    shapes.horizontal.push({
+      x1: image.rect.x + band.start * scaleX,
+      x2: image.rect.x + (band.end + 1) * scaleX,
+      y: image.rect.y + ((band.first + band.last) / 2 + 0.5) * scaleY,
+    });
+  }
+  for (const band of findStrokes(mask, width, height, false, minRunY, maxThicknessX)) {
+    shapes.vertical.push({
+      y1: image.rect.y + band.start * scaleY,
+      y2: image.rect.y + (band.end + 1) * scaleY,
+      x: image.rect.x + ((band.first + band.last) / 2 + 0.5) * scaleX,
+    });
+  }
+}
+
+// Closed boxes: two horizontal lines joined by at least two vertical ones.
+// Each top edge pairs with the nearest line below that closes a box, so a
+// table yields one box per cell rather than boxes spanning several rows.
+function findBoxes(shapes: PageShapes) {
+  const boxes: Rect[] = [];
+  const edges = new Set<HorizontalSegment>();
+  const horizontal = [...shapes.horizontal].sort((a, b) => a.y - b.y);
+
+  for (let i = 0; i < horizontal.length; i++) {
+    const top = horizontal[i];
+    for (let j = i + 1; j < horizontal.length; j++) {
+      const bottom = horizontal[j];
+      const boxHeight = bottom.y - top.y;
+      if (boxHeight < MIN_CHECKBOX_SIZE) continue;
+      if (boxHeight > MAX_CELL_HEIGHT) break;
+
+      const left = Math.max(top.x1, bottom.x1) - JOIN_TOLERANCE;
+      const right = Math.min(top.x2, bottom.x2) + JOIN_TOLERANCE;
+      if (right - left < MIN_CHECKBOX_SIZE) continue;
+
+      const xs = shapes.vertical
+        .filter(
+          (line) =>
+            line.x >= left &&
+            line.x <= right &&
+            line.y1 <= top.y + JOIN_TOLERANCE &&
+            line.y2 >= bottom.y - JOIN_TOLERANCE
+        )
+        .map((line) => line.x)
+        .sort((a, b) => a - b)
+        .filter((x, index, sorted) => index === 0 || x - sorted[index - 1] > JOIN_TOLERANCE);
+      if (xs.length < 2) continue;
+
+      for (let k = 1; k < xs.length; k++) {
+        boxes.push({ x: xs[k - 1], y: top.y, width: xs[k] - xs[k - 1], height: boxHeight });
+      }
+      edges.add(top);
+      edges.add(bottom);
+      break;
+    }
+  }
+
+  return { boxes, edges };
+}
+
+const overlaps = (a: Rect, b: Rect) =>
+  a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+const overlapArea = (a: Rect, b: Rect) =>
+  Math.max(0, Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x)) *
+  Math.max(0, Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y));
+
+const touches = (a: Rect, b: Rect) =>
+  a.x <= b.x + b.width + JOIN_TOLERANCE &&
+  b.x <= a.x + a.width + JOIN_TOLERANCE &&
+  a.y <= b.y + b.height + JOIN_TOLERANCE &&
+  b.y <= a.y + a.height + JOIN_TOLERANCE;
+
+// The part of a blank not covered by text. A "Name:" label on the left still
+// leaves room to write; any other text means the blank is already filled in,
+// like a table header. Returns null when too little is left.
+function freeSpan(rect: Rect, text: TextBox[]): Rect | null {
+  const inside = text.filter((box) => overlaps(box, rect));
+  if (inside.length === 0) return rect;
+  if (!inside.every((box) => box.text.trim().endsWith(":"))) return null;
+
+  const textRight = Math.max(...inside.map((box) => box.x + box.width)) + 4;
+  const width = rect.x + rect.width - textRight;
+  return width >= MIN_FIELD_WIDTH ? { ...rect, x: textRight, width } : null;
+}
+
+function suggestForPage(shapes: PageShapes, pageWidth: number): Candidate[] {
+  const candidates: Candidate[] = [];
+  const add = (type: Candidate["type"], rect: Rect, source: DetectionSource) =>
+    candidates.push({ type, source, x: rect.x, y: rect.y, width: rect.width, height: rect.height });
+
+  const { boxes, edges } = findBoxes(shapes);
+  for (const box of boxes) {
+    const inset = { x: box.x + 1, y: box.y + 1, width: box.width - 2, height: box.height - 2 };
+    const ratio = box.width / box.height;
+    const isSquare = ratio >= 0.75 && ratio <= 1.33;
+
+    if (isSquare && box.width >= MIN_CHECKBOX_SIZE && box.width <= MAX_CHECKBOX_SIZE) {
+      // Real checkboxes stand alone; small boxes stacked on others are glyphs
+      // like B or 8 in a scan
+      const stacked = boxes.some((other) => other !== box && touches(other, box));
+      if (!stacked && !shapes.text.some((text) => overlaps(text, inset))) add("checkbox", inset, "box");
+    } else if (box.height >= MIN_CELL_HEIGHT && box.width >= MIN_FIELD_WIDTH) {
+      const free = freeSpan(inset, shapes.text);
+      if (free) add("text", free, "box");
+    }
+  }
+
+  for (const underscore of shapes.underscores) {
+    if (underscore.width >= MIN_FIELD_WIDTH / 2) add("text", underscore, "underscore");
+  }
+
+  for (const line of shapes.horizontal) {
+    const length = line.x2 - line.x1;
+    if (edges.has(line) || length < MIN_LINE_LENGTH || length > pageWidth * MAX_LINE_PAGE_FRACTION) continue;
+
+    const rect = { x: line.x1, y: Math.max(0, line.y - LINE_FIELD_HEIGHT), width: length, height: LINE_FIELD_HEIGHT };
+    const free = freeSpan(rect, shapes.text);
+    if (free) add("text", free, "line");
+  }
+
+  return candidates;
+}
+
+// Lines, text and underscores on a page, read from its pixels when it's a scan
+async function collectPageShapes(page: PDFPageProxy, viewport: PageViewport): Promise<PageShapes> {
+  const { shapes, images } = await collectVectorShapes(page, viewport);
+  const { text, underscores } = await readPageText(page, viewport);
+  shapes.text.push(...text);
+  shapes.underscores.push(...underscores);
+
+  // Only fall back to pixels when the page draws no lines of its own. OCR
+  // text doesn't count against that; it's an invisible layer over the scan.
+  const pageArea = viewport.width * viewport.height;
+  const scan = images.find((image) => image.rect.width * image.rect.height >= pageArea * 0.8);
+  if (scan && shapes.horizontal.length === 0 && shapes.vertical.length === 0) {
+    await collectImageShapes(page, scan, shapes);
+  }
+  return shapes;
+}
+
+// Every page's ruled lines, for snapping fields to. Underscore blanks count
+// as a line along their bottom edge.
+export async function detectPageLines(pdfBytes: Uint8Array): Promise<PageLines[]> {
+  const pdf = await loadPdf(pdfBytes);
+  const pages: PageLines[] = [];
+  try {
+    for (let pageIndex = 0; pageIndex < pdf.numPages; pageIndex++) {
+      const page = await pdf.getPage(pageIndex + 1);
+      const shapes = await collectPageShapes(page, page.getViewport({ scale: 1 }));
+      const underscores = shapes.underscores.map((rect) => ({ x1: rect.x, x2: rect.x + rect.width, y: rect.y + rect.height }));
+      pages.push({
+        pageIndex,
+        horizontal: [...shapes.horizontal, ...underscores].filter((line) => line.x2 - line.x1 >= MIN_CHECKBOX_SIZE),
+        vertical: shapes.vertical.filter((line) => line.y2 - line.y1 >= MIN_CHECKBOX_SIZE),
+      });
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+  return pages;
+}
+
+// Proposes text fields for blank lines, underscores, empty boxes and table
+// cells, and checkboxes for small squares. Suggestions that overlap an
+// existing field, or an earlier suggestion, are dropped.
+export async function detectFields(pdfBytes: Uint8Array, existingFields: TextField[]): Promise<FieldSuggestion[]> {
+  const pdf = await loadPdf(pdfBytes);
+
+  const suggestions: FieldSuggestion[] = [];
+  const takenNames = new Set(existingFields.map((field) => field.name));
+  try {
+    for (let pageIndex = 0; pageIndex < pdf.numPages; pageIndex++) {
+      const page = await pdf.getPage(pageIndex + 1);
+      const viewport = page.getViewport({ scale: 1 });
+      const shapes = await collectPageShapes(page, viewport);
+
+      const taken: Rect[] = existingFields.filter((field) => field.pageIndex === pageIndex);
+      const kept: Candidate[] = [];
+      for (const candidate of suggestForPage(shapes, viewport.width)) {
+        const clashes = taken.some(
+          (rect) => overlapArea(rect, candidate) > 0.3 * Math.min(rect.width * rect.height, candidate.width * candidate.height)
+        );
+        if (clashes) continue;
+
+        taken.push(candidate);
+        kept.push(candidate);
+      }
+
+      // Reading order: top to bottom, then left to right within a row
+      kept.sort((a, b) => (Math.abs(a.y - b.y) > 4 ? a.y - b.y : a.x - b.x));
+      const pageText: TextBox[][] = [];
+      pageText[pageIndex] = shapes.text;
+      const names = nameFromLabels(
+        kept.map((candidate) => ({ ...candidate, pageIndex })),
+        pageText,
+        takenNames
+      );
+      kept.forEach((candidate, index) => {
+        suggestions.push({
+          ...candidate,
+          id: `${pageIndex}-${suggestions.length}`,
+          pageIndex,
+          name: names[index]?.name,
+        });
+      });
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return suggestions;
+}
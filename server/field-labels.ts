@@ -0,0 +1,118 @@
+import { type FieldType } from "@shared/schema";
+import { type Rect, type TextBox } from "./pdf-text";
+
+export interface LabelTarget extends Rect {
+  type: FieldType;
+  pageIndex: number;
+}
+
+export interface LabelName {
+  label: string;
+  name: string;
+}
+
+const MAX_SIDE_GAP = 200;
+const MAX_ABOVE_GAP = 30;
+const MAX_NAME_LENGTH = 48;
+
+const overlapsVertically = (a: Rect, b: Rect) => a.y < b.y + b.height && b.y < a.y + a.height;
+const overlapsHorizontally = (a: Rect, b: Rect) => a.x < b.x + b.width && b.x < a.x + a.width;
+
+// pdf.js often splits a line into several items; join words on the same
+// baseline back into phrases. A colon ends a label, so it never joins onward.
+export function mergeTextRuns(text: TextBox[]): TextBox[] {
+  const runs: TextBox[] = [];
+  for (const box of [...text].sort((a, b) => a.x - b.x)) {
+    const run = runs.find(
+      (candidate) =>
+        !candidate.text.endsWith(":") &&
+        Math.abs(candidate.y - box.y) < box.fontSize * 0.3 &&
+        box.x - (candidate.x + candidate.width) > -1 &&
+        box.x - (candidate.x + candidate.width) < box.fontSize * 0.6
+    );
+    if (run) {
+      run.text = `${run.text} ${box.text}`;
+      run.width = box.x + box.width - run.x;
+      run.height = Math.max(run.height, box.height);
+    } else {
+      runs.push({ ...box });
+    }
+  }
+  return runs;
+}
+
+// The closest text left of the field on the same line, or just above it.
+// Checkboxes are usually labelled on their right instead.
+export function findFieldLabel(target: LabelTarget, runs: TextBox[]): TextBox | null {
+  let best: TextBox | null = null;
+  let bestDistance = Infinity;
+  const consider = (run: TextBox, distance: number) => {
+    if (distance < bestDistance) {
+      best = run;
+      bestDistance = distance;
+    }
+  };
+
+  for (const run of runs) {
+    if (overlapsVertically(run, target)) {
+      const leftGap = target.x - (run.x + run.width);
+      if (leftGap >= -2 && leftGap <= MAX_SIDE_GAP) consider(run, leftGap);
+
+      const rightGap = run.x - (target.x + target.width);
+      if (target.type === "checkbox" && rightGap >= -2 && rightGap <= MAX_SIDE_GAP) consider(run, rightGap / 2);
+    }
+
+    const aboveGap = target.y - (run.y + run.height);
+    if (overlapsHorizontally(run, target) && aboveGap >= -2 && aboveGap <= MAX_ABOVE_GAP) {
+      // A label beside the field wins over one about as far above it
+      consider(run, aboveGap * 2);
+    }
+  }
+
+  return best;
+}
+
+// "1. Applicant Last Name:" becomes applicant_last_name
+export function labelToFieldName(label: string): string | null {
+  const words = label
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/^\(?(?:\d{1,3}|[a-z]|[ivx]{1,4})[.)]\s+/i, "")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+
+  let name = "";
+  for (const word of words) {
+    const next = name ? `${name}_${word}` : word;
+    if (next.length > MAX_NAME_LENGTH) break;
+    name = next;
+  }
+  if (!name) return null;
+  return /^\d/.test(name) ? `field_${name}` : name;
+}
+
+// Names each target after its label, in order, adding _2, _3... where a
+// name is already taken; the names handed out are added to takenNames.
+// Targets without a usable label get null.
+export function nameFromLabels(
+  targets: LabelTarget[],
+  pageText: TextBox[][],
+  takenNames: Set<string>
+): (LabelName | null)[] {
+  const pageRuns = pageText.map((text) => mergeTextRuns(text ?? []));
+  const used = takenNames;
+
+  return targets.map((target) => {
+    const label = findFieldLabel(target, pageRuns[target.pageIndex] ?? []);
+    const base = label ? labelToFieldName(label.text) : null;
+    if (!label || !base) return null;
+
+    let name = base;
+    for (let suffix = 2; used.has(name); suffix++) {
+      name = `${base}_${suffix}`;
+    }
+    used.add(name);
+    return { label: label.text, name };
+  });
+}
@@ -0,0 +1,55 @@
+import path from "path";
+import fs from "fs";
+import fontkit, { type Font } from "@pdf-lib/fontkit";
+import { storage } from "./storage";
+
+// --- font paths (Arial maps onto the built-in Helvetica, so it needs no file)
+export const FONT_PATHS: Record<string, string> = {
+  Allura: path.resolve("fonts/Allura-Regular.ttf"),
+  "Dancing Script": path.resolve("fonts/DancingScript-VariableFont_wght.ttf"),
+};
+
+export interface FontInfo {
+  family: string;
+  format: "ttf" | "otf";
+}
+
+// Parses an uploaded font with fontkit; throws if it isn't a usable TTF/OTF
+export function readFontInfo(buffer: Uint8Array): FontInfo {
+  let font: Font;
+  try {
+    font = fontkit.create(buffer);
+  } catch {
+    throw new Error("Invalid font file. Only TrueType and OpenType fonts are supported.");
+  }
+
+  if (!font.familyName || font.numGlyphs === 0) {
+    throw new Error("Font file has no family name or glyphs");
+  }
+
+  // OpenType fonts with CFF outlines start with "OTTO"; everything else we accept is TrueType
+  const signature = Buffer.from(buffer.subarray(0, 4)).toString("latin1");
+  return {
+    family: font.familyName,
+    format: signature === "OTTO" ? "otf" : "ttf",
+  };
+}
+
+// Resolves a font family, built in or among the owner's uploads, to embeddable
+// bytes. Returns null for Arial (which uses the standard Helvetica) and
+// undefined for families that don't exist.
+export async function loadFontBytes(family: string, ownerId: string | null): Promise<Uint8Array | null | undefined> {
+  if (family === "Arial") {
+    return null;
+  }
+
+  if (FONT_PATHS[family]) {
+    return fs.readFileSync(FONT_PATHS[family]);
+  }
+
+  const font = ownerId ? await storage.getFontByFamily(family, ownerId) : undefined;
+  if (!font || !fs.existsSync(font.filename)) {
+    return undefined;
+  }
+  return fs.readFileSync(font.filename);
+}
@@ -0,0 +1,108 @@
+import { createRequire } from "module";
+import {
+  beginText,
+  endText,
+  popGraphicsState,
+  pushGraphicsState,
+  setCharacterSqueeze,
+  setFontAndSize,
+  setTextMatrix,
+  setTextRenderingMode,
+  showText,
+  TextRenderingMode,
+  type PDFFont,
+  type PDFPage,
+} from "pdf-lib";
+import { createWorker, OEM } from "tesseract.js";
+import { type OcrWord } from "@shared/schema";
+
+// Language data ships as an npm package so OCR never downloads anything
+const require = createRequire(import.meta.url);
+const englishData: { langPath: string; gzip: boolean } = require("@tesseract.js-data/eng");
+
+// Words Tesseract is less sure of than this are usually specks
+const MIN_CONFIDENCE = 30;
+
+export interface OcrResult {
+  text: string;
+  words: OcrWord[];
+}
+
+// Reads the words in an image; positions are in image pixels, which are
+// also page points for the PDFs built from uploaded images
+export async function recognizeImage(image: string | Buffer): Promise<OcrResult> {
+  const worker = await createWorker("eng", OEM.LSTM_ONLY, {
+    langPath: englishData.langPath,
+    gzip: englishData.gzip,
+    cacheMethod: "none",
+  });
+
+  try {
+    const { data } = await worker.recognize(image, {}, { text: true, blocks: true });
+    const words: OcrWord[] = [];
+    for (const block of data.blocks ?? []) {
+      for (const paragraph of block.paragraphs) {
+        for (const line of paragraph.lines) {
+          for (const word of line.words) {
+            const text = word.text.trim();
+            // Rules and underlines come back as dashes and other punctuation
+            if (!/[A-Za-z0-9\u00c0-\u024f]/.test(text) || word.confidence < MIN_CONFIDENCE) continue;
+            words.push({
+              text,
+              x: word.bbox.x0,
+              y: word.bbox.y0,
+              width: word.bbox.x1 - word.bbox.x0,
+              height: word.bbox.y1 - word.bbox.y0,
+              confidence: Math.round(word.confidence),
+            });
+          }
+        }
+      }
+    }
+    return { text: data.text.trim(), words };
+  } finally {
+    await worker.terminate();
+  }
+}
+
+// The standard fonts only cover Latin-1; anything else is dropped from the
+// hidden layer (the stored words keep it)
+function encodableText(font: PDFFont, text: string): string {
+  try {
+    font.encodeText(text);
+    return text;
+  } catch {
+    return text.replace(/[^\x20-\x7e\xa0-\xff]/g, "");
+  }
+}
+
+// Draws each word in invisible render mode over its spot on the scan, so
+// viewers can select and search it and pdf.js reads it like any text. The
+// font size follows the word's height and the width is squeezed to match.
+export function drawInvisibleText(page: PDFPage, font: PDFFont, words: OcrWord[]) {
+  const fontKey = page.node.newFontDictionary(font.name, font.ref);
+  const pageHeight = page.getHeight();
+
+  for (const word of words) {
+    const text = encodableText(font, word.text);
+    if (!text || word.width <= 0 || word.height <= 0) continue;
+
+    const fontSize = word.height;
+    const naturalWidth = font.widthOfTextAtSize(text, fontSize);
+    const squeeze = naturalWidth > 0 ? (word.width / naturalWidth) * 100 : 100;
+    // Baseline about a fifth of the way up from the bottom of the box
+    const baseline = pageHeight - word.y - word.height * 0.8;
+
+    page.pushOperators(
+      pushGraphicsState(),
+      beginText(),
+      setFontAndSize(fontKey, fontSize),
+      setTextRenderingMode(TextRenderingMode.Invisible),
+      setCharacterSqueeze(squeeze),
+      setTextMatrix(1, 0, 0, 1, word.x, baseline),
+      showText(font.encodeText(text)),
+      endText(),
+      popGraphicsState()
+    );
+  }
+}
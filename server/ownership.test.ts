@@ -0,0 +1,146 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { PDFDocument } from "pdf-lib";
+import { startTestServer, registerUser } from "./test-server";
+import { storage } from "./storage";
+import { FONT_PATHS } from "./fonts";
+import type { Document, DocumentWithRole, FieldTemplate, FontSummary } from "@shared/schema";
+
+let server: Awaited<ReturnType<typeof startTestServer>>;
+let owner: string;
+let other: string;
+let document: Document;
+
+before(async () => {
+  server = await startTestServer();
+  owner = await registerUser(server.baseUrl, "owner");
+  other = await registerUser(server.baseUrl, "other");
+
+  const user = await storage.getUserByUsername("owner");
+  document = await storage.createDocument({
+    ownerId: user!.id,
+    filename: "uploads/missing.pdf",
+    originalName: "form.pdf",
+    mimeType: "application/pdf",
+    size: 0,
+  });
+  await storage.createTextField({ documentId: document.id, name: "name", x: 0, y: 0, width: 100, height: 20 });
+});
+
+after(() => server.close());
+
+const api = (cookie: string, method: string, path: string, body?: unknown) =>
+  fetch(`${server.baseUrl}/api${path}`, {
+    method,
+    headers: body ? { "Content-Type": "application/json", cookie } : { cookie },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+test("keeps templates to the account that saved them", async () => {
+  let response = await api(owner, "POST", "/templates", { name: "Intake", documentId: document.id });
+  assert.equal(response.status, 201);
+  const template = (await response.json()) as FieldTemplate;
+
+  response = await api(other, "GET", "/templates");
+  assert.deepEqual(await response.json(), []);
+  response = await api(other, "DELETE", `/templates/${template.id}`);
+  assert.equal(response.status, 404);
+
+  // Nor apply it to a document of their own
+  const otherUser = await storage.getUserByUsername("other");
+  const otherDocument = await storage.createDocument({
+    ownerId: otherUser!.id,
+    filename: "uploads/missing.pdf",
+    originalName: "other.pdf",
+    mimeType: "application/pdf",
+    size: 0,
+  });
+  response = await api(other, "POST", `/documents/${otherDocument.id}/apply-template`, { templateId: template.id });
+  assert.equal(response.status, 404);
+
+  response = await api(owner, "GET", "/templates");
+  assert.deepEqual(((await response.json()) as FieldTemplate[]).map((saved) => saved.id), [template.id]);
+});
+
+test("needs edit access to save a document's fields as a template", async () => {
+  const viewer = await storage.getUserByUsername("other");
+  await storage.saveDocumentShare({ documentId: document.id, userId: viewer!.id, role: "viewer" });
+
+  const response = await api(other, "POST", "/templates", { name: "Copied", documentId: document.id });
+  assert.equal(response.status, 404);
+  await storage.deleteDocumentShare(document.id, viewer!.id);
+});
+
+test("keeps uploaded fonts to the account that uploaded them", async () => {
+  const form = new FormData();
+  form.append("file", new Blob([fs.readFileSync(FONT_PATHS.Allura)]), "Allura-Regular.ttf");
+  form.append("family", "House Script");
+  let response = await fetch(`${server.baseUrl}/api/fonts`, { method: "POST", headers: { cookie: owner }, body: form });
+  assert.equal(response.status, 201);
+  const font = (await response.json()) as FontSummary;
+
+  try {
+    response = await api(other, "GET", "/fonts");
+    assert.deepEqual(await response.json(), []);
+    response = await api(other, "GET", `/fonts/${font.id}/file`);
+    assert.equal(response.status, 404);
+    response = await api(other, "DELETE", `/fonts/${font.id}`);
+    assert.equal(response.status, 404);
+
+    response = await api(owner, "GET", "/fonts");
+    const listed = (await response.json()) as FontSummary[];
+    assert.deepEqual(listed.map((saved) => saved.id), [font.id]);
+    assert.ok(!("filename" in listed[0]) && !("ownerId" in listed[0]));
+  } finally {
+    response = await api(owner, "DELETE", `/fonts/${font.id}`);
+    assert.equal(response.status, 200);
+  }
+});
+
+test("lists shared documents without where they're stored or who owns them", async () => {
+  const viewer = await storage.getUserByUsername("other");
+  await storage.saveDocumentShare({ documentId: document.id, userId: viewer!.id, role: "viewer" });
+
+  try {
+    const response = await api(other, "GET", "/documents");
+    const shared = ((await response.json()) as DocumentWithRole[]).find((listed) => listed.id === document.id);
+    assert.equal(shared?.role, "viewer");
+    assert.ok(!("filename" in shared!) && !("ownerId" in shared!));
+  } finally {
+    await storage.deleteDocumentShare(document.id, viewer!.id);
+  }
+});
+
+test("only restores fields that were deleted from the same document", async () => {
+  // Restoring checks the page index, so the documents need a real PDF
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.addPage();
+  const filename = path.join(os.tmpdir(), `restore-${Date.now()}.pdf`);
+  fs.writeFileSync(filename, await pdfDoc.save());
+
+  try {
+    const user = await storage.getUserByUsername("owner");
+    const newDocument = (originalName: string) =>
+      storage.createDocument({ ownerId: user!.id, filename, originalName, mimeType: "application/pdf", size: 0 });
+    const first = await newDocument("first.pdf");
+    const second = await newDocument("second.pdf");
+    const layout = { documentId: first.id, name: "gone", x: 0, y: 40, width: 100, height: 20 };
+    const field = await storage.createTextField(layout);
+    let response = await api(owner, "DELETE", `/text-fields/${field.id}`);
+    assert.equal(response.status, 200);
+
+    response = await api(owner, "PUT", `/text-fields/${field.id}`, { ...layout, documentId: second.id });
+    assert.equal(response.status, 404);
+    response = await api(owner, "PUT", "/text-fields/made-up-id", layout);
+    assert.equal(response.status, 404);
+
+    response = await api(owner, "PUT", `/text-fields/${field.id}`, layout);
+    assert.equal(response.status, 201);
+    assert.equal((await storage.getTextField(field.id))?.documentId, first.id);
+  } finally {
+    fs.rmSync(filename, { force: true });
+  }
+});
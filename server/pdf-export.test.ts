@@ -0,0 +1,112 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import { PDFDict, PDFDocument, PDFName, PDFRef, degrees } from "pdf-lib";
+import { buildFillablePdf } from "./pdf-export";
+import { extractFormFields } from "./acroform";
+import { FONT_PATHS } from "./fonts";
+import { textField } from "./test-fields";
+
+// A 600x400 page shown through a crop box offset from the media box origin
+async function pageWithRotation(rotation: number) {
+  const pdfDoc = await PDFDocument.create();
+  const page = pdfDoc.addPage([700, 500]);
+  page.setCropBox(50, 30, 600, 400);
+  page.setRotation(degrees(rotation));
+  return pdfDoc.save();
+}
+
+// The widget's rectangle less the half of pdf-lib's default 1pt border that
+// it adds on every side
+async function widgetRect(pdfBytes: Uint8Array, fieldName: string) {
+  const pdfDoc = await PDFDocument.load(pdfBytes);
+  const { x, y, width, height } = pdfDoc.getForm().getTextField(fieldName).acroField.getWidgets()[0].getRectangle();
+  return { x: x + 0.5, y: y + 0.5, width: width - 1, height: height - 1 };
+}
+
+// Field at (10, 20) from the displayed top-left, 100 wide and 30 tall
+const field = textField({ x: 10, y: 20, width: 100, height: 30 });
+
+test("places fields on an unrotated page relative to the crop box", async () => {
+  const output = await buildFillablePdf(await pageWithRotation(0), [field]);
+  assert.deepEqual(await widgetRect(output, field.name), { x: 60, y: 380, width: 100, height: 30 });
+});
+
+test("places fields on a page rotated 90 degrees", async () => {
+  // Displayed 400 wide and 600 tall; the displayed left edge is the page's bottom
+  const output = await buildFillablePdf(await pageWithRotation(90), [field]);
+  assert.deepEqual(await widgetRect(output, field.name), { x: 70, y: 40, width: 30, height: 100 });
+});
+
+test("places fields on a page rotated 180 degrees", async () => {
+  const output = await buildFillablePdf(await pageWithRotation(180), [field]);
+  assert.deepEqual(await widgetRect(output, field.name), { x: 540, y: 50, width: 100, height: 30 });
+});
+
+test("places fields on a page rotated 270 degrees", async () => {
+  const output = await buildFillablePdf(await pageWithRotation(270), [field]);
+  assert.deepEqual(await widgetRect(output, field.name), { x: 600, y: 320, width: 30, height: 100 });
+});
+
+test("turns the widget with the page so its text reads upright", async () => {
+  const output = await buildFillablePdf(await pageWithRotation(90), [field]);
+  const pdfDoc = await PDFDocument.load(output);
+  const widget = pdfDoc.getForm().getTextField(field.name).acroField.getWidgets()[0];
+  assert.equal(widget.getAppearanceCharacteristics()?.getRotation(), 90);
+});
+
+test("exports imported form fields back where they were", async () => {
+  for (const rotation of [0, 90, 180, 270]) {
+    const source = await PDFDocument.create();
+    const page = source.addPage([700, 500]);
+    page.setCropBox(50, 30, 600, 400);
+    page.setRotation(degrees(rotation));
+    source.getForm().createTextField("applicant").addToPage(page, { x: 100, y: 200, width: 80, height: 20 });
+    const original = source.getForm().getTextField("applicant").acroField.getWidgets()[0].getRectangle();
+
+    const imported = extractFormFields(source);
+    const output = await buildFillablePdf(await source.save(), [textField({ ...imported[0], id: "imported" })]);
+    const pdfDoc = await PDFDocument.load(output);
+    const exported = pdfDoc.getForm().getTextField("applicant").acroField.getWidgets()[0].getRectangle();
+    assert.deepEqual(exported, original, `rotated ${rotation} degrees`);
+  }
+});
+
+test("names exported fields the way FDF and merge columns do", async () => {
+  const output = await buildFillablePdf(await pageWithRotation(0), [
+    textField({ id: "a", name: "applicant" }),
+    textField({ id: "b", name: "applicant", y: 40 }),
+    textField({ id: "c", name: "applicant", type: "checkbox", y: 80 }),
+    textField({ id: "d", name: "Yes", type: "radio", groupName: "consent", exportValue: "yes", y: 120 }),
+    textField({ id: "e", name: "No", type: "radio", groupName: "consent", exportValue: "no", y: 160 }),
+  ]);
+  const form = (await PDFDocument.load(output)).getForm();
+  // Same-named text fields share one field; the check box can't, so it's renamed
+  assert.equal(form.getTextField("applicant").acroField.getWidgets().length, 2);
+  assert.ok(form.getCheckBox("applicant (2)"));
+  assert.deepEqual(form.getRadioGroup("consent").getOptions(), ["yes", "no"]);
+});
+
+// The fonts a field's appearance stream draws its text in
+function appearanceFonts(pdfDoc: PDFDocument, fieldName: string) {
+  const widget = pdfDoc.getForm().getTextField(fieldName).acroField.getWidgets()[0];
+  const appearance = pdfDoc.context.lookup(widget.getNormalAppearance() as PDFRef) as unknown as { dict: PDFDict };
+  const fonts = appearance.dict.lookup(PDFName.of("Resources"), PDFDict).lookup(PDFName.of("Font"), PDFDict);
+  return fonts.values().map((font) => String(pdfDoc.context.lookup(font, PDFDict).get(PDFName.of("BaseFont"))));
+}
+
+test("draws each field in its own font, and the rest in the export font", async () => {
+  const output = await buildFillablePdf(
+    await pageWithRotation(0),
+    [
+      textField({ id: "a", name: "signed", fontFamily: "Allura" }),
+      textField({ id: "b", name: "plain", y: 40 }),
+      textField({ id: "c", name: "missing", fontFamily: "Deleted Font", y: 80 }),
+    ],
+    { fieldFontBytes: new Map([["Allura", fs.readFileSync(FONT_PATHS.Allura)]]) }
+  );
+  const pdfDoc = await PDFDocument.load(output);
+  assert.match(appearanceFonts(pdfDoc, "signed")[0], /Allura/);
+  assert.deepEqual(appearanceFonts(pdfDoc, "plain"), ["/Helvetica"]);
+  assert.deepEqual(appearanceFonts(pdfDoc, "missing"), ["/Helvetica"]);
+});
@@ -0,0 +1,399 @@
+import fontkit from "@pdf-lib/fontkit";
+import {
+  PDFDocument,
+  PDFCheckBox,
+  PDFDict,
+  PDFDropdown,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFOptionList,
+  PDFPage,
+  PDFRadioGroup,
+  PDFTextField,
+  StandardFonts,
+  TextAlignment,
+  adjustDimsForRotation,
+  componentsToColor,
+  degrees,
+  drawImage,
+  drawTextField,
+  layoutSinglelineText,
+  reduceRotation,
+  rgb,
+  rotateInPlace,
+  rotateRectangle,
+  setFillingColor,
+  setFontAndSize,
+  type AppearanceProviderFor,
+  type PDFOperator,
+  type PDFFont,
+  type Rotation,
+} from "pdf-lib";
+import { type FieldValues, type TextAlign, type TextField } from "@shared/schema";
+import { fieldDataName } from "@shared/field-values";
+
+export interface BuildPdfOptions {
+  // TTF/OTF bytes for the export font; Helvetica is used when omitted
+  fontBytes?: Uint8Array | null;
+  // TTF/OTF bytes for the families fields were styled with, by family. Fields
+  // whose family isn't here (including the default Arial) use the export font.
+  fieldFontBytes?: Map<string, Uint8Array>;
+  // Values to fill in, keyed by field id; fields without one keep their defaults
+  values?: FieldValues;
+  // Burn the fields into the page content instead of leaving them editable
+  flatten?: boolean;
+}
+
+async function embedExportFont(pdfDoc: PDFDocument, fontBytes?: Uint8Array | null): Promise<PDFFont> {
+  if (!fontBytes) {
+    return pdfDoc.embedFont(StandardFonts.Helvetica);
+  }
+
+  pdfDoc.registerFontkit(fontkit);
+  return pdfDoc.embedFont(fontBytes, { subset: true });
+}
+
+const TEXT_ALIGNMENTS: Record<TextAlign, TextAlignment> = {
+  left: TextAlignment.Left,
+  center: TextAlignment.Center,
+  right: TextAlignment.Right,
+};
+
+// "#336699" -> rgb(0.2, 0.4, 0.6); anything unparsable falls back to black
+function hexToRgb(hex: string | null) {
+  const match = hex?.match(/^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  if (!match) return rgb(0, 0, 0);
+  const [r, g, b] = match.slice(1).map((component) => parseInt(component, 16) / 255);
+  return rgb(r, g, b);
+}
+
+// Same layout as pdf-lib's default text appearance, but with the field's own
+// padding instead of the fixed 1pt inset
+function paddedTextAppearance(field: TextField): AppearanceProviderFor<PDFTextField> {
+  return (textField, widget, font) => {
+    const rectangle = widget.getRectangle();
+    const borderWidth = widget.getBorderStyle()?.getWidth() ?? 0;
+    const characteristics = widget.getAppearanceCharacteristics();
+    // Widgets on rotated pages are turned with the page; lay the text out
+    // upright and rotate it into the widget like pdf-lib's own provider
+    const rotation = reduceRotation(characteristics?.getRotation());
+    const { width, height } = adjustDimsForRotation(rectangle, rotation);
+    const padding = field.padding ?? 2;
+    const inset = borderWidth + padding;
+    const textColor = hexToRgb(field.textColor);
+
+    // Keep the /DA in step so viewers regenerate the same look when editing;
+    // a size of 0 tells them to auto-size
+    widget.setDefaultAppearance(
+      [setFillingColor(textColor), setFontAndSize(font.name, field.fontSize ?? 0)].join("\n")
+    );
+
+    const layout = layoutSinglelineText(textField.getText() ?? "", {
+      alignment: textField.getAlignment(),
+      fontSize: field.fontSize ?? undefined,
+      font,
+      bounds: {
+        x: inset,
+        y: inset,
+        width: Math.max(width - inset * 2, 1),
+        height: Math.max(height - inset * 2, 1),
+      },
+    });
+
+    return [
+      ...rotateInPlace({ ...rectangle, rotation }),
+      ...drawTextField({
+        x: borderWidth / 2,
+        y: borderWidth / 2,
+        width: width - borderWidth,
+        height: height - borderWidth,
+        borderWidth,
+        borderColor: componentsToColor(characteristics?.getBorderColor()),
+        color: componentsToColor(characteristics?.getBackgroundColor()),
+        textColor,
+        font: font.name,
+        fontSize: layout.fontSize,
+        textLines: [layout.line],
+        padding,
+      }),
+    ];
+  };
+}
+
+// pdf-lib always names a check box's "on" appearance state /Yes; rename it so
+// the field reports the configured export value when checked
+function setCheckBoxExportValue(checkBox: PDFCheckBox, exportValue: string) {
+  if (exportValue === "Yes") return;
+
+  const onValue = PDFName.of(exportValue);
+  for (const widget of checkBox.acroField.getWidgets()) {
+    const appearances = widget.dict.lookup(PDFName.of("AP"), PDFDict);
+    for (const key of ["N", "D"]) {
+      const states = appearances.lookupMaybe(PDFName.of(key), PDFDict);
+      const onState = states?.get(PDFName.of("Yes"));
+      if (states && onState) {
+        states.delete(PDFName.of("Yes"));
+        states.set(onValue, onState);
+      }
+    }
+  }
+}
+
+// Choice values are export values, but pdf-lib selects by display text
+function toOptionLabels(field: TextField, values: string[]): string[] {
+  return values.map((value) => field.options?.find((option) => option.value === value)?.label ?? value);
+}
+
+// pdf-lib's setOptions only takes display strings, so write the option pairs
+// directly to keep export values separate from the text the user sees
+function setChoiceOptions(choice: PDFDropdown | PDFOptionList, field: TextField) {
+  const options = field.options ?? [];
+  choice.acroField.setOptions(
+    options.map((option) => ({
+      value: PDFHexString.fromText(option.value),
+      display: PDFHexString.fromText(option.label),
+    }))
+  );
+
+  // pdf-lib matches selections against the display text, not the export value
+  const selected = options.filter((option) => option.selected);
+  if (selected.length > 0) {
+    choice.select(selected.map((option) => option.label));
+  }
+}
+
+// pdf-lib has no API for signature fields, so build the /Sig field by hand
+// as a merged field and widget dictionary
+function addSignatureField(
+  pdfDoc: PDFDocument,
+  page: PDFPage,
+  name: string,
+  rect: { x: number; y: number; width: number; height: number }
+): PDFDict {
+  const widget = pdfDoc.context.obj({
+    Type: "Annot",
+    Subtype: "Widget",
+    FT: "Sig",
+    T: PDFHexString.fromText(name),
+    Rect: [rect.x, rect.y, rect.x + rect.width, rect.y + rect.height],
+    F: PDFNumber.of(4), // print
+    P: page.ref,
+  });
+  const widgetRef = pdfDoc.context.register(widget);
+  page.node.addAnnot(widgetRef);
+  pdfDoc.getForm().acroForm.addField(widgetRef);
+  return widget;
+}
+
+// Draws the captured signature, scaled to fit and centred, as the widget's
+// normal appearance; unsigned fields get an empty one so they can be flattened
+async function setSignatureAppearance(
+  pdfDoc: PDFDocument,
+  widget: PDFDict,
+  dataUrl: string | null,
+  placement: WidgetPlacement
+) {
+  const rotation = reduceRotation(placement.rotate.angle);
+  const rect = rotateRectangle(placement, 0, rotation);
+  let operators: PDFOperator[] = [];
+  let resources = {};
+  if (dataUrl) {
+    const { width, height } = placement;
+    const image = await pdfDoc.embedPng(dataUrl);
+    const scale = Math.min(width / image.width, height / image.height);
+    const drawnWidth = image.width * scale;
+    const drawnHeight = image.height * scale;
+    operators = [
+      ...rotateInPlace({ ...rect, rotation }),
+      ...drawImage("Signature", {
+        x: (width - drawnWidth) / 2,
+        y: (height - drawnHeight) / 2,
+        width: drawnWidth,
+        height: drawnHeight,
+        rotate: degrees(0),
+        xSkew: degrees(0),
+        ySkew: degrees(0),
+      }),
+    ];
+    resources = { XObject: { Signature: image.ref } };
+  }
+
+  const appearance = pdfDoc.context.formXObject(operators, {
+    BBox: [0, 0, rect.width, rect.height],
+    Resources: resources,
+  });
+  widget.set(PDFName.of("AP"), pdfDoc.context.obj({ N: pdfDoc.context.register(appearance) }));
+}
+
+interface WidgetPlacement {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotate: Rotation;
+}
+
+// Fields store a top-left origin on the page as displayed, i.e. within the
+// crop box and after /Rotate. pdf-lib measures from the bottom-left of the
+// unrotated page and, given a rotation, turns the widget about (x, y), so pick
+// the corner that lands it back on the displayed spot.
+function widgetPlacement(page: PDFPage, field: TextField): WidgetPlacement {
+  const box = page.getCropBox();
+  const rotation = reduceRotation(page.getRotation().angle);
+  const { x, y, width, height } = field;
+
+  let corner: { x: number; y: number };
+  if (rotation === 90) {
+    corner = { x: box.x + y + height, y: box.y + x };
+  } else if (rotation === 180) {
+    corner = { x: box.x + box.width - x, y: box.y + y + height };
+  } else if (rotation === 270) {
+    corner = { x: box.x + box.width - y - height, y: box.y + box.height - x };
+  } else {
+    corner = { x: box.x + x, y: box.y + box.height - y - height };
+  }
+  return { ...corner, width, height, rotate: degrees(rotation) };
+}
+
+// The reverse for a widget rectangle read from a PDF: where it shows on the
+// displayed page, in the top-left, crop box relative space fields use
+export function displayedRect(
+  page: PDFPage,
+  rect: { x: number; y: number; width: number; height: number }
+): { x: number; y: number; width: number; height: number } {
+  const box = page.getCropBox();
+  const rotation = reduceRotation(page.getRotation().angle);
+  const right = box.x + box.width - rect.x - rect.width;
+  const top = box.y + box.height - rect.y - rect.height;
+
+  if (rotation === 90) {
+    return { x: rect.y - box.y, y: rect.x - box.x, width: rect.height, height: rect.width };
+  } else if (rotation === 180) {
+    return { x: right, y: rect.y - box.y, width: rect.width, height: rect.height };
+  } else if (rotation === 270) {
+    return { x: top, y: right, width: rect.height, height: rect.width };
+  }
+  return { x: rect.x - box.x, y: top, width: rect.width, height: rect.height };
+}
+
+// Adds a live form field for every stored field to the source PDF, filling in
+// any supplied values
+export async function buildFillablePdf(
+  pdfBytes: Uint8Array,
+  textFields: TextField[],
+  options: BuildPdfOptions = {}
+): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.load(pdfBytes);
+  const embeddedFont = await embedExportFont(pdfDoc, options.fontBytes);
+  const fieldFonts = new Map<string, PDFFont>();
+  for (const [family, bytes] of Array.from(options.fieldFontBytes ?? [])) {
+    fieldFonts.set(family, await embedExportFont(pdfDoc, bytes));
+  }
+  const fontFor = (field: TextField) => fieldFonts.get(field.fontFamily ?? "") ?? embeddedFont;
+
+  const pages = pdfDoc.getPages();
+  const form = pdfDoc.getForm();
+  const radioGroups = new Map<string, PDFRadioGroup>();
+  const sharedTextFields = new Map<string, PDFTextField>();
+  const values = options.values ?? {};
+
+  // Fields go by the same names as in FDF/XFDF and merge columns. Names have
+  // to be unique in a PDF: text fields sharing one become widgets of a single
+  // field, mirroring each other as they would in any viewer, and any other
+  // clash gets a numbered name.
+  const takenNames = new Set<string>();
+  const uniqueName = (name: string) => {
+    let candidate = name;
+    for (let n = 2; takenNames.has(candidate); n++) candidate = `${name} (${n})`;
+    takenNames.add(candidate);
+    return candidate;
+  };
+
+  for (const field of textFields) {
+    // Fields are checked against the page count when saved; one that still
+    // points past the end (e.g. stored before that check) is left out rather
+    // than moved onto another page
+    const page = pages[field.pageIndex];
+    if (!page) continue;
+
+    const placement = widgetPlacement(page, field);
+    const rect = { ...placement, textColor: hexToRgb(field.textColor) };
+    const name = fieldDataName(field) || field.id;
+
+    if (field.type === "checkbox") {
+      const checkBox = form.createCheckBox(uniqueName(name));
+      checkBox.addToPage(page, rect);
+      setCheckBoxExportValue(checkBox, field.exportValue || "Yes");
+      if (values[field.id] === true) checkBox.check();
+    } else if (field.type === "radio") {
+      // Every widget in a group becomes one option of a single field
+      let radioGroup = radioGroups.get(name);
+      if (!radioGroup) {
+        radioGroup = form.createRadioGroup(uniqueName(name));
+        radioGroups.set(name, radioGroup);
+      }
+      const option = field.exportValue || field.name;
+      radioGroup.addOptionToPage(option, page, rect);
+      if (values[field.id] === true) radioGroup.select(option);
+    } else if (field.type === "dropdown") {
+      const dropdown = form.createDropdown(uniqueName(name));
+      setChoiceOptions(dropdown, field);
+      if (field.allowCustomText) dropdown.enableEditing();
+      const value = values[field.id];
+      if (typeof value === "string") {
+        if (value) dropdown.select(toOptionLabels(field, [value])[0]);
+        else dropdown.clear();
+      }
+      dropdown.addToPage(page, rect);
+      if (field.fontSize) dropdown.setFontSize(field.fontSize);
+      dropdown.updateAppearances(fontFor(field));
+    } else if (field.type === "signature") {
+      const value = values[field.id];
+      const signature = typeof value === "string" ? value : field.signatureImage;
+      const widget = addSignatureField(pdfDoc, page, uniqueName(name), rotateRectangle(placement, 0, placement.rotate.angle));
+      await setSignatureAppearance(pdfDoc, widget, signature || null, placement);
+    } else if (field.type === "listbox") {
+      const optionList = form.createOptionList(uniqueName(name));
+      setChoiceOptions(optionList, field);
+      if (field.multiSelect) optionList.enableMultiselect();
+      const value = values[field.id];
+      if (Array.isArray(value)) {
+        if (value.length > 0) optionList.select(toOptionLabels(field, value));
+        else optionList.clear();
+      }
+      optionList.addToPage(page, rect);
+      if (field.fontSize) optionList.setFontSize(field.fontSize);
+      optionList.updateAppearances(fontFor(field));
+    } else {
+      let textField = sharedTextFields.get(name);
+      if (!textField) {
+        textField = form.createTextField(uniqueName(name));
+        sharedTextFields.set(name, textField);
+      }
+      const value = values[field.id];
+      if (typeof value === "string") textField.setText(value);
+      textField.addToPage(page, rect);
+      textField.setAlignment(TEXT_ALIGNMENTS[field.textAlign ?? "left"]);
+      if (field.fontSize) textField.setFontSize(field.fontSize);
+      textField.updateAppearances(fontFor(field), paddedTextAppearance(field)); // <-- apply chosen font
+    }
+  }
+
+  if (options.flatten) {
+    form.flatten();
+  }
+
+  return pdfDoc.save();
+}
+
+// Concatenates whole documents, page by page, into a single PDF
+export async function mergePdfs(pdfs: Uint8Array[]): Promise<Uint8Array> {
+  const merged = await PDFDocument.create();
+  for (const bytes of pdfs) {
+    const source = await PDFDocument.load(bytes);
+    const pages = await merged.copyPages(source, source.getPageIndices());
+    pages.forEach((page) => merged.addPage(page));
+  }
+  return merged.save();
+}
@@ -0,0 +1,90 @@
+import {
+  getDocument,
+  VerbosityLevel,
+  type PDFDocumentProxy,
+  type PDFPageProxy,
+  type PageViewport,
+} from "pdfjs-dist/legacy/build/pdf.mjs";
+
+// Positions are in the editor's space: points from the page's top-left
+// corner, after rotation
+
+export type Matrix = [number, number, number, number, number, number];
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TextBox extends Rect {
+  text: string;
+  fontSize: number;
+}
+
+export const applyMatrix = (m: Matrix, x: number, y: number): [number, number] => [
+  m[0] * x + m[2] * y + m[4],
+  m[1] * x + m[3] * y + m[5],
+];
+
+export function loadPdf(pdfBytes: Uint8Array): Promise<PDFDocumentProxy> {
+  return getDocument({
+    data: new Uint8Array(pdfBytes),
+    isEvalSupported: false,
+    verbosity: VerbosityLevel.ERRORS,
+  }).promise;
+}
+
+// Text items become text boxes; runs of underscores become blanks. Pieces
+// of an item are placed by character count, which is close enough for labels.
+export async function readPageText(page: PDFPageProxy, viewport: PageViewport) {
+  const content = await page.getTextContent();
+  const transform = viewport.transform as Matrix;
+  const text: TextBox[] = [];
+  const underscores: Rect[] = [];
+
+  for (const item of content.items) {
+    if (!("str" in item) || !item.str.trim()) continue;
+    const [a, b, c, d, e, f] = item.transform as Matrix;
+    // Rotated text never labels or sits in a horizontal blank
+    if (Math.abs(b) > 1e-3 || Math.abs(c) > 1e-3) continue;
+
+    const fontSize = Math.abs(d) || item.height || 10;
+    const charWidth = item.width / item.str.length;
+    const pieces = Array.from(item.str.matchAll(/_{3,}|[^_\s]+(?:\s+[^_\s]+)*/g));
+
+    for (const piece of pieces) {
+      const start = piece.index ?? 0;
+      const [left, baseline] = applyMatrix(transform, e + start * charWidth * Math.sign(a || 1), f);
+      const [right] = applyMatrix(transform, e + (start + piece[0].length) * charWidth * Math.sign(a || 1), f);
+      const x = Math.min(left, right);
+      const width = Math.abs(right - left);
+
+      if (piece[0].startsWith("_")) {
+        const height = Math.max(fontSize * 1.4, 14);
+        underscores.push({ x, y: baseline + fontSize * 0.2 - height, width, height });
+      } else {
+        text.push({ x, y: baseline - fontSize * 0.8, width, height: fontSize, text: piece[0], fontSize });
+      }
+    }
+  }
+
+  return { text, underscores };
+}
+
+// Every page's text boxes, indexed like pageIndex
+export async function extractPageText(pdfBytes: Uint8Array): Promise<TextBox[][]> {
+  const pdf = await loadPdf(pdfBytes);
+  const pages: TextBox[][] = [];
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      pages.push((await readPageText(page, page.getViewport({ scale: 1 }))).text);
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+  return pages;
+}
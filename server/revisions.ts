@@ -0,0 +1,170 @@
+import type { Request } from "express";
+import { storage } from "./storage";
+import type { FieldRevision, FieldRevisionChange, TextField } from "@shared/schema";
+
+// Edits to the same field by the same person within this window share a revision
+const COALESCE_WINDOW_MS = 60 * 1000;
+
+// Who made a change
+export const revisionAuthor = (req: Request): string | null => req.user?.username ?? null;
+
+export const createdChange = (field: TextField): FieldRevisionChange => ({
+  fieldId: field.id,
+  action: "create",
+  before: null,
+  after: field,
+});
+
+export const deletedChange = (field: TextField): FieldRevisionChange => ({
+  fieldId: field.id,
+  action: "delete",
+  before: field,
+  after: null,
+});
+
+// Only the properties that differ, or null when nothing did
+export function updatedChange(before: TextField, after: TextField): FieldRevisionChange | null {
+  const keys = (Object.keys(after) as (keyof TextField)[]).filter(
+    (key) => JSON.stringify(before[key] ?? null) !== JSON.stringify(after[key] ?? null)
+  );
+  if (keys.length === 0) return null;
+
+  return {
+    fieldId: after.id,
+    action: "update",
+    before: Object.fromEntries(keys.map((key) => [key, before[key]])),
+    after: Object.fromEntries(keys.map((key) => [key, after[key]])),
+  };
+}
+
+type Layout = Map<string, TextField>;
+
+function applyChange(layout: Layout, change: FieldRevisionChange, direction: "forward" | "back") {
+  const adds = direction === "forward" ? change.action === "create" : change.action === "delete";
+  const removes = direction === "forward" ? change.action === "delete" : change.action === "create";
+  const values = direction === "forward" ? change.after : change.before;
+
+  if (adds) {
+    layout.set(change.fieldId, values as TextField);
+  } else if (removes) {
+    layout.delete(change.fieldId);
+  } else {
+    const existing = layout.get(change.fieldId);
+    if (existing) layout.set(change.fieldId, { ...existing, ...values });
+  }
+}
+
+// The fields as they stood right after revision `number`; 0 is the empty layout
+export function layoutAtRevision(revisions: FieldRevision[], number: number): TextField[] {
+  const layout: Layout = new Map();
+  for (const revision of revisions) {
+    if (revision.number > number) break;
+    for (const change of revision.changes) {
+      applyChange(layout, change, "forward");
+    }
+  }
+  return Array.from(layout.values());
+}
+
+// The changes that turn one layout into another
+export function diffLayouts(from: TextField[], to: TextField[]): FieldRevisionChange[] {
+  const fromById = new Map(from.map((field) => [field.id, field]));
+  const toIds = new Set(to.map((field) => field.id));
+  const changes: FieldRevisionChange[] = [];
+
+  for (const field of to) {
+    const previous = fromById.get(field.id);
+    const change = previous ? updatedChange(previous, field) : createdChange(field);
+    if (change) changes.push(change);
+  }
+  for (const field of from) {
+    if (!toIds.has(field.id)) changes.push(deletedChange(field));
+  }
+  return changes;
+}
+
+// Folding a quick follow-up edit into the previous revision keeps typing or
+// nudging a field from filling the log with one revision per keystroke
+function canCoalesce(last: FieldRevision | undefined, author: string | null, changes: FieldRevisionChange[]) {
+  return (
+    last !== undefined &&
+    last.author === author &&
+    last.changes.length === 1 &&
+    changes.length === 1 &&
+    last.changes[0].action === "update" &&
+    changes[0].action === "update" &&
+    last.changes[0].fieldId === changes[0].fieldId &&
+    Date.now() - last.createdAt.getTime() < COALESCE_WINDOW_MS
+  );
+}
+
+// The revision each document is busy recording. Recording reads the log before
+// appending to it, so writes to one document queue up behind each other.
+const recording = new Map<string, Promise<unknown>>();
+
+// Logs changes that have already been made to a document's fields, in the
+// order they're handed over rather than the order storage gets to them
+export function recordRevision(
+  documentId: string,
+  author: string | null,
+  summary: string,
+  changes: FieldRevisionChange[],
+  options: { coalesce?: boolean } = {}
+): Promise<FieldRevision | undefined> {
+  if (changes.length === 0) return Promise.resolve(undefined);
+
+  const previous = recording.get(documentId) ?? Promise.resolve();
+  const recorded = previous
+    .catch(() => undefined)
+    .then(() => appendRevision(documentId, author, summary, changes, options));
+  recording.set(documentId, recorded);
+  recorded
+    .catch(() => undefined)
+    .then(() => {
+      if (recording.get(documentId) === recorded) recording.delete(documentId);
+    });
+  return recorded;
+}
+
+async function appendRevision(
+  documentId: string,
+  author: string | null,
+  summary: string,
+  changes: FieldRevisionChange[],
+  options: { coalesce?: boolean }
+): Promise<FieldRevision | undefined> {
+  const revisions = await storage.getFieldRevisions(documentId);
+  const last = revisions[revisions.length - 1];
+
+  if (options.coalesce && last && canCoalesce(last, author, changes)) {
+    const [earlier] = last.changes;
+    const [later] = changes;
+    return storage.updateFieldRevision(last.id, {
+      summary,
+      changes: [{
+        ...earlier,
+        before: { ...later.before, ...earlier.before },
+        after: { ...earlier.after, ...later.after },
+      }],
+    });
+  }
+
+  // Documents from before the log existed start with a revision holding the
+  // fields they already had, so replaying from revision 1 stays complete
+  if (!last) {
+    const layout: Layout = new Map((await storage.getTextFieldsByDocument(documentId)).map((field) => [field.id, field]));
+    for (const change of [...changes].reverse()) {
+      applyChange(layout, change, "back");
+    }
+    if (layout.size > 0) {
+      await storage.createFieldRevision({
+        documentId,
+        author: null,
+        summary: "Fields before revision history",
+        changes: Array.from(layout.values()).map(createdChange),
+      });
+    }
+  }
+
+  return storage.createFieldRevision({ documentId, author, summary, changes });
+}
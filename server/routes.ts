@@ -1,11 +1,78 @@
-import type { Express } from "express";
+import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
+import { extractFormFields } from "./acroform";
+import { buildFillablePdf, mergePdfs } from "./pdf-export";
+import { loadFontBytes, readFontInfo } from "./fonts";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
-import { insertDocumentSchema, insertTextFieldSchema } from "@shared/schema";
-import { PDFDocument } from "pdf-lib";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import {
+  insertDocumentSchema,
+  insertUserSchema,
+  insertTextFieldSchema,
+  insertFontSchema,
+  builtInFonts,
+  updateTextFieldSchema,
+  exportPdfSchema,
+  fillPdfSchema,
+  batchFillSchema,
+  MAX_BATCH_ROWS,
+  saveTemplateSchema,
+  applyTemplateSchema,
+  importLayoutSchema,
+  shareDocumentSchema,
+  createShareLinkSchema,
+  type Document,
+  type DocumentRole,
+  type DocumentSummary,
+  type DocumentWithRole,
+  type CustomFont,
+  type FontSummary,
+  type TextField,
+  type User,
+  type FieldNameProposal,
+  type FieldRevisionChange,
+  type RevisionDiff,
+  type LayoutField,
+  type OcrWord,
+} from "@shared/schema";
+import {
+  fieldDataName,
+  findInvalidFieldValues,
+  storedFieldValues,
+  validateFieldValues,
+} from "@shared/field-values";
+import { parseCsvRows, rowToFieldValues, type BatchRow } from "@shared/batch-fill";
+import { buildFdf, buildXfdf, parseFdf, parseXfdf } from "./fdf";
+import { detectFields, detectPageLines } from "./field-detection";
+import { nameFromLabels } from "./field-labels";
+import { extractPageText } from "./pdf-text";
+import { drawInvisibleText, recognizeImage, type OcrResult } from "./ocr";
+import { broadcastFieldChanges, closeDocumentSockets, collaboratorId, setupCollaboration } from "./collaboration";
+import { hashPassword, publicUser, requireAuth, setupAuth } from "./auth";
+import { createShareToken, documentRole, hasRole, shareLinkAccess } from "./sharing";
+import passport from "passport";
+import {
+  createdChange,
+  deletedChange,
+  diffLayouts,
+  layoutAtRevision,
+  recordRevision,
+  revisionAuthor,
+  updatedChange,
+} from "./revisions";
+import {
+  adjustLayoutField,
+  buildLayoutFile,
+  countPdfPages,
+  parseLayoutFile,
+  toLayoutField,
+} from "./templates";
+import JSZip from "jszip";
+import { PDFDocument, StandardFonts } from "pdf-lib";
 import sharp from "sharp";
 
 // --- setup uploads
@@ -31,12 +98,211 @@ const upload = multer({
   },
 });
 
-// --- font paths
-const FONT_PATHS: Record<string, string> = {
-  Arial: path.resolve("fonts/Arial.ttf"), // requires a copy placed in /fonts
-  Allura: path.resolve("fonts/Allura-Regular.ttf"),
-  "Dancing Script": path.resolve("fonts/DancingScript-VariableFont_wght.ttf"),
-};
+// Fonts arrive with all sorts of mimetypes, so check the extension instead;
+// the contents are validated with fontkit once the upload lands
+const fontUpload = multer({
+  dest: "uploads/",
+  limits: { fileSize: 10 * 1024 * 1024 }, // 10MB limit
+  fileFilter: (req, file, cb) => {
+    if ([".ttf", ".otf"].includes(path.extname(file.originalname).toLowerCase())) {
+      cb(null, true);
+    } else {
+      cb(new Error("Invalid font file. Only TTF and OTF files are allowed."));
+    }
+  },
+});
+
+// FDF/XFDF imports are small and only parsed, so keep them in memory
+const fieldDataUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 2 * 1024 * 1024 }, // 2MB limit
+  fileFilter: (req, file, cb) => {
+    if ([".fdf", ".xfdf"].includes(path.extname(file.originalname).toLowerCase())) {
+      cb(null, true);
+    } else {
+      cb(new Error("Invalid field data file. Only FDF and XFDF files are allowed."));
+    }
+  },
+});
+
+const layoutUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 2 * 1024 * 1024 }, // 2MB limit
+  fileFilter: (req, file, cb) => {
+    if (path.extname(file.originalname).toLowerCase() === ".json") {
+      cb(null, true);
+    } else {
+      cb(new Error("Invalid layout file. Only JSON files are allowed."));
+    }
+  },
+});
+
+// Multer reports rejected files through next(); answer those with a 400
+// instead of letting them fall through to the generic 500 handler
+function uploadSingleFile(uploader: multer.Multer) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    uploader.single("file")(req, res, (err: unknown) => {
+      if (err) {
+        return res.status(400).json({
+          message: err instanceof Error ? err.message : "Upload failed",
+        });
+      }
+      next();
+    });
+  };
+}
+
+// Sends a 400 for validation errors and a 500 for everything else
+function handleError(res: Response, err: unknown, context: string) {
+  if (err instanceof z.ZodError) {
+    return res.status(400).json({ message: fromZodError(err).toString() });
+  }
+
+  console.error(`${context} error:`, err);
+  res.status(500).json({
+    message: err instanceof Error ? err.message : "Internal Server Error",
+  });
+}
+
+const downloadBaseName = (document: Document) => document.originalName.replace(/\.[^/.]+$/, "");
+
+// Sends generated bytes as a download named after the original upload
+function sendAttachment(res: Response, filename: string, contentType: string, bytes: Uint8Array) {
+  res.setHeader("Content-Type", contentType);
+  res.setHeader("Content-Disposition", `attachment; filename="${encodeURIComponent(filename)}"`);
+  res.send(Buffer.from(bytes));
+}
+
+// Fields have to sit on a page the document actually has
+async function pageIndexError(document: Document, pageIndex: number | undefined) {
+  const pageCount = await countPdfPages(document.filename);
+  if ((pageIndex ?? 0) < pageCount) return null;
+  return `Page ${(pageIndex ?? 0) + 1} doesn't exist; the document has ${pageCount} ${pageCount === 1 ? "page" : "pages"}`;
+}
+
+// Creates layout fields on a document, optionally clearing it first, and
+// commits it all as one revision; fields on pages the document doesn't have are skipped
+async function addLayoutFields(
+  req: Request,
+  document: Document,
+  fields: LayoutField[],
+  replaceExisting: boolean,
+  summary: string
+) {
+  const removed = replaceExisting ? await storage.getTextFieldsByDocument(document.id) : [];
+  await Promise.all(removed.map((field) => storage.deleteTextField(field.id)));
+
+  const pageCount = await countPdfPages(document.filename);
+  const applicable = fields.filter((field) => (field.pageIndex ?? 0) < pageCount);
+  const created = [];
+  for (const field of applicable) {
+    created.push(await storage.createTextField({ ...field, documentId: document.id }));
+  }
+
+  await commitFieldChanges(req, document.id, summary, [
+    ...removed.map(deletedChange),
+    ...created.map(createdChange),
+  ]);
+  return { created, skipped: fields.length - applicable.length };
+}
+
+// The document, if it exists and the request may act on it as `role`.
+// Documents someone can't act on that way get the same 404 as missing ones.
+async function findDocument(req: Request, id: string, role: DocumentRole) {
+  const document = await storage.getDocument(id);
+  return document && hasRole(await documentRole(req.user, document, req.shareLink), role) ? document : undefined;
+}
+
+async function findTextField(req: Request, id: string, role: DocumentRole) {
+  const textField = await storage.getTextField(id);
+  return textField && (await findDocument(req, textField.documentId, role)) ? textField : undefined;
+}
+
+// Documents and fonts as the API lists them, without storage details
+function listedDocument({ filename, ownerId, ...document }: Document, role: DocumentRole): DocumentWithRole {
+  return { ...document, role };
+}
+
+function fontSummary({ filename, ownerId, ...font }: CustomFont): FontSummary {
+  return font;
+}
+
+// Whose uploaded fonts a request can use: on a share link, those of the owner
+// who styled the document; otherwise the signed-in user's own
+async function fontOwnerId(req: Request): Promise<string | null> {
+  if (req.shareLink) {
+    const document = await storage.getDocument(req.shareLink.documentId);
+    return document?.ownerId ?? null;
+  }
+  return req.user!.id;
+}
+
+// The fonts a document's fields were styled with, other than the default
+// Arial, from the caller's uploads or else the document owner's. Families that
+// can't be found are left out and export in the chosen export font.
+async function loadFieldFonts(req: Request, document: Document, textFields: TextField[]) {
+  const families = new Set(textFields.map((field) => field.fontFamily ?? "Arial"));
+  families.delete("Arial");
+  const ownerIds = Array.from(new Set([await fontOwnerId(req), document.ownerId]));
+  const fonts = new Map<string, Uint8Array>();
+  for (const family of Array.from(families)) {
+    for (const ownerId of ownerIds) {
+      const bytes = await loadFontBytes(family, ownerId);
+      if (bytes) {
+        fonts.set(family, bytes);
+        break;
+      }
+    }
+  }
+  return fonts;
+}
+
+// Logs changes that have been saved to a document's fields and sends them to
+// everyone else editing it. Call it as soon as the write resolves: both the
+// broadcast seq and the revision log take their order from these calls.
+async function commitFieldChanges(
+  req: Request,
+  documentId: string,
+  summary: string,
+  changes: FieldRevisionChange[],
+  options: { coalesce?: boolean } = {}
+) {
+  broadcastFieldChanges(documentId, changes, collaboratorId(req));
+  await recordRevision(documentId, revisionAuthor(req), summary, changes, options);
+}
+
+// Parses a revision number from the URL or query; 0 stands for the empty
+// layout before any revision
+const revisionNumberSchema = z.coerce.number().int().min(0);
+
+function sendPdfAttachment(res: Response, document: Document, suffix: string, pdfBytes: Uint8Array) {
+  sendAttachment(res, `${downloadBaseName(document)}_${suffix}.pdf`, "application/pdf", pdfBytes);
+}
+
+// Wraps an uploaded PNG/JPG in a single-page PDF sized to the image, with any
+// OCR words laid invisibly over it
+async function imageToPdf(filePath: string, mimetype: string, words: OcrWord[] = []): Promise<Uint8Array> {
+  const image = sharp(filePath);
+  const metadata = await image.metadata();
+  const width = metadata.width ?? 595;
+  const height = metadata.height ?? 842;
+
+  const pdfDoc = await PDFDocument.create();
+  const page = pdfDoc.addPage([width, height]);
+  const imageBuffer = await image.toBuffer();
+
+  const embeddedImage =
+    mimetype === "image/png"
+      ? await pdfDoc.embedPng(imageBuffer)
+      : await pdfDoc.embedJpg(imageBuffer);
+  page.drawImage(embeddedImage, { x: 0, y: 0, width, height });
+
+  if (words.length > 0) {
+    drawInvisibleText(page, await pdfDoc.embedFont(StandardFonts.Helvetica), words);
+  }
+
+  return pdfDoc.save();
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Ensure uploads directory exists
@@ -49,135 +315,1014 @@ export async function registerRoutes(app: Express): Promise<Server> {
     fs.mkdirSync("fonts");
   }
 
-  // Upload route for PDFs/images
-  app.post("/upload", upload.single("file"), async (req, res) => {
+  setupAuth(app);
+
+  // --- accounts
+
+  app.post("/api/register", async (req, res, next) => {
+    try {
+      const body = insertUserSchema.parse(req.body);
+      if (await storage.getUserByUsername(body.username)) {
+        return res.status(409).json({ message: "That username is taken" });
+      }
+
+      const user = await storage.createUser({ ...body, password: await hashPassword(body.password) });
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(publicUser(user));
+      });
+    } catch (err) {
+      handleError(res, err, "Register");
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (err: unknown, user: User | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ message: "Wrong username or password" });
+      }
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json(publicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      res.json({ success: true });
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Not signed in" });
+    }
+    res.json(publicUser(req.user));
+  });
+
+  // Everything below needs a signed-in user, or a share link on the fill view
+  app.use("/api", shareLinkAccess);
+  app.use("/api", requireAuth);
+
+  // --- documents
+
+  app.get("/api/documents", async (req, res) => {
+    try {
+      const owned = (await storage.getDocumentsByOwner(req.user!.id)).map((document) => listedDocument(document, "owner"));
+      const shared = (await storage.getDocumentsSharedWith(req.user!.id)).map(({ role, ...document }) =>
+        listedDocument(document, role)
+      );
+      res.json([...owned, ...shared]);
+    } catch (err) {
+      handleError(res, err, "List documents");
+    }
+  });
+
+  // Upload a PDF/image. Images are stored as a single-page PDF so every
+  // document can be rendered and exported the same way.
+  app.post("/api/documents", uploadSingleFile(upload), async (req, res) => {
     try {
       if (!req.file) {
-        return res.status(400).json({ error: "No file uploaded" });
+        return res.status(400).json({ message: "No file uploaded" });
       }
 
       const { originalname, path: filePath, mimetype } = req.file;
 
-      let pdfBuffer: Buffer;
-      if (mimetype === "application/pdf") {
-        pdfBuffer = fs.readFileSync(filePath);
-      } else {
-        // Convert image to PDF
-        const image = sharp(filePath);
-        const metadata = await image.metadata();
-
-        const pdfDoc = await PDFDocument.create();
-        const page = pdfDoc.addPage([
-          metadata.width ?? 595,
-          metadata.height ?? 842,
-        ]);
-        const imageBuffer = await image.toBuffer();
-
-        if (mimetype === "image/png") {
-          const pngImage = await pdfDoc.embedPng(imageBuffer);
-          page.drawImage(pngImage, {
-            x: 0,
-            y: 0,
-            width: metadata.width ?? 595,
-            height: metadata.height ?? 842,
-          });
-        } else {
-          const jpgImage = await pdfDoc.embedJpg(imageBuffer);
-          page.drawImage(jpgImage, {
-            x: 0,
-            y: 0,
-            width: metadata.width ?? 595,
-            height: metadata.height ?? 842,
-          });
+      // Scans have no text layer; recognize one. A failed OCR still keeps the upload.
+      let ocr: OcrResult | null = null;
+      if (mimetype !== "application/pdf") {
+        try {
+          ocr = await recognizeImage(filePath);
+        } catch (err) {
+          console.error("OCR error:", err);
         }
+      }
+
+      let pdfBytes: Uint8Array =
+        mimetype === "application/pdf"
+          ? fs.readFileSync(filePath)
+          : await imageToPdf(filePath, mimetype, ocr?.words);
 
-        pdfBuffer = await pdfDoc.save();
+      // pdf-lib can't write fields into an encrypted PDF without breaking it, so
+      // every export would fail; say so now instead
+      const sourcePdf = await PDFDocument.load(pdfBytes, { ignoreEncryption: true });
+      if (sourcePdf.isEncrypted) {
+        fs.rmSync(filePath, { force: true });
+        return res.status(400).json({
+          message: "This PDF is encrypted. Remove its password or restrictions and upload it again.",
+        });
       }
 
-      // Save document in storage
-      const document = insertDocumentSchema.parse({
-        name: originalname,
-        data: pdfBuffer,
+      // Pull any existing form fields into the editor instead of keeping them in the file
+      const importedFields = extractFormFields(sourcePdf);
+      if (importedFields.length > 0) {
+        pdfBytes = await sourcePdf.save();
+      }
+
+      // Replace the upload with the PDF we actually keep
+      if (mimetype !== "application/pdf" || importedFields.length > 0) {
+        fs.writeFileSync(filePath, pdfBytes);
+      }
+
+      const { width, height } = sourcePdf.getPage(0).getSize();
+      const document = await storage.createDocument(
+        insertDocumentSchema.parse({
+          ownerId: req.user!.id,
+          filename: filePath,
+          originalName: originalname,
+          mimeType: "application/pdf",
+          size: pdfBytes.length,
+          width,
+          height,
+        })
+      );
+
+      const created = [];
+      for (const field of importedFields) {
+        created.push(await storage.createTextField({ ...field, documentId: document.id }));
+      }
+      await commitFieldChanges(
+        req,
+        document.id,
+        `Imported ${created.length} ${created.length === 1 ? "field" : "fields"} from the PDF`,
+        created.map(createdChange)
+      );
+      if (ocr) {
+        await storage.createOcrPage({ documentId: document.id, pageIndex: 0, text: ocr.text, words: ocr.words });
+      }
+
+      res.status(201).json(listedDocument(document, "owner"));
+    } catch (err) {
+      handleError(res, err, "Upload");
+    }
+  });
+
+  app.get("/api/documents/:id", async (req, res) => {
+    try {
+      // Says what the caller may do with it, so the client can show the right tools.
+      // Fillers and share links can reach this, so it leaves the storage details out.
+      const document = await storage.getDocument(req.params.id);
+      const role = document ? await documentRole(req.user, document, req.shareLink) : null;
+      if (!document || !role) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      const summary: DocumentSummary = {
+        id: document.id,
+        originalName: document.originalName,
+        size: document.size,
+        pageCount: await countPdfPages(document.filename),
+        role,
+      };
+      res.json(summary);
+    } catch (err) {
+      handleError(res, err, "Get document");
+    }
+  });
+
+  app.delete("/api/documents/:id", async (req, res) => {
+    try {
+      const document = await findDocument(req, req.params.id, "owner");
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      await storage.deleteDocument(document.id);
+      closeDocumentSockets(document.id);
+      fs.rmSync(document.filename, { force: true });
+      res.json({ success: true });
+    } catch (err) {
+      handleError(res, err, "Delete document");
+    }
+  });
+
+  // Words recognized in scanned uploads, with their boxes in page points
+  app.get("/api/documents/:id/ocr", async (req, res) => {
+    try {
+      const document = await findDocument(req, req.params.id, "viewer");
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      res.json(await storage.getOcrPagesByDocument(document.id));
+    } catch (err) {
+      handleError(res, err, "Get OCR text");
+    }
+  });
+
+  app.get("/api/documents/:id/file", async (req, res) => {
+    try {
+      const document = await findDocument(req, req.params.id, "filler");
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      if (!fs.existsSync(document.filename)) {
+        return res.status(404).json({ message: "Document file not found" });
+      }
+
+      res.type(document.mimeType);
+      res.sendFile(path.resolve(document.filename));
+    } catch (err) {
+      handleError(res, err, "Get document file");
+    }
+  });
+
+  app.get("/api/documents/:id/text-fields", async (req, res) => {
+    try {
+      const document = await findDocument(req, req.params.id, "filler");
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      res.json(await storage.getTextFieldsByDocument(document.id));
+    } catch (err) {
+      handleError(res, err, "List text fields");
+    }
+  });
+
+  // Field names and saved values as FDF or XFDF (?format=xfdf)
+  app.get("/api/documents/:id/field-data", async (req, res) => {
+    try {
+      const document = await findDocument(req, req.params.id, "viewer");
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      const format = z.enum(["fdf", "xfdf"]).default("fdf").parse(req.query.format);
+      const textFields = await storage.getTextFieldsByDocument(document.id);
+      const values = storedFieldValues(textFields);
+      const body = format === "xfdf" ? buildXfdf(textFields, values) : buildFdf(textFields, values);
+
+      sendAttachment(
+        res,
+        `${downloadBaseName(document)}.${format}`,
+        format === "xfdf" ? "application/vnd.adobe.xfdf" : "application/vnd.fdf",
+        new TextEncoder().encode(body)
+      );
+    } catch (err) {
+      handleError(res, err, "Export field data");
+    }
+  });
+
+  // Saves the values in an uploaded FDF/XFDF onto the fields with matching names
+  app.post("/api/documents/:id/field-data", uploadSingleFile(fieldDataUpload), async (req, res) => {
+    try {
+      const document = await findDocument(req, req.params.id, "editor");
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      let data;
+      try {
+        data = path.extname(req.file.originalname).toLowerCase() === ".xfdf"
+          ? parseXfdf(req.file.buffer.toString("utf8"))
+          : await parseFdf(new Uint8Array(req.file.buffer));
+      } catch (err) {
+        return res.status(400).json({
+          message: `Could not read field data: ${err instanceof Error ? err.message : "unknown error"}`,
+        });
+      }
+
+      const textFields = await storage.getTextFieldsByDocument(document.id);
+      const values = rowToFieldValues(textFields, data);
+      // Empty required fields are fine here; they're checked when filling
+      const invalid = findInvalidFieldValues(textFields, values);
+      if (invalid.length > 0) {
+        return res.status(400).json({
+          message: `Invalid values for: ${invalid.map((field) => field.name).join(", ")}`,
+          fieldIds: invalid.map((field) => field.id),
+        });
+      }
+
+      const updated = await Promise.all(
+        Object.entries(values).map(([id, value]) => storage.updateTextField(id, { value }))
+      );
+      const changes = updated
+        .map((field) => {
+          const before = field && textFields.find((candidate) => candidate.id === field.id);
+          return before ? updatedChange(before, field) : null;
+        })
+        .filter((change): change is FieldRevisionChange => change !== null);
+      await commitFieldChanges(req, document.id, `Imported values from ${req.file.originalname}`, changes);
+
+      const knownNames = new Set(textFields.map(fieldDataName));
+      res.json({
+        updated: updated.filter(Boolean).length,
+        unmatched: Object.keys(data).filter((name) => !knownNames.has(name)),
       });
-      const savedDoc = await storage.insertDocument(document);
+    } catch (err) {
+      handleError(res, err, "Import field data");
+    }
+  });
+
+  // Proposes fields from the page's lines, boxes and underscores; the client
+  // decides which ones to create
+  app.post("/api/documents/:id/detect-fields", async (req, res) => {
+    try {
+      const document = await findDocument(req, req.params.id, "editor");
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
 
-      res.json({ id: savedDoc.id, name: savedDoc.name });
-    } catch (err: any) {
-      console.error("Upload error:", err);
-      res.status(500).json({ error: err.message });
+      const textFields = await storage.getTextFieldsByDocument(document.id);
+      res.json(await detectFields(fs.readFileSync(document.filename), textFields));
+    } catch (err) {
+      handleError(res, err, "Detect fields");
     }
   });
 
-  // Add text field route
-  app.post("/text-field", async (req, res) => {
+  app.get("/api/documents/:id/lines", async (req, res) => {
     try {
-      const body = insertTextFieldSchema.parse(req.body);
-      const savedField = await storage.insertTextField(body);
-      res.json(savedField);
-    } catch (err: any) {
-      console.error("Text field error:", err);
-      res.status(400).json({ error: err.message });
+      const document = await findDocument(req, req.params.id, "viewer");
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      res.json(await detectPageLines(fs.readFileSync(document.filename)));
+    } catch (err) {
+      handleError(res, err, "Detect page lines");
+    }
+  });
+
+  // Proposes a name for each field from the label text beside or above it.
+  // Radio buttons are named by their group, so they're left alone.
+  app.get("/api/documents/:id/field-names", async (req, res) => {
+    try {
+      const document = await findDocument(req, req.params.id, "editor");
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      const textFields = await storage.getTextFieldsByDocument(document.id);
+      const targets = textFields
+        .filter((field) => field.type !== "radio")
+        .sort((a, b) => a.pageIndex - b.pageIndex || a.y - b.y || a.x - b.x);
+      const pageText = await extractPageText(fs.readFileSync(document.filename));
+
+      // Fields without a label keep their names, so new names must avoid them
+      const labelled = nameFromLabels(targets, pageText, new Set());
+      const keptNames = textFields
+        .filter((field) => field.type === "radio" || !labelled[targets.indexOf(field)])
+        .map((field) => field.name);
+      const names = nameFromLabels(targets, pageText, new Set(keptNames));
+
+      const proposals: FieldNameProposal[] = [];
+      targets.forEach((field, index) => {
+        const proposal = names[index];
+        if (proposal && proposal.name !== field.name) {
+          proposals.push({ fieldId: field.id, ...proposal });
+        }
+      });
+      res.json(proposals);
+    } catch (err) {
+      handleError(res, err, "Propose field names");
     }
   });
 
-  // Download filled PDF route
-  app.get("/download/:docId", async (req, res) => {
+  // Versioned JSON description of the document's fields, for keeping
+  // layouts under version control
+  app.get("/api/documents/:id/layout", async (req, res) => {
     try {
-      const docId = req.params.docId;
-      const document = await storage.getDocument(docId);
-      const textFields = await storage.getTextFieldsByDocumentId(docId);
+      const document = await findDocument(req, req.params.id, "viewer");
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      const textFields = await storage.getTextFieldsByDocument(document.id);
+      sendAttachment(
+        res,
+        `${downloadBaseName(document)}_layout.json`,
+        "application/json",
+        new TextEncoder().encode(buildLayoutFile(document, textFields))
+      );
+    } catch (err) {
+      handleError(res, err, "Export layout");
+    }
+  });
 
+  app.post("/api/documents/:id/layout", uploadSingleFile(layoutUpload), async (req, res) => {
+    try {
+      const document = await findDocument(req, req.params.id, "editor");
       if (!document) {
-        return res.status(404).json({ error: "Document not found" });
+        return res.status(404).json({ message: "Document not found" });
+      }
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
       }
 
-      // Pick font from query param, fallback to Arial
-      const requestedFont = (req.query.font as string) || "Arial";
-      const fontName = FONT_PATHS[requestedFont]
-        ? requestedFont
-        : "Arial"; // fallback safety
+      const { replaceExisting } = importLayoutSchema.parse(req.body ?? {});
+      let layout;
+      try {
+        layout = parseLayoutFile(req.file.buffer.toString("utf8"));
+      } catch (err) {
+        if (err instanceof z.ZodError) throw err;
+        return res.status(400).json({ message: err instanceof Error ? err.message : "Invalid layout file" });
+      }
+
+      res.status(201).json(
+        await addLayoutFields(req, document, layout.fields, replaceExisting, `Imported layout from ${req.file.originalname}`)
+      );
+    } catch (err) {
+      handleError(res, err, "Import layout");
+    }
+  });
 
-      const fontBytes = fs.readFileSync(FONT_PATHS[fontName]);
-      const customFont = await PDFDocument.load(document.data).then(
-        async (pdfDoc) => {
-          const embeddedFont = await pdfDoc.embedFont(fontBytes);
+  // Export the document with every stored field added as a live form field
+  app.post("/api/documents/:id/export", async (req, res) => {
+    try {
+      const document = await findDocument(req, req.params.id, "viewer");
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
 
-          const pages = pdfDoc.getPages();
-          const firstPage = pages[0];
+      const options = exportPdfSchema.parse(req.body ?? {});
+      const fontBytes = await loadFontBytes(options.font, await fontOwnerId(req));
+      if (fontBytes === undefined) {
+        return res.status(400).json({ message: `Unknown font: ${options.font}` });
+      }
 
-          textFields.forEach((field) => {
-            const form = pdfDoc.getForm();
+      const textFields = await storage.getTextFieldsByDocument(document.id);
+      const fieldFontBytes = await loadFieldFonts(req, document, textFields);
+      const pdfBytes = await buildFillablePdf(
+        fs.readFileSync(document.filename),
+        textFields,
+        { fontBytes, fieldFontBytes, values: storedFieldValues(textFields), flatten: options.flatten }
+      );
 
-textFields.forEach((field) => {
-  const textField = form.createTextField(field.id); // unique field name
-  textField.setText(field.value || "");
-  textField.addToPage(firstPage, {
-    x: field.x,
-    y: field.y,
-    width: field.width,
-    height: field.height,
+      sendPdfAttachment(res, document, options.flatten ? "flattened" : "fillable", pdfBytes);
+    } catch (err) {
+      handleError(res, err, "Export");
+    }
   });
-  textField.updateAppearances(embeddedFont); // <-- apply chosen font
-});
 
-          });
+  app.post("/api/documents/:id/fill", async (req, res) => {
+    try {
+      const document = await findDocument(req, req.params.id, "filler");
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
 
-          return pdfDoc.save();
+      const options = fillPdfSchema.parse(req.body ?? {});
+      const fontBytes = await loadFontBytes(options.font, await fontOwnerId(req));
+      if (fontBytes === undefined) {
+        return res.status(400).json({ message: `Unknown font: ${options.font}` });
+      }
+
+      const textFields = await storage.getTextFieldsByDocument(document.id);
+      const values = { ...storedFieldValues(textFields), ...options.values };
+      const problem = validateFieldValues(textFields, values);
+      if (problem) {
+        return res.status(400).json(problem);
+      }
+
+      const fieldFontBytes = await loadFieldFonts(req, document, textFields);
+      const pdfBytes = await buildFillablePdf(
+        fs.readFileSync(document.filename),
+        textFields,
+        { fontBytes, fieldFontBytes, values, flatten: options.flatten }
+      );
+
+      sendPdfAttachment(res, document, "filled", pdfBytes);
+    } catch (err) {
+      handleError(res, err, "Fill");
+    }
+  });
+
+  app.post("/api/documents/:id/batch-fill", async (req, res) => {
+    try {
+      const document = await findDocument(req, req.params.id, "viewer");
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      const options = batchFillSchema.parse(req.body ?? {});
+      let rows: BatchRow[];
+      try {
+        rows = options.rows ?? parseCsvRows(options.csv ?? "");
+      } catch (err) {
+        return res.status(400).json({ message: err instanceof Error ? err.message : "Invalid CSV" });
+      }
+      if (rows.length === 0) {
+        return res.status(400).json({ message: "No rows to fill" });
+      }
+      if (rows.length > MAX_BATCH_ROWS) {
+        return res.status(400).json({ message: `At most ${MAX_BATCH_ROWS} rows can be filled at once` });
+      }
+
+      const fontBytes = await loadFontBytes(options.font, await fontOwnerId(req));
+      if (fontBytes === undefined) {
+        return res.status(400).json({ message: `Unknown font: ${options.font}` });
+      }
+
+      // Reject the whole batch up front rather than return a partial set
+      const textFields = await storage.getTextFieldsByDocument(document.id);
+      const stored = storedFieldValues(textFields);
+      const rowValues = rows.map((row) => ({ ...stored, ...rowToFieldValues(textFields, row) }));
+      const problems = rowValues.flatMap((values, index) => {
+        const problem = validateFieldValues(textFields, values);
+        return problem ? [{ row: index + 1, message: problem.message }] : [];
+      });
+      if (problems.length > 0) {
+        const shown = problems.slice(0, 3).map((problem) => `Row ${problem.row}: ${problem.message}`);
+        const more = problems.length > shown.length ? ` (and ${problems.length - shown.length} more rows)` : "";
+        return res.status(400).json({ message: shown.join("; ") + more, problems });
+      }
+
+      const sourceBytes = fs.readFileSync(document.filename);
+      const fieldFontBytes = await loadFieldFonts(req, document, textFields);
+      const baseName = downloadBaseName(document);
+
+      if (options.output === "pdf") {
+        // Every copy uses the same field names, so a single file only works flattened
+        const copies: Uint8Array[] = [];
+        for (const values of rowValues) {
+          copies.push(await buildFillablePdf(sourceBytes, textFields, { fontBytes, fieldFontBytes, values, flatten: true }));
         }
+        return sendPdfAttachment(res, document, "merged", await mergePdfs(copies));
+      }
+
+      const zip = new JSZip();
+      const digits = String(rowValues.length).length;
+      for (let index = 0; index < rowValues.length; index++) {
+        const pdfBytes = await buildFillablePdf(sourceBytes, textFields, {
+          fontBytes,
+          fieldFontBytes,
+          values: rowValues[index],
+          flatten: options.flatten,
+        });
+        zip.file(`${baseName}_${String(index + 1).padStart(digits, "0")}.pdf`, pdfBytes);
+      }
+      sendAttachment(res, `${baseName}_filled.zip`, "application/zip", await zip.generateAsync({ type: "uint8array" }));
+    } catch (err) {
+      handleError(res, err, "Batch fill");
+    }
+  });
+
+  // --- text fields
+
+  app.post("/api/text-fields", async (req, res) => {
+    try {
+      const body = insertTextFieldSchema.parse(req.body);
+      const document = await findDocument(req, body.documentId, "editor");
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      const pageError = await pageIndexError(document, body.pageIndex);
+      if (pageError) {
+        return res.status(400).json({ message: pageError });
+      }
+
+      const textField = await storage.createTextField(body);
+      await commitFieldChanges(req, document.id, `Added ${textField.name}`, [createdChange(textField)]);
+      res.status(201).json(textField);
+    } catch (err) {
+      handleError(res, err, "Create text field");
+    }
+  });
+
+  // Restores a deleted field under its original id, so undo and redo keep
+  // referring to the same field
+  app.put("/api/text-fields/:id", async (req, res) => {
+    try {
+      const body = insertTextFieldSchema.parse(req.body);
+      const document = await findDocument(req, body.documentId, "editor");
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      if (await storage.getTextField(req.params.id)) {
+        return res.status(409).json({ message: "Text field already exists" });
+      }
+      // Only ids this document's own history shows being deleted can come back
+      const revisions = await storage.getFieldRevisions(document.id);
+      const wasDeleted = revisions.some((revision) =>
+        revision.changes.some((change) => change.action === "delete" && change.fieldId === req.params.id)
       );
+      if (!wasDeleted) {
+        return res.status(404).json({ message: "No deleted text field to restore" });
+      }
+      const pageError = await pageIndexError(document, body.pageIndex);
+      if (pageError) {
+        return res.status(400).json({ message: pageError });
+      }
+
+      const textField = await storage.createTextField(body, req.params.id);
+      await commitFieldChanges(req, document.id, `Restored ${textField.name}`, [createdChange(textField)]);
+      res.status(201).json(textField);
+    } catch (err) {
+      handleError(res, err, "Restore text field");
+    }
+  });
+
+  app.get("/api/text-fields/:id", async (req, res) => {
+    try {
+      const textField = await findTextField(req, req.params.id, "viewer");
+      if (!textField) {
+        return res.status(404).json({ message: "Text field not found" });
+      }
+      res.json(textField);
+    } catch (err) {
+      handleError(res, err, "Get text field");
+    }
+  });
+
+  app.patch("/api/text-fields/:id", async (req, res) => {
+    try {
+      const updates = updateTextFieldSchema.parse(req.body);
+      const before = await findTextField(req, req.params.id, "editor");
+      if (!before) {
+        return res.status(404).json({ message: "Text field not found" });
+      }
+      if (updates.pageIndex !== undefined) {
+        const document = await storage.getDocument(before.documentId);
+        const pageError = document && (await pageIndexError(document, updates.pageIndex));
+        if (pageError) {
+          return res.status(400).json({ message: pageError });
+        }
+      }
+
+      const textField = await storage.updateTextField(before.id, updates);
+      if (!textField) {
+        return res.status(404).json({ message: "Text field not found" });
+      }
+
+      const change = updatedChange(before, textField);
+      if (change) {
+        await commitFieldChanges(req, textField.documentId, `Edited ${textField.name}`, [change], { coalesce: true });
+      }
+      res.json(textField);
+    } catch (err) {
+      handleError(res, err, "Update text field");
+    }
+  });
+
+  app.delete("/api/text-fields/:id", async (req, res) => {
+    try {
+      const textField = await findTextField(req, req.params.id, "editor");
+      if (!textField) {
+        return res.status(404).json({ message: "Text field not found" });
+      }
+
+      await storage.deleteTextField(textField.id);
+      await commitFieldChanges(req, textField.documentId, `Deleted ${textField.name}`, [deletedChange(textField)]);
+      res.json({ success: true });
+    } catch (err) {
+      handleError(res, err, "Delete text field");
+    }
+  });
+
+  // --- revisions
+
+  app.get("/api/documents/:id/revisions", async (req, res) => {
+    try {
+      const document = await findDocument(req, req.params.id, "viewer");
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      res.json(await storage.getFieldRevisions(document.id));
+    } catch (err) {
+      handleError(res, err, "List revisions");
+    }
+  });
+
+  // The changes between two revisions (?from=&to=), as if made in one step
+  app.get("/api/documents/:id/revisions/diff", async (req, res) => {
+    try {
+      const document = await findDocument(req, req.params.id, "viewer");
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      const from = revisionNumberSchema.parse(req.query.from);
+      const to = revisionNumberSchema.parse(req.query.to);
+      const revisions = await storage.getFieldRevisions(document.id);
+      const latest = revisions[revisions.length - 1]?.number ?? 0;
+      if (from > latest || to > latest) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+
+      const changes = diffLayouts(layoutAtRevision(revisions, from), layoutAtRevision(revisions, to));
+      const diff: RevisionDiff = { from, to, changes };
+      res.json(diff);
+    } catch (err) {
+      handleError(res, err, "Diff revisions");
+    }
+  });
+
+  // The fields as they stood right after a revision
+  app.get("/api/documents/:id/revisions/:number/fields", async (req, res) => {
+    try {
+      const document = await findDocument(req, req.params.id, "viewer");
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      const number = revisionNumberSchema.parse(req.params.number);
+      const revisions = await storage.getFieldRevisions(document.id);
+      if (number > 0 && !revisions.some((revision) => revision.number === number)) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+      res.json(layoutAtRevision(revisions, number));
+    } catch (err) {
+      handleError(res, err, "Get revision fields");
+    }
+  });
+
+  // Puts every field back the way it was at a revision. The restore is itself
+  // a new revision, so it can be undone by restoring the one before it.
+  app.post("/api/documents/:id/revisions/:number/restore", async (req, res) => {
+    try {
+      const document = await findDocument(req, req.params.id, "editor");
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      const number = revisionNumberSchema.parse(req.params.number);
+      const revisions = await storage.getFieldRevisions(document.id);
+      if (!revisions.some((revision) => revision.number === number)) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+
+      const target = layoutAtRevision(revisions, number);
+      const current = await storage.getTextFieldsByDocument(document.id);
+      const textFields = await storage.replaceTextFields(document.id, target);
+      await commitFieldChanges(req, document.id, `Restored revision ${number}`, diffLayouts(current, textFields));
+      res.json(textFields);
+    } catch (err) {
+      handleError(res, err, "Restore revision");
+    }
+  });
+
+  // --- sharing
+
+  app.get("/api/documents/:id/shares", async (req, res) => {
+    try {
+      const document = await findDocument(req, req.params.id, "owner");
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      res.json(await storage.getDocumentShares(document.id));
+    } catch (err) {
+      handleError(res, err, "List shares");
+    }
+  });
+
+  // Shares the document with an account, or changes the role it has
+  app.put("/api/documents/:id/shares", async (req, res) => {
+    try {
+      const document = await findDocument(req, req.params.id, "owner");
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      const body = shareDocumentSchema.parse(req.body);
+      const user = await storage.getUserByUsername(body.username);
+      if (!user) {
+        return res.status(404).json({ message: `There is no account named "${body.username}"` });
+      }
+      if (user.id === document.ownerId) {
+        return res.status(400).json({ message: "The owner already has full access" });
+      }
+
+      const share = await storage.saveDocumentShare({ documentId: document.id, userId: user.id, role: body.role });
+      // Fillers only get the fill view, so they stop seeing live edits
+      if (!hasRole(share.role, "viewer")) closeDocumentSockets(document.id, user.id);
+      res.json({ ...share, username: user.username });
+    } catch (err) {
+      handleError(res, err, "Share document");
+    }
+  });
+
+  app.delete("/api/documents/:id/shares/:userId", async (req, res) => {
+    try {
+      const document = await findDocument(req, req.params.id, "owner");
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      if (!(await storage.getDocumentShare(document.id, req.params.userId))) {
+        return res.status(404).json({ message: "Share not found" });
+      }
+
+      await storage.deleteDocumentShare(document.id, req.params.userId);
+      closeDocumentSockets(document.id, req.params.userId);
+      res.json({ success: true });
+    } catch (err) {
+      handleError(res, err, "Unshare document");
+    }
+  });
+
+  app.get("/api/documents/:id/share-links", async (req, res) => {
+    try {
+      const document = await findDocument(req, req.params.id, "owner");
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      res.json(await storage.getShareLinks(document.id));
+    } catch (err) {
+      handleError(res, err, "List share links");
+    }
+  });
+
+  // Links only ever open the fill view; anyone who has one can fill the form
+  // out until it expires or is revoked
+  app.post("/api/documents/:id/share-links", async (req, res) => {
+    try {
+      const document = await findDocument(req, req.params.id, "owner");
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      const { expiresInDays } = createShareLinkSchema.parse(req.body ?? {});
+      const link = await storage.createShareLink({
+        documentId: document.id,
+        token: createShareToken(),
+        createdBy: req.user!.id,
+        expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+      });
+      res.status(201).json(link);
+    } catch (err) {
+      handleError(res, err, "Create share link");
+    }
+  });
+
+  app.delete("/api/documents/:id/share-links/:linkId", async (req, res) => {
+    try {
+      const document = await findDocument(req, req.params.id, "owner");
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      const links = await storage.getShareLinks(document.id);
+      if (!links.some((link) => link.id === req.params.linkId)) {
+        return res.status(404).json({ message: "Share link not found" });
+      }
+
+      await storage.deleteShareLink(req.params.linkId);
+      res.json({ success: true });
+    } catch (err) {
+      handleError(res, err, "Revoke share link");
+    }
+  });
+
+  // --- fonts
+
+  app.get("/api/fonts", async (req, res) => {
+    try {
+      const ownerId = await fontOwnerId(req);
+      res.json(ownerId ? (await storage.getFontsByOwner(ownerId)).map(fontSummary) : []);
+    } catch (err) {
+      handleError(res, err, "List fonts");
+    }
+  });
+
+  app.post("/api/fonts", uploadSingleFile(fontUpload), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      const { originalname, path: filePath, size } = req.file;
+      let info;
+      try {
+        info = readFontInfo(fs.readFileSync(filePath));
+      } catch (err) {
+        fs.rmSync(filePath, { force: true });
+        return res.status(400).json({ message: (err as Error).message });
+      }
+
+      // An explicit family name lets the same typeface be uploaded in several weights
+      const font = insertFontSchema.parse({
+        ownerId: req.user!.id,
+        family: req.body?.family || info.family,
+        filename: filePath,
+        originalName: originalname,
+        format: info.format,
+        size,
+      });
+
+      const isBuiltIn = (builtInFonts as readonly string[]).includes(font.family);
+      if (isBuiltIn || (await storage.getFontByFamily(font.family, req.user!.id))) {
+        fs.rmSync(filePath, { force: true });
+        return res.status(409).json({ message: `A font named "${font.family}" already exists` });
+      }
+
+      res.status(201).json(fontSummary(await storage.createFont(font)));
+    } catch (err) {
+      handleError(res, err, "Upload font");
+    }
+  });
+
+  app.get("/api/fonts/:id/file", async (req, res) => {
+    try {
+      const ownerId = await fontOwnerId(req);
+      const font = ownerId ? await storage.getFont(req.params.id, ownerId) : undefined;
+      if (!font || !fs.existsSync(font.filename)) {
+        return res.status(404).json({ message: "Font not found" });
+      }
+
+      res.type(font.format === "otf" ? "font/otf" : "font/ttf");
+      res.sendFile(path.resolve(font.filename));
+    } catch (err) {
+      handleError(res, err, "Get font file");
+    }
+  });
+
+  app.delete("/api/fonts/:id", async (req, res) => {
+    try {
+      const font = await storage.getFont(req.params.id, req.user!.id);
+      if (!font) {
+        return res.status(404).json({ message: "Font not found" });
+      }
+
+      await storage.deleteFont(font.id, req.user!.id);
+      fs.rmSync(font.filename, { force: true });
+      res.json({ success: true });
+    } catch (err) {
+      handleError(res, err, "Delete font");
+    }
+  });
+
+  // --- templates
+
+  app.get("/api/templates", async (req, res) => {
+    try {
+      res.json(await storage.getTemplatesByOwner(req.user!.id));
+    } catch (err) {
+      handleError(res, err, "List templates");
+    }
+  });
+
+  // Snapshots a document's current fields under a name, among the caller's own templates
+  app.post("/api/templates", async (req, res) => {
+    try {
+      const body = saveTemplateSchema.parse(req.body);
+      const document = await findDocument(req, body.documentId, "editor");
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      if (await storage.getTemplateByName(body.name, req.user!.id)) {
+        return res.status(409).json({ message: `A template named "${body.name}" already exists` });
+      }
+
+      const textFields = await storage.getTextFieldsByDocument(document.id);
+      if (textFields.length === 0) {
+        return res.status(400).json({ message: "The document has no fields to save" });
+      }
+
+      const template = await storage.createTemplate({
+        ownerId: req.user!.id,
+        name: body.name,
+        pageWidth: document.width,
+        pageHeight: document.height,
+        fields: textFields.map(toLayoutField),
+      });
+      res.status(201).json(template);
+    } catch (err) {
+      handleError(res, err, "Save template");
+    }
+  });
+
+  app.delete("/api/templates/:id", async (req, res) => {
+    try {
+      const template = await storage.getTemplate(req.params.id, req.user!.id);
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+
+      await storage.deleteTemplate(template.id, req.user!.id);
+      res.json({ success: true });
+    } catch (err) {
+      handleError(res, err, "Delete template");
+    }
+  });
+
+  // Adds a template's fields to a document
+  app.post("/api/documents/:id/apply-template", async (req, res) => {
+    try {
+      const document = await findDocument(req, req.params.id, "editor");
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      const options = applyTemplateSchema.parse(req.body ?? {});
+      const template = await storage.getTemplate(options.templateId, req.user!.id);
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
 
-      res.setHeader("Content-Type", "application/pdf");
-      res.setHeader(
-        "Content-Disposition",
-        `attachment; filename=${document.name}`
+      const fields = template.fields.map((field) => adjustLayoutField(field, options));
+      res.status(201).json(
+        await addLayoutFields(req, document, fields, options.replaceExisting, `Applied template "${template.name}"`)
       );
-      res.send(Buffer.from(customFont));
-    } catch (err: any) {
-      console.error("Download error:", err);
-      res.status(500).json({ error: err.message });
+    } catch (err) {
+      handleError(res, err, "Apply template");
     }
   });
 
   const httpServer = createServer(app);
+  setupCollaboration(httpServer);
   return httpServer;
 }
@@ -0,0 +1,153 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { PDFDocument } from "pdf-lib";
+import { startTestServer, registerUser } from "./test-server";
+import { storage } from "./storage";
+import type { DocumentWithRole, ShareLink, TextField } from "@shared/schema";
+
+let server: Awaited<ReturnType<typeof startTestServer>>;
+let owner: string;
+let filler: string;
+let viewer: string;
+let document: DocumentWithRole;
+let field: TextField;
+
+const api = (cookie: string | null, method: string, path: string, body?: unknown) => {
+  const headers: Record<string, string> = body ? { "Content-Type": "application/json" } : {};
+  if (cookie) headers.cookie = cookie;
+  return fetch(`${server.baseUrl}/api${path}`, { method, headers, body: body ? JSON.stringify(body) : undefined });
+};
+
+async function shareWith(username: string, role: "filler" | "viewer") {
+  const response = await api(owner, "PUT", `/documents/${document.id}/shares`, { username, role });
+  assert.equal(response.status, 200);
+}
+
+async function createLink(): Promise<ShareLink> {
+  const response = await api(owner, "POST", `/documents/${document.id}/share-links`, {});
+  assert.equal(response.status, 201);
+  return (await response.json()) as ShareLink;
+}
+
+before(async () => {
+  server = await startTestServer();
+  owner = await registerUser(server.baseUrl, "sharer");
+  filler = await registerUser(server.baseUrl, "filler");
+  viewer = await registerUser(server.baseUrl, "viewer");
+
+  // A real upload, so the file and fill routes have a PDF to read
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.addPage();
+  const form = new FormData();
+  form.append("file", new Blob([await pdfDoc.save()], { type: "application/pdf" }), "shared.pdf");
+  const response = await fetch(`${server.baseUrl}/api/documents`, {
+    method: "POST",
+    headers: { cookie: owner },
+    body: form,
+  });
+  document = (await response.json()) as DocumentWithRole;
+  field = await storage.createTextField({ documentId: document.id, name: "name", x: 0, y: 0, width: 100, height: 20 });
+
+  await shareWith("filler", "filler");
+  await shareWith("viewer", "viewer");
+});
+
+after(async () => {
+  await api(owner, "DELETE", `/documents/${document.id}`);
+  server.close();
+});
+
+test("keeps fillers to the fill view", async () => {
+  let response = await api(filler, "PATCH", `/text-fields/${field.id}`, { x: 50 });
+  assert.equal(response.status, 404);
+  response = await api(filler, "POST", `/documents/${document.id}/export`, {});
+  assert.equal(response.status, 404);
+
+  response = await api(filler, "POST", `/documents/${document.id}/fill`, { values: { [field.id]: "Sam" } });
+  assert.equal(response.status, 200);
+  assert.equal((await storage.getTextField(field.id))?.x, 0);
+});
+
+test("lets viewers look but not edit", async () => {
+  let response = await api(viewer, "GET", `/documents/${document.id}/text-fields`);
+  assert.equal(response.status, 200);
+
+  response = await api(viewer, "PATCH", `/text-fields/${field.id}`, { x: 50 });
+  assert.equal(response.status, 404);
+  response = await api(viewer, "POST", "/text-fields", {
+    documentId: document.id,
+    name: "added",
+    x: 0,
+    y: 40,
+    width: 100,
+    height: 20,
+  });
+  assert.equal(response.status, 404);
+  response = await api(viewer, "DELETE", `/text-fields/${field.id}`);
+  assert.equal(response.status, 404);
+  assert.equal((await storage.getTextFieldsByDocument(document.id)).length, 1);
+});
+
+test("opens the fill view's routes to anyone with a link", async () => {
+  const { token } = await createLink();
+
+  let response = await api(null, "GET", `/documents/${document.id}?share=${token}`);
+  assert.equal(response.status, 200);
+  assert.equal(((await response.json()) as { role: string }).role, "filler");
+  response = await api(null, "GET", `/documents/${document.id}/file?share=${token}`);
+  assert.equal(response.status, 200);
+  assert.equal(response.headers.get("content-type"), "application/pdf");
+  response = await api(null, "GET", `/documents/${document.id}/text-fields?share=${token}`);
+  assert.deepEqual(((await response.json()) as TextField[]).map((listed) => listed.id), [field.id]);
+  response = await api(null, "POST", `/documents/${document.id}/fill?share=${token}`, { values: { [field.id]: "Sam" } });
+  assert.equal(response.status, 200);
+  assert.equal(response.headers.get("content-type"), "application/pdf");
+});
+
+test("opens nothing else with a link", async () => {
+  const { token } = await createLink();
+
+  for (const [method, path] of [
+    ["GET", "/documents"],
+    ["GET", `/documents/${document.id}/revisions`],
+    ["GET", `/documents/${document.id}/shares`],
+    ["POST", `/documents/${document.id}/export`],
+    ["POST", "/text-fields"],
+    ["PATCH", `/text-fields/${field.id}`],
+    ["DELETE", `/documents/${document.id}`],
+  ]) {
+    const body = method === "GET" || method === "DELETE" ? undefined : {};
+    const response = await api(null, method, `${path}?share=${token}`, body);
+    assert.equal(response.status, 401, `${method} ${path}`);
+  }
+
+  // Nor other documents' fill views
+  const ownerUser = await storage.getUserByUsername("sharer");
+  const other = await storage.createDocument({
+    ownerId: ownerUser!.id,
+    filename: "uploads/missing.pdf",
+    originalName: "other.pdf",
+    mimeType: "application/pdf",
+    size: 0,
+  });
+  const response = await api(null, "GET", `/documents/${other.id}/text-fields?share=${token}`);
+  assert.equal(response.status, 404);
+});
+
+test("turns away links that have expired or been revoked", async () => {
+  const revoked = await createLink();
+  let response = await api(owner, "DELETE", `/documents/${document.id}/share-links/${revoked.id}`);
+  assert.equal(response.status, 200);
+  response = await api(null, "GET", `/documents/${document.id}/text-fields?share=${revoked.token}`);
+  assert.equal(response.status, 410);
+
+  const ownerUser = await storage.getUserByUsername("sharer");
+  const expired = await storage.createShareLink({
+    documentId: document.id,
+    token: "expired-token",
+    createdBy: ownerUser!.id,
+    expiresAt: new Date(Date.now() - 1000),
+  });
+  response = await api(null, "POST", `/documents/${document.id}/fill?share=${expired.token}`, { values: {} });
+  assert.equal(response.status, 410);
+});
@@ -0,0 +1,62 @@
+import type { NextFunction, Request, Response } from "express";
+import { randomBytes } from "crypto";
+import { storage } from "./storage";
+import type { Document, DocumentRole, ShareLink, User } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set when the request came through a valid share link
+      shareLink?: ShareLink;
+    }
+  }
+}
+
+const ROLE_RANK: Record<DocumentRole, number> = { filler: 1, viewer: 2, editor: 3, owner: 4 };
+
+// Whether `role` can do everything `needed` can
+export const hasRole = (role: DocumentRole | null, needed: DocumentRole) =>
+  role !== null && ROLE_RANK[role] >= ROLE_RANK[needed];
+
+// The most someone can do with a document, through ownership, a share or the
+// link they came in with; null when they can't see it at all
+export async function documentRole(
+  user: User | undefined,
+  document: Document,
+  shareLink?: ShareLink
+): Promise<DocumentRole | null> {
+  if (user && document.ownerId === user.id) return "owner";
+
+  const share = user ? await storage.getDocumentShare(document.id, user.id) : undefined;
+  const linkRole = shareLink?.documentId === document.id ? "filler" : null;
+  if (share && !hasRole(linkRole, share.role)) return share.role;
+  return linkRole;
+}
+
+export const createShareToken = () => randomBytes(24).toString("base64url");
+
+// The fill view's requests, which are all a share link opens
+const SHARE_LINK_ROUTES: [string, RegExp][] = [
+  ["GET", /^\/documents\/[^/]+(\/file|\/text-fields)?$/],
+  ["POST", /^\/documents\/[^/]+\/fill$/],
+  ["GET", /^\/fonts(\/[^/]+\/file)?$/],
+];
+
+// Picks up a `?share=` token on fill view requests. Mounted on /api ahead of
+// requireAuth, so the link stands in for a session.
+export async function shareLinkAccess(req: Request, res: Response, next: NextFunction) {
+  const token = req.query.share;
+  const isShareable = SHARE_LINK_ROUTES.some(([method, path]) => req.method === method && path.test(req.path));
+  if (typeof token !== "string" || !isShareable) return next();
+
+  try {
+    const link = await storage.getShareLinkByToken(token);
+    if (!link || link.expiresAt <= new Date()) {
+      return res.status(410).json({ message: "This link has expired or been revoked" });
+    }
+    req.shareLink = link;
+    next();
+  } catch (err) {
+    next(err);
+  }
+}
@@ -1,27 +1,137 @@
-import { type Document, type InsertDocument, type TextField, type InsertTextField } from "@shared/schema";
+import {
+  type User,
+  type InsertUser,
+  type Document,
+  type InsertDocument,
+  type TextField,
+  type InsertTextField,
+  type CustomFont,
+  type InsertFont,
+  type FieldTemplate,
+  type InsertTemplate,
+  type OcrPage,
+  type InsertOcrPage,
+  type FieldRevision,
+  type InsertFieldRevision,
+  type ShareRole,
+  type DocumentShare,
+  type DocumentShareWithUser,
+  type InsertDocumentShare,
+  type ShareLink,
+  type InsertShareLink,
+  documents,
+  textFields,
+  fonts,
+  templates,
+  ocrPages,
+  fieldRevisions,
+  users,
+  documentShares,
+  shareLinks,
+} from "@shared/schema";
 import { randomUUID } from "crypto";
+import { and, asc, desc, eq, isNull } from "drizzle-orm";
+import { createDb, type Database } from "./db";
+
+// A document someone has been given, with the role they were given
+export type SharedDocument = Document & { role: ShareRole };
 
 export interface IStorage {
+  // User operations; the password passed in is already hashed
+  createUser(user: InsertUser): Promise<User>;
+  getUser(id: string): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+
   // Document operations
   createDocument(document: InsertDocument): Promise<Document>;
   getDocument(id: string): Promise<Document | undefined>;
-  getAllDocuments(): Promise<Document[]>;
+  getDocumentsByOwner(ownerId: string): Promise<Document[]>;
+  // Hands documents, fonts and templates from before accounts existed to the given user
+  claimUnowned(ownerId: string): Promise<void>;
   deleteDocument(id: string): Promise<void>;
 
   // Text field operations
-  createTextField(textField: InsertTextField): Promise<TextField>;
+  // Pass an id to put back a deleted field under its original id
+  createTextField(textField: InsertTextField, id?: string): Promise<TextField>;
+  getTextField(id: string): Promise<TextField | undefined>;
   getTextFieldsByDocument(documentId: string): Promise<TextField[]>;
   updateTextField(id: string, updates: Partial<TextField>): Promise<TextField | undefined>;
   deleteTextField(id: string): Promise<void>;
+  // Swaps a document's fields for the given ones, keeping their ids
+  replaceTextFields(documentId: string, fields: TextField[]): Promise<TextField[]>;
+
+  // Font operations; every lookup is within one owner's fonts
+  createFont(font: InsertFont): Promise<CustomFont>;
+  getFont(id: string, ownerId: string): Promise<CustomFont | undefined>;
+  getFontByFamily(family: string, ownerId: string): Promise<CustomFont | undefined>;
+  getFontsByOwner(ownerId: string): Promise<CustomFont[]>;
+  deleteFont(id: string, ownerId: string): Promise<void>;
+
+  // Template operations; every lookup is within one owner's templates
+  createTemplate(template: InsertTemplate): Promise<FieldTemplate>;
+  getTemplate(id: string, ownerId: string): Promise<FieldTemplate | undefined>;
+  getTemplateByName(name: string, ownerId: string): Promise<FieldTemplate | undefined>;
+  getTemplatesByOwner(ownerId: string): Promise<FieldTemplate[]>;
+  deleteTemplate(id: string, ownerId: string): Promise<void>;
+
+  // OCR operations
+  createOcrPage(page: InsertOcrPage): Promise<OcrPage>;
+  getOcrPagesByDocument(documentId: string): Promise<OcrPage[]>;
+
+  // Revision operations; revisions are numbered from 1 within each document
+  createFieldRevision(revision: InsertFieldRevision): Promise<FieldRevision>;
+  getFieldRevisions(documentId: string): Promise<FieldRevision[]>;
+  updateFieldRevision(id: string, updates: Partial<InsertFieldRevision>): Promise<FieldRevision | undefined>;
+
+  // Sharing operations; a user has at most one share per document
+  getDocumentsSharedWith(userId: string): Promise<SharedDocument[]>;
+  getDocumentShare(documentId: string, userId: string): Promise<DocumentShare | undefined>;
+  getDocumentShares(documentId: string): Promise<DocumentShareWithUser[]>;
+  // Replaces the role when the user already has a share
+  saveDocumentShare(share: InsertDocumentShare): Promise<DocumentShare>;
+  deleteDocumentShare(documentId: string, userId: string): Promise<void>;
+  createShareLink(link: InsertShareLink): Promise<ShareLink>;
+  getShareLinkByToken(token: string): Promise<ShareLink | undefined>;
+  getShareLinks(documentId: string): Promise<ShareLink[]>;
+  deleteShareLink(id: string): Promise<void>;
 }
 
 export class MemStorage implements IStorage {
+  private users: Map<string, User>;
   private documents: Map<string, Document>;
   private textFields: Map<string, TextField>;
+  private fonts: Map<string, CustomFont>;
+  private templates: Map<string, FieldTemplate>;
+  private ocrPages: Map<string, OcrPage>;
+  private fieldRevisions: Map<string, FieldRevision>;
+  private documentShares: Map<string, DocumentShare>;
+  private shareLinks: Map<string, ShareLink>;
 
   constructor() {
+    this.users = new Map();
     this.documents = new Map();
     this.textFields = new Map();
+    this.fonts = new Map();
+    this.templates = new Map();
+    this.ocrPages = new Map();
+    this.fieldRevisions = new Map();
+    this.documentShares = new Map();
+    this.shareLinks = new Map();
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const id = randomUUID();
+    const user: User = { ...insertUser, id, createdAt: new Date() };
+    this.users.set(id, user);
+    return user;
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find((user) => user.username === username);
   }
 
   async createDocument(insertDocument: InsertDocument): Promise<Document> {
@@ -29,6 +139,7 @@ export class MemStorage implements IStorage {
     const document: Document = { 
       ...insertDocument, 
       id,
+      ownerId: insertDocument.ownerId ?? null,
       width: insertDocument.width ?? null,
       height: insertDocument.height ?? null
     };
@@ -40,31 +151,87 @@ export class MemStorage implements IStorage {
     return this.documents.get(id);
   }
 
-  async getAllDocuments(): Promise<Document[]> {
-    return Array.from(this.documents.values());
+  async getDocumentsByOwner(ownerId: string): Promise<Document[]> {
+    return Array.from(this.documents.values()).filter((document) => document.ownerId === ownerId);
+  }
+
+  async claimUnowned(ownerId: string): Promise<void> {
+    for (const document of Array.from(this.documents.values())) {
+      if (document.ownerId === null) {
+        this.documents.set(document.id, { ...document, ownerId });
+      }
+    }
+    for (const font of Array.from(this.fonts.values())) {
+      if (font.ownerId === null) {
+        this.fonts.set(font.id, { ...font, ownerId });
+      }
+    }
+    for (const template of Array.from(this.templates.values())) {
+      if (template.ownerId === null) {
+        this.templates.set(template.id, { ...template, ownerId });
+      }
+    }
   }
 
   async deleteDocument(id: string): Promise<void> {
     this.documents.delete(id);
-    // Also delete related text fields
+    // Also delete related text fields, OCR results, revisions and shares
     for (const [fieldId, field] of Array.from(this.textFields.entries())) {
       if (field.documentId === id) {
         this.textFields.delete(fieldId);
       }
     }
+    for (const [pageId, page] of Array.from(this.ocrPages.entries())) {
+      if (page.documentId === id) {
+        this.ocrPages.delete(pageId);
+      }
+    }
+    for (const [revisionId, revision] of Array.from(this.fieldRevisions.entries())) {
+      if (revision.documentId === id) {
+        this.fieldRevisions.delete(revisionId);
+      }
+    }
+    for (const [shareId, share] of Array.from(this.documentShares.entries())) {
+      if (share.documentId === id) {
+        this.documentShares.delete(shareId);
+      }
+    }
+    for (const [linkId, link] of Array.from(this.shareLinks.entries())) {
+      if (link.documentId === id) {
+        this.shareLinks.delete(linkId);
+      }
+    }
   }
 
-  async createTextField(insertTextField: InsertTextField): Promise<TextField> {
-    const id = randomUUID();
+  async createTextField(insertTextField: InsertTextField, fieldId?: string): Promise<TextField> {
+    const id = fieldId ?? randomUUID();
     const textField: TextField = {
       ...insertTextField,
       id,
-      required: insertTextField.required ?? null
+      type: insertTextField.type ?? "text",
+      pageIndex: insertTextField.pageIndex ?? 0,
+      required: insertTextField.required ?? null,
+      fontFamily: insertTextField.fontFamily ?? null,
+      fontSize: insertTextField.fontSize ?? null,
+      textColor: insertTextField.textColor ?? null,
+      textAlign: insertTextField.textAlign ?? null,
+      padding: insertTextField.padding ?? null,
+      exportValue: insertTextField.exportValue ?? null,
+      groupName: insertTextField.groupName ?? null,
+      options: insertTextField.options ?? null,
+      allowCustomText: insertTextField.allowCustomText ?? null,
+      multiSelect: insertTextField.multiSelect ?? null,
+      signatureImage: insertTextField.signatureImage ?? null,
+      value: insertTextField.value ?? null
     };
     this.textFields.set(id, textField);
     return textField;
   }
 
+  async getTextField(id: string): Promise<TextField | undefined> {
+    return this.textFields.get(id);
+  }
+
   async getTextFieldsByDocument(documentId: string): Promise<TextField[]> {
     return Array.from(this.textFields.values()).filter(
       (field) => field.documentId === documentId
@@ -83,6 +250,455 @@ export class MemStorage implements IStorage {
   async deleteTextField(id: string): Promise<void> {
     this.textFields.delete(id);
   }
+
+  async replaceTextFields(documentId: string, fields: TextField[]): Promise<TextField[]> {
+    for (const field of await this.getTextFieldsByDocument(documentId)) {
+      this.textFields.delete(field.id);
+    }
+    for (const field of fields) {
+      this.textFields.set(field.id, { ...field, documentId });
+    }
+    return this.getTextFieldsByDocument(documentId);
+  }
+
+  async createFont(insertFont: InsertFont): Promise<CustomFont> {
+    const id = randomUUID();
+    const font: CustomFont = { ...insertFont, id, ownerId: insertFont.ownerId ?? null };
+    this.fonts.set(id, font);
+    return font;
+  }
+
+  async getFont(id: string, ownerId: string): Promise<CustomFont | undefined> {
+    const font = this.fonts.get(id);
+    return font?.ownerId === ownerId ? font : undefined;
+  }
+
+  async getFontByFamily(family: string, ownerId: string): Promise<CustomFont | undefined> {
+    return Array.from(this.fonts.values()).find((font) => font.ownerId === ownerId && font.family === family);
+  }
+
+  async getFontsByOwner(ownerId: string): Promise<CustomFont[]> {
+    return Array.from(this.fonts.values()).filter((font) => font.ownerId === ownerId);
+  }
+
+  async deleteFont(id: string, ownerId: string): Promise<void> {
+    if (await this.getFont(id, ownerId)) {
+      this.fonts.delete(id);
+    }
+  }
+
+  async createTemplate(insertTemplate: InsertTemplate): Promise<FieldTemplate> {
+    const id = randomUUID();
+    const template: FieldTemplate = {
+      ...insertTemplate,
+      id,
+      ownerId: insertTemplate.ownerId ?? null,
+      pageWidth: insertTemplate.pageWidth ?? null,
+      pageHeight: insertTemplate.pageHeight ?? null,
+    };
+    this.templates.set(id, template);
+    return template;
+  }
+
+  async getTemplate(id: string, ownerId: string): Promise<FieldTemplate | undefined> {
+    const template = this.templates.get(id);
+    return template?.ownerId === ownerId ? template : undefined;
+  }
+
+  async getTemplateByName(name: string, ownerId: string): Promise<FieldTemplate | undefined> {
+    return Array.from(this.templates.values()).find(
+      (template) => template.ownerId === ownerId && template.name === name
+    );
+  }
+
+  async getTemplatesByOwner(ownerId: string): Promise<FieldTemplate[]> {
+    return Array.from(this.templates.values()).filter((template) => template.ownerId === ownerId);
+  }
+
+  async deleteTemplate(id: string, ownerId: string): Promise<void> {
+    if (await this.getTemplate(id, ownerId)) {
+      this.templates.delete(id);
+    }
+  }
+
+  async createOcrPage(insertOcrPage: InsertOcrPage): Promise<OcrPage> {
+    const id = randomUUID();
+    const page: OcrPage = {
+      ...insertOcrPage,
+      id,
+      pageIndex: insertOcrPage.pageIndex ?? 0,
+    };
+    this.ocrPages.set(id, page);
+    return page;
+  }
+
+  async getOcrPagesByDocument(documentId: string): Promise<OcrPage[]> {
+    return Array.from(this.ocrPages.values())
+      .filter((page) => page.documentId === documentId)
+      .sort((a, b) => a.pageIndex - b.pageIndex);
+  }
+
+  async createFieldRevision(insertRevision: InsertFieldRevision): Promise<FieldRevision> {
+    const id = randomUUID();
+    const existing = await this.getFieldRevisions(insertRevision.documentId);
+    const revision: FieldRevision = {
+      ...insertRevision,
+      id,
+      number: (existing[existing.length - 1]?.number ?? 0) + 1,
+      author: insertRevision.author ?? null,
+      createdAt: new Date(),
+    };
+    this.fieldRevisions.set(id, revision);
+    return revision;
+  }
+
+  async getFieldRevisions(documentId: string): Promise<FieldRevision[]> {
+    return Array.from(this.fieldRevisions.values())
+      .filter((revision) => revision.documentId === documentId)
+      .sort((a, b) => a.number - b.number);
+  }
+
+  async updateFieldRevision(id: string, updates: Partial<InsertFieldRevision>): Promise<FieldRevision | undefined> {
+    const existing = this.fieldRevisions.get(id);
+    if (!existing) return undefined;
+
+    const updated = { ...existing, ...updates };
+    this.fieldRevisions.set(id, updated);
+    return updated;
+  }
+
+  async getDocumentsSharedWith(userId: string): Promise<SharedDocument[]> {
+    return Array.from(this.documentShares.values())
+      .filter((share) => share.userId === userId && this.documents.has(share.documentId))
+      .map((share) => ({ ...this.documents.get(share.documentId)!, role: share.role }));
+  }
+
+  async getDocumentShare(documentId: string, userId: string): Promise<DocumentShare | undefined> {
+    return Array.from(this.documentShares.values()).find(
+      (share) => share.documentId === documentId && share.userId === userId
+    );
+  }
+
+  async getDocumentShares(documentId: string): Promise<DocumentShareWithUser[]> {
+    return Array.from(this.documentShares.values())
+      .filter((share) => share.documentId === documentId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map((share) => ({ ...share, username: this.users.get(share.userId)?.username ?? "" }));
+  }
+
+  async saveDocumentShare(insertShare: InsertDocumentShare): Promise<DocumentShare> {
+    const existing = await this.getDocumentShare(insertShare.documentId, insertShare.userId);
+    const share: DocumentShare = existing
+      ? { ...existing, role: insertShare.role }
+      : { ...insertShare, id: randomUUID(), createdAt: new Date() };
+    this.documentShares.set(share.id, share);
+    return share;
+  }
+
+  async deleteDocumentShare(documentId: string, userId: string): Promise<void> {
+    const share = await this.getDocumentShare(documentId, userId);
+    if (share) this.documentShares.delete(share.id);
+  }
+
+  async createShareLink(insertLink: InsertShareLink): Promise<ShareLink> {
+    const id = randomUUID();
+    const link: ShareLink = { ...insertLink, id, createdAt: new Date() };
+    this.shareLinks.set(id, link);
+    return link;
+  }
+
+  async getShareLinkByToken(token: string): Promise<ShareLink | undefined> {
+    return Array.from(this.shareLinks.values()).find((link) => link.token === token);
+  }
+
+  async getShareLinks(documentId: string): Promise<ShareLink[]> {
+    return Array.from(this.shareLinks.values())
+      .filter((link) => link.documentId === documentId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async deleteShareLink(id: string): Promise<void> {
+    this.shareLinks.delete(id);
+  }
+}
+
+export class DbStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createDocument(insertDocument: InsertDocument): Promise<Document> {
+    const [document] = await this.db.insert(documents).values(insertDocument).returning();
+    return document;
+  }
+
+  async getDocument(id: string): Promise<Document | undefined> {
+    const [document] = await this.db.select().from(documents).where(eq(documents.id, id));
+    return document;
+  }
+
+  async getDocumentsByOwner(ownerId: string): Promise<Document[]> {
+    return this.db.select().from(documents).where(eq(documents.ownerId, ownerId));
+  }
+
+  async claimUnowned(ownerId: string): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx.update(documents).set({ ownerId }).where(isNull(documents.ownerId));
+      await tx.update(fonts).set({ ownerId }).where(isNull(fonts.ownerId));
+      await tx.update(templates).set({ ownerId }).where(isNull(templates.ownerId));
+    });
+  }
+
+  async deleteDocument(id: string): Promise<void> {
+    // Text fields, OCR pages, revisions and shares reference the document, so they have to go first
+    await this.db.transaction(async (tx) => {
+      await tx.delete(textFields).where(eq(textFields.documentId, id));
+      await tx.delete(ocrPages).where(eq(ocrPages.documentId, id));
+      await tx.delete(fieldRevisions).where(eq(fieldRevisions.documentId, id));
+      await tx.delete(documentShares).where(eq(documentShares.documentId, id));
+      await tx.delete(shareLinks).where(eq(shareLinks.documentId, id));
+      await tx.delete(documents).where(eq(documents.id, id));
+    });
+  }
+
+  async createTextField(insertTextField: InsertTextField, id?: string): Promise<TextField> {
+    const [textField] = await this.db
+      .insert(textFields)
+      .values(id ? { ...insertTextField, id } : insertTextField)
+      .returning();
+    return textField;
+  }
+
+  async getTextField(id: string): Promise<TextField | undefined> {
+    const [textField] = await this.db.select().from(textFields).where(eq(textFields.id, id));
+    return textField;
+  }
+
+  async getTextFieldsByDocument(documentId: string): Promise<TextField[]> {
+    return this.db.select().from(textFields).where(eq(textFields.documentId, documentId));
+  }
+
+  async updateTextField(id: string, updates: Partial<TextField>): Promise<TextField | undefined> {
+    const { id: _id, ...values } = updates;
+    if (Object.keys(values).length === 0) {
+      return this.getTextField(id);
+    }
+
+    const [updated] = await this.db
+      .update(textFields)
+      .set(values)
+      .where(eq(textFields.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteTextField(id: string): Promise<void> {
+    await this.db.delete(textFields).where(eq(textFields.id, id));
+  }
+
+  async replaceTextFields(documentId: string, fields: TextField[]): Promise<TextField[]> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(textFields).where(eq(textFields.documentId, documentId));
+      if (fields.length === 0) return [];
+      return tx
+        .insert(textFields)
+        .values(fields.map((field) => ({ ...field, documentId })))
+        .returning();
+    });
+  }
+
+  async createFont(insertFont: InsertFont): Promise<CustomFont> {
+    const [font] = await this.db.insert(fonts).values(insertFont).returning();
+    return font;
+  }
+
+  async getFont(id: string, ownerId: string): Promise<CustomFont | undefined> {
+    const [font] = await this.db
+      .select()
+      .from(fonts)
+      .where(and(eq(fonts.id, id), eq(fonts.ownerId, ownerId)));
+    return font;
+  }
+
+  async getFontByFamily(family: string, ownerId: string): Promise<CustomFont | undefined> {
+    const [font] = await this.db
+      .select()
+      .from(fonts)
+      .where(and(eq(fonts.family, family), eq(fonts.ownerId, ownerId)));
+    return font;
+  }
+
+  async getFontsByOwner(ownerId: string): Promise<CustomFont[]> {
+    return this.db.select().from(fonts).where(eq(fonts.ownerId, ownerId));
+  }
+
+  async deleteFont(id: string, ownerId: string): Promise<void> {
+    await this.db.delete(fonts).where(and(eq(fonts.id, id), eq(fonts.ownerId, ownerId)));
+  }
+
+  async createTemplate(insertTemplate: InsertTemplate): Promise<FieldTemplate> {
+    const [template] = await this.db.insert(templates).values(insertTemplate).returning();
+    return template;
+  }
+
+  async getTemplate(id: string, ownerId: string): Promise<FieldTemplate | undefined> {
+    const [template] = await this.db
+      .select()
+      .from(templates)
+      .where(and(eq(templates.id, id), eq(templates.ownerId, ownerId)));
+    return template;
+  }
+
+  async getTemplateByName(name: string, ownerId: string): Promise<FieldTemplate | undefined> {
+    const [template] = await this.db
+      .select()
+      .from(templates)
+      .where(and(eq(templates.name, name), eq(templates.ownerId, ownerId)));
+    return template;
+  }
+
+  async getTemplatesByOwner(ownerId: string): Promise<FieldTemplate[]> {
+    return this.db.select().from(templates).where(eq(templates.ownerId, ownerId));
+  }
+
+  async deleteTemplate(id: string, ownerId: string): Promise<void> {
+    await this.db.delete(templates).where(and(eq(templates.id, id), eq(templates.ownerId, ownerId)));
+  }
+
+  async createOcrPage(insertOcrPage: InsertOcrPage): Promise<OcrPage> {
+    const [page] = await this.db.insert(ocrPages).values(insertOcrPage).returning();
+    return page;
+  }
+
+  async getOcrPagesByDocument(documentId: string): Promise<OcrPage[]> {
+    return this.db
+      .select()
+      .from(ocrPages)
+      .where(eq(ocrPages.documentId, documentId))
+      .orderBy(asc(ocrPages.pageIndex));
+  }
+
+  async createFieldRevision(insertRevision: InsertFieldRevision): Promise<FieldRevision> {
+    // Locking the document row keeps concurrent edits from claiming the same number
+    return this.db.transaction(async (tx) => {
+      await tx
+        .select({ id: documents.id })
+        .from(documents)
+        .where(eq(documents.id, insertRevision.documentId))
+        .for("update");
+      const [latest] = await tx
+        .select({ number: fieldRevisions.number })
+        .from(fieldRevisions)
+        .where(eq(fieldRevisions.documentId, insertRevision.documentId))
+        .orderBy(desc(fieldRevisions.number))
+        .limit(1);
+      const [revision] = await tx
+        .insert(fieldRevisions)
+        .values({ ...insertRevision, number: (latest?.number ?? 0) + 1 })
+        .returning();
+      return revision;
+    });
+  }
+
+  async getFieldRevisions(documentId: string): Promise<FieldRevision[]> {
+    return this.db
+      .select()
+      .from(fieldRevisions)
+      .where(eq(fieldRevisions.documentId, documentId))
+      .orderBy(asc(fieldRevisions.number));
+  }
+
+  async updateFieldRevision(id: string, updates: Partial<InsertFieldRevision>): Promise<FieldRevision | undefined> {
+    const [updated] = await this.db
+      .update(fieldRevisions)
+      .set(updates)
+      .where(eq(fieldRevisions.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getDocumentsSharedWith(userId: string): Promise<SharedDocument[]> {
+    const rows = await this.db
+      .select({ document: documents, role: documentShares.role })
+      .from(documentShares)
+      .innerJoin(documents, eq(documentShares.documentId, documents.id))
+      .where(eq(documentShares.userId, userId));
+    return rows.map(({ document, role }) => ({ ...document, role }));
+  }
+
+  async getDocumentShare(documentId: string, userId: string): Promise<DocumentShare | undefined> {
+    const [share] = await this.db
+      .select()
+      .from(documentShares)
+      .where(and(eq(documentShares.documentId, documentId), eq(documentShares.userId, userId)));
+    return share;
+  }
+
+  async getDocumentShares(documentId: string): Promise<DocumentShareWithUser[]> {
+    const rows = await this.db
+      .select({ share: documentShares, username: users.username })
+      .from(documentShares)
+      .innerJoin(users, eq(documentShares.userId, users.id))
+      .where(eq(documentShares.documentId, documentId))
+      .orderBy(asc(documentShares.createdAt));
+    return rows.map(({ share, username }) => ({ ...share, username }));
+  }
+
+  async saveDocumentShare(insertShare: InsertDocumentShare): Promise<DocumentShare> {
+    const [share] = await this.db
+      .insert(documentShares)
+      .values(insertShare)
+      .onConflictDoUpdate({
+        target: [documentShares.documentId, documentShares.userId],
+        set: { role: insertShare.role },
+      })
+      .returning();
+    return share;
+  }
+
+  async deleteDocumentShare(documentId: string, userId: string): Promise<void> {
+    await this.db
+      .delete(documentShares)
+      .where(and(eq(documentShares.documentId, documentId), eq(documentShares.userId, userId)));
+  }
+
+  async createShareLink(insertLink: InsertShareLink): Promise<ShareLink> {
+    const [link] = await this.db.insert(shareLinks).values(insertLink).returning();
+    return link;
+  }
+
+  async getShareLinkByToken(token: string): Promise<ShareLink | undefined> {
+    const [link] = await this.db.select().from(shareLinks).where(eq(shareLinks.token, token));
+    return link;
+  }
+
+  async getShareLinks(documentId: string): Promise<ShareLink[]> {
+    return this.db
+      .select()
+      .from(shareLinks)
+      .where(eq(shareLinks.documentId, documentId))
+      .orderBy(asc(shareLinks.createdAt));
+  }
+
+  async deleteShareLink(id: string): Promise<void> {
+    await this.db.delete(shareLinks).where(eq(shareLinks.id, id));
+  }
 }
 
-export const storage = new MemStorage();
+// Use Postgres when a database is configured, otherwise keep everything in memory
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DbStorage(createDb(process.env.DATABASE_URL))
+  : new MemStorage();
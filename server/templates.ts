@@ -0,0 +1,77 @@
+import fs from "fs";
+import { PDFDocument } from "pdf-lib";
+import {
+  LAYOUT_FILE_FORMAT,
+  LAYOUT_FILE_VERSION,
+  layoutFieldSchema,
+  layoutFileSchema,
+  type ApplyTemplateOptions,
+  type Document,
+  type LayoutField,
+  type LayoutFile,
+  type TextField,
+} from "@shared/schema";
+
+export type LayoutAdjustment = Pick<ApplyTemplateOptions, "offsetX" | "offsetY" | "scaleX" | "scaleY">;
+
+// Strips a stored field down to its layout: no ids, document or filled-in data
+export function toLayoutField(field: TextField): LayoutField {
+  const { id, documentId, value, signatureImage, ...layout } = field;
+  return layout;
+}
+
+// Moves and scales a field's rect; font sizes follow the smaller scale so
+// text still fits when the aspect ratio changes
+export function adjustLayoutField(field: LayoutField, adjustment: LayoutAdjustment): LayoutField {
+  const { offsetX, offsetY, scaleX, scaleY } = adjustment;
+  return {
+    ...field,
+    x: Math.max(0, field.x * scaleX + offsetX),
+    y: Math.max(0, field.y * scaleY + offsetY),
+    width: field.width * scaleX,
+    height: field.height * scaleY,
+    fontSize: field.fontSize ? field.fontSize * Math.min(scaleX, scaleY) : field.fontSize,
+  };
+}
+
+// Fixed key order and reading order keep exported layouts diff-friendly
+const layoutKeys = Object.keys(layoutFieldSchema.shape) as (keyof LayoutField)[];
+
+function orderLayoutKeys(field: LayoutField): LayoutField {
+  return Object.fromEntries(
+    layoutKeys.filter((key) => field[key] !== undefined).map((key) => [key, field[key]])
+  ) as LayoutField;
+}
+
+export function buildLayoutFile(document: Document, fields: TextField[]): string {
+  const sorted = [...fields].sort(
+    (a, b) => a.pageIndex - b.pageIndex || a.y - b.y || a.x - b.x || a.name.localeCompare(b.name)
+  );
+  const layout: LayoutFile = {
+    format: LAYOUT_FILE_FORMAT,
+    version: LAYOUT_FILE_VERSION,
+    document: {
+      name: document.originalName,
+      pageWidth: document.width,
+      pageHeight: document.height,
+    },
+    fields: sorted.map((field) => orderLayoutKeys(toLayoutField(field))),
+  };
+  return `${JSON.stringify(layout, null, 2)}\n`;
+}
+
+// Throws a ZodError for files that parse but don't match the format
+export function parseLayoutFile(text: string): LayoutFile {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error("The layout file isn't valid JSON");
+  }
+  return layoutFileSchema.parse(json);
+}
+
+export async function countPdfPages(filePath: string): Promise<number> {
+  const pdfDoc = await PDFDocument.load(fs.readFileSync(filePath), { ignoreEncryption: true });
+  return pdfDoc.getPageCount();
+}
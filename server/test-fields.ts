@@ -0,0 +1,31 @@
+import type { TextField } from "@shared/schema";
+
+// A stored field with every column set, for tests that build PDFs or field
+// data without going through storage
+export function textField(overrides: Partial<TextField>): TextField {
+  return {
+    id: "field",
+    documentId: "document",
+    name: "Field",
+    type: "text",
+    pageIndex: 0,
+    x: 0,
+    y: 0,
+    width: 100,
+    height: 20,
+    required: false,
+    fontFamily: "Arial",
+    fontSize: null,
+    textColor: "#000000",
+    textAlign: "left",
+    padding: 2,
+    exportValue: null,
+    groupName: null,
+    options: null,
+    allowCustomText: false,
+    multiSelect: false,
+    signatureImage: null,
+    value: null,
+    ...overrides,
+  };
+}
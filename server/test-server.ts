@@ -0,0 +1,33 @@
+import type { AddressInfo } from "net";
+import express from "express";
+import { registerRoutes } from "./routes";
+
+// The API on a free local port, on whichever storage the environment picks,
+// for tests to call over HTTP
+export async function startTestServer() {
+  const app = express();
+  app.use(express.json());
+  const server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+  return {
+    baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    close: () => {
+      server.closeAllConnections();
+      server.close();
+    },
+  };
+}
+
+// Signs up a new account and returns its session cookie
+export async function registerUser(baseUrl: string, username: string): Promise<string> {
+  const response = await fetch(`${baseUrl}/api/register`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ username, password: "correct horse" }),
+  });
+  if (!response.ok) {
+    throw new Error(`Registering ${username} failed with ${response.status}`);
+  }
+  return response.headers.get("set-cookie")!.split(";")[0];
+}
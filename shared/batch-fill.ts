@@ -0,0 +1,115 @@
+import Papa from "papaparse";
+import { type FieldValue, type FieldValues, type TextField } from "./schema";
+import { fieldDataName, radioGroupKey, storedFieldValues, validateFieldValues } from "./field-values";
+
+// One record of merge data, as parsed from CSV or taken from a JSON array
+export type BatchRow = Record<string, unknown>;
+
+const TRUTHY_VALUES = ["true", "yes", "y", "on", "1", "x", "checked"];
+
+export function parseCsvRows(csv: string): BatchRow[] {
+  const result = Papa.parse<BatchRow>(csv.trim(), {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: (header) => header.trim(),
+  });
+  if (result.errors.length > 0) {
+    const error = result.errors[0];
+    throw new Error(`CSV row ${(error.row ?? 0) + 1}: ${error.message}`);
+  }
+  return result.data;
+}
+
+// Every column that appears in any row, in first-seen order
+export function getBatchColumns(rows: BatchRow[]): string[] {
+  const columns = new Set<string>();
+  rows.forEach((row) => Object.keys(row).forEach((column) => columns.add(column)));
+  return Array.from(columns);
+}
+
+const toText = (raw: unknown): string => (raw === null || raw === undefined ? "" : String(raw).trim());
+
+// Matches a cell against a choice field's export values first, then its labels
+function toOptionValue(field: TextField, raw: string): string {
+  const option =
+    field.options?.find((option) => option.value === raw) ??
+    field.options?.find((option) => option.label.toLowerCase() === raw.toLowerCase());
+  return option?.value ?? raw;
+}
+
+function toFieldValue(field: TextField, raw: unknown): FieldValue {
+  if (field.type === "checkbox") {
+    if (typeof raw === "boolean") return raw;
+    const text = toText(raw).toLowerCase();
+    return TRUTHY_VALUES.includes(text) || (!!field.exportValue && text === field.exportValue.toLowerCase());
+  }
+  if (field.type === "radio") {
+    return toText(raw) === (field.exportValue || field.name);
+  }
+  if (field.type === "listbox") {
+    // Several selections are separated by semicolons or given as a JSON array
+    const items = Array.isArray(raw) ? raw.map(toText) : toText(raw).split(";").map((item) => item.trim());
+    return items.filter((item) => item !== "").map((item) => toOptionValue(field, item));
+  }
+  if (field.type === "dropdown") {
+    const text = toText(raw);
+    return text ? toOptionValue(field, text) : "";
+  }
+  return toText(raw);
+}
+
+// Maps one row onto field values by field name (see fieldDataName); fields
+// without a column keep their defaults
+export function rowToFieldValues(fields: TextField[], row: BatchRow): FieldValues {
+  const values: FieldValues = {};
+  for (const field of fields) {
+    const column = fieldDataName(field);
+    if (Object.prototype.hasOwnProperty.call(row, column)) {
+      values[field.id] = toFieldValue(field, row[column]);
+    }
+  }
+  return values;
+}
+
+export interface BatchRowProblem {
+  row: number; // 1-based, counting data rows only
+  message: string;
+}
+
+export interface BatchMappingPreview {
+  matchedColumns: string[];
+  unmatchedColumns: string[];
+  // Fields no column feeds, so every copy gets their saved or default value
+  unmappedFields: TextField[];
+  problems: BatchRowProblem[];
+}
+
+export function previewBatchMapping(fields: TextField[], rows: BatchRow[]): BatchMappingPreview {
+  const columns = getBatchColumns(rows);
+  const fieldColumns = new Set(fields.map(fieldDataName));
+
+  const seenGroups = new Set<string>();
+  const unmappedFields = fields.filter((field) => {
+    if (columns.includes(fieldDataName(field))) return false;
+    // List each radio group once
+    if (field.type === "radio") {
+      if (seenGroups.has(radioGroupKey(field))) return false;
+      seenGroups.add(radioGroupKey(field));
+    }
+    return true;
+  });
+
+  const stored = storedFieldValues(fields);
+  const problems: BatchRowProblem[] = [];
+  rows.forEach((row, index) => {
+    const problem = validateFieldValues(fields, { ...stored, ...rowToFieldValues(fields, row) });
+    if (problem) problems.push({ row: index + 1, message: problem.message });
+  });
+
+  return {
+    matchedColumns: columns.filter((column) => fieldColumns.has(column)),
+    unmatchedColumns: columns.filter((column) => !fieldColumns.has(column)),
+    unmappedFields,
+    problems,
+  };
+}
@@ -0,0 +1,53 @@
+import { z } from "zod";
+import { type FieldRevisionChange } from "./schema";
+
+// Vite's HMR socket shares the HTTP server, so collaboration gets its own path
+export const COLLABORATION_PATH = "/ws/collaborate";
+
+// Close codes for refusals that reconnecting won't fix
+export const CLOSE_INVALID_MESSAGE = 4400;
+export const CLOSE_UNAUTHORIZED = 4401;
+export const CLOSE_NOT_FOUND = 4404;
+export const FINAL_CLOSE_CODES = [CLOSE_INVALID_MESSAGE, CLOSE_UNAUTHORIZED, CLOSE_NOT_FOUND];
+
+// Where someone's pointer is, in page points
+export const cursorPositionSchema = z.object({
+  pageIndex: z.number().int().min(0),
+  x: z.number(),
+  y: z.number(),
+});
+
+export const clientMessageSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("join"),
+    documentId: z.string(),
+    clientId: z.string().min(1).max(100),
+  }),
+  // Only the parts that changed are sent
+  z.object({
+    type: z.literal("presence"),
+    cursor: cursorPositionSchema.nullable().optional(),
+    selection: z.array(z.string()).max(500).optional(),
+  }),
+]);
+
+export type CursorPosition = z.infer<typeof cursorPositionSchema>;
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+
+// Someone with the document open, named after their account. The id is the
+// one their tab sends as X-Client-Id, so field events can be traced back to it.
+export type Collaborator = {
+  id: string;
+  name: string;
+  color: string;
+  cursor: CursorPosition | null;
+  selection: string[];
+};
+
+export type ServerMessage =
+  | { type: "welcome"; seq: number; self: Collaborator; collaborators: Collaborator[] }
+  | { type: "collaborator"; collaborator: Collaborator }
+  | { type: "left"; clientId: string }
+  // Field changes in the order the server applied them. `seq` counts up by
+  // one per message within a document; `origin` is the tab that made them.
+  | { type: "fields"; seq: number; origin: string | null; changes: FieldRevisionChange[] };
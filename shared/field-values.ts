@@ -0,0 +1,124 @@
+import { pngDataUrlSchema, type FieldValue, type FieldValues, type TextField } from "./schema";
+
+export const isFieldValueEmpty = (value: FieldValue | null | undefined): boolean =>
+  value === undefined ||
+  value === null ||
+  value === false ||
+  (typeof value === "string" && value.trim() === "") ||
+  (Array.isArray(value) && value.length === 0);
+
+// Radio buttons are exclusive within their group; ungrouped ones stand alone
+export const radioGroupKey = (field: TextField): string => field.groupName || field.id;
+
+// The name a field's data goes by outside the editor (merge columns, FDF/XFDF):
+// radio buttons share their group's name, as they share one field in the PDF
+export const fieldDataName = (field: TextField): string =>
+  field.type === "radio" ? field.groupName || field.name : field.name;
+
+// Values saved on the fields themselves, skipping any that no longer fit the
+// field (e.g. an imported choice whose option was since removed)
+export function storedFieldValues(fields: TextField[]): FieldValues {
+  const values: FieldValues = {};
+  for (const field of fields) {
+    if (field.value !== null && field.value !== undefined) values[field.id] = field.value;
+  }
+  const invalid = new Set(findInvalidFieldValues(fields, values).map((field) => field.id));
+  invalid.forEach((id) => delete values[id]);
+  return values;
+}
+
+// The values a form starts with: saved values, default choices, and any
+// signature already captured in the editor
+export function getInitialFieldValues(fields: TextField[]): FieldValues {
+  const stored = storedFieldValues(fields);
+  const values: FieldValues = {};
+  for (const field of fields) {
+    if (field.id in stored) {
+      values[field.id] = stored[field.id];
+      continue;
+    }
+
+    const defaults = (field.options ?? []).filter((option) => option.selected).map((option) => option.value);
+    if (field.type === "checkbox" || field.type === "radio") {
+      values[field.id] = false;
+    } else if (field.type === "dropdown") {
+      values[field.id] = defaults[0] ?? "";
+    } else if (field.type === "listbox") {
+      values[field.id] = defaults;
+    } else if (field.type === "signature") {
+      if (field.signatureImage) values[field.id] = field.signatureImage;
+    } else {
+      values[field.id] = "";
+    }
+  }
+  return values;
+}
+
+// Required fields left empty; a radio group is filled once any of its buttons
+// is selected, and a signature captured in the editor counts as signed
+export function findMissingRequiredFields(fields: TextField[], values: FieldValues): TextField[] {
+  return fields.filter((field) => {
+    if (!field.required) return false;
+    if (field.type === "radio") {
+      return !fields.some(
+        (other) => other.type === "radio" && radioGroupKey(other) === radioGroupKey(field) && values[other.id] === true
+      );
+    }
+    if (field.type === "signature") {
+      return isFieldValueEmpty(values[field.id] ?? field.signatureImage);
+    }
+    return isFieldValueEmpty(values[field.id]);
+  });
+}
+
+// Fields whose value has the wrong shape for their type, or picks a
+// choice the field doesn't offer
+export function findInvalidFieldValues(fields: TextField[], values: FieldValues): TextField[] {
+  return fields.filter((field) => {
+    const value = values[field.id];
+    if (value === undefined) return false;
+
+    const optionValues = (field.options ?? []).map((option) => option.value);
+    switch (field.type) {
+      case "checkbox":
+      case "radio":
+        return typeof value !== "boolean";
+      case "dropdown":
+        return typeof value !== "string" || (value !== "" && !field.allowCustomText && !optionValues.includes(value));
+      case "listbox":
+        return (
+          !Array.isArray(value) ||
+          (!field.multiSelect && value.length > 1) ||
+          value.some((item) => !optionValues.includes(item))
+        );
+      case "signature":
+        return typeof value !== "string" || (value !== "" && !pngDataUrlSchema.safeParse(value).success);
+      default:
+        return typeof value !== "string";
+    }
+  });
+}
+
+// The first problem that stops these values from producing a PDF, if any
+export function validateFieldValues(
+  fields: TextField[],
+  values: FieldValues
+): { message: string; fieldIds: string[] } | null {
+  const invalid = findInvalidFieldValues(fields, values);
+  if (invalid.length > 0) {
+    return {
+      message: `Invalid values for: ${invalid.map((field) => field.name).join(", ")}`,
+      fieldIds: invalid.map((field) => field.id),
+    };
+  }
+
+  const missing = findMissingRequiredFields(fields, values);
+  if (missing.length > 0) {
+    return {
+      message: `Required fields are empty: ${missing.map((field) => field.name).join(", ")}`,
+      fieldIds: missing.map((field) => field.id),
+    };
+  }
+
+  return null;
+}
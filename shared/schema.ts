@@ -1,10 +1,20 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, real, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, real, integer, boolean, jsonb, timestamp, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  username: text("username").notNull().unique(),
+  // scrypt hash and its salt as "hash.salt", both hex
+  password: text("password").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 export const documents = pgTable("documents", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  // Null only for documents uploaded before accounts existed
+  ownerId: varchar("owner_id").references(() => users.id),
   filename: text("filename").notNull(),
   originalName: text("original_name").notNull(),
   mimeType: text("mime_type").notNull(),
@@ -13,40 +23,461 @@ export const documents = pgTable("documents", {
   height: real("height"),
 });
 
+export const fieldTypes = ["text", "checkbox", "radio", "dropdown", "listbox", "signature"] as const;
+export type FieldType = (typeof fieldTypes)[number];
+
+export const textAlignments = ["left", "center", "right"] as const;
+export type TextAlign = (typeof textAlignments)[number];
+
+const hexColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Color must be a hex value like #000000");
+
+const PNG_SIGNATURE = "\x89PNG\r\n\x1a\n";
+
+// Whether a data URL's bytes start the way every PNG does: the signature, then
+// the IHDR chunk. pdf-lib can't embed anything else as a signature.
+function hasPngHeader(dataUrl: string) {
+  try {
+    const header = atob(dataUrl.slice(dataUrl.indexOf(",") + 1, dataUrl.indexOf(",") + 25));
+    return header.startsWith(PNG_SIGNATURE) && header.slice(12, 16) === "IHDR";
+  } catch {
+    return false;
+  }
+}
+
+export const pngDataUrlSchema = z
+  .string()
+  .regex(/^data:image\/png;base64,[A-Za-z0-9+/]+=*$/, "Signature must be a PNG data URL")
+  .refine(hasPngHeader, "Signature isn't a readable PNG image");
+
+export const fieldOptionSchema = z.object({
+  label: z.string().min(1, "Option text is required"),
+  value: z.string().min(1, "Export value is required"),
+  selected: z.boolean().optional(),
+});
+
+export type FieldOption = z.infer<typeof fieldOptionSchema>;
+
+// Values entered in fill mode, keyed by field id: text for text fields and
+// dropdowns, option values for list boxes, the checked state for check boxes
+// and radio buttons, and a PNG data URL for signatures
+export const fieldValueSchema = z.union([z.string(), z.array(z.string()), z.boolean()]);
+export type FieldValue = z.infer<typeof fieldValueSchema>;
+
+// Fonts available without uploading anything; Arial maps onto Helvetica on export
+export const builtInFonts = ["Arial", "Allura", "Dancing Script"] as const;
+
+// Uploaded fonts belong to whoever uploaded them; family names only have to
+// be unique within one account
+export const fonts = pgTable(
+  "fonts",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    // Null only for fonts uploaded before accounts existed
+    ownerId: varchar("owner_id").references(() => users.id),
+    family: text("family").notNull(),
+    filename: text("filename").notNull(),
+    originalName: text("original_name").notNull(),
+    format: text("format").notNull(),
+    size: integer("size").notNull(),
+  },
+  (table) => [unique().on(table.ownerId, table.family)]
+);
+
 export const textFields = pgTable("text_fields", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   documentId: varchar("document_id").references(() => documents.id).notNull(),
   name: text("name").notNull(),
+  type: text("type").$type<FieldType>().notNull().default("text"),
+  pageIndex: integer("page_index").notNull().default(0),
   x: real("x").notNull(),
   y: real("y").notNull(),
   width: real("width").notNull(),
   height: real("height").notNull(),
   required: boolean("required").default(false),
   fontFamily: text("font_family").default("Arial"),
+  // Null means auto-size
+  fontSize: real("font_size"),
+  textColor: text("text_color").default("#000000"),
+  textAlign: text("text_align").$type<TextAlign>().default("left"),
+  // Inner padding in points between the field border and its text
+  padding: real("padding").default(2),
+  // Checkbox/radio: the value the field takes when checked
+  exportValue: text("export_value"),
+  // Radio: widgets sharing a group name are mutually exclusive
+  groupName: text("group_name"),
+  // Dropdown/listbox: the choices offered, with the default selection marked
+  options: jsonb("options").$type<FieldOption[]>(),
+  allowCustomText: boolean("allow_custom_text").default(false),
+  multiSelect: boolean("multi_select").default(false),
+  // Signature: the captured signature as a PNG data URL, stamped into the widget on export
+  signatureImage: text("signature_image"),
+  // Value filled in on export, e.g. imported from FDF/XFDF; null leaves the default
+  value: jsonb("value").$type<FieldValue>(),
+});
+
+// A reusable field layout: the field set of one document, without its values.
+// Each account keeps its own, so names only have to be unique within one.
+export const templates = pgTable(
+  "templates",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    // Null only for templates saved before accounts existed
+    ownerId: varchar("owner_id").references(() => users.id),
+    name: text("name").notNull(),
+    // First page size of the source document, for scaling onto other page sizes
+    pageWidth: real("page_width"),
+    pageHeight: real("page_height"),
+    fields: jsonb("fields").$type<LayoutField[]>().notNull(),
+  },
+  (table) => [unique().on(table.ownerId, table.name)]
+);
+
+// A word recognized by OCR, in points from the page's top-left corner;
+// confidence is Tesseract's 0-100 certainty
+export const ocrWordSchema = z.object({
+  text: z.string(),
+  x: z.number(),
+  y: z.number(),
+  width: z.number(),
+  height: z.number(),
+  confidence: z.number(),
+});
+export type OcrWord = z.infer<typeof ocrWordSchema>;
+
+// Recognized text of one scanned page; the same words are drawn invisibly
+// into the stored PDF so pdf.js can find them
+export const ocrPages = pgTable("ocr_pages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").references(() => documents.id).notNull(),
+  pageIndex: integer("page_index").notNull().default(0),
+  text: text("text").notNull(),
+  words: jsonb("words").$type<OcrWord[]>().notNull(),
+});
+
+// One change to a field. Creates and deletes hold the whole field; updates
+// hold only the properties that changed.
+export const revisionActions = ["create", "update", "delete"] as const;
+export type RevisionAction = (typeof revisionActions)[number];
+
+export type FieldRevisionChange = {
+  fieldId: string;
+  action: RevisionAction;
+  before: Partial<TextField> | null;
+  after: Partial<TextField> | null;
+};
+
+// The document's field layout history. Replaying revisions 1..n in order
+// gives the layout as of revision n.
+export const fieldRevisions = pgTable("field_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").references(() => documents.id).notNull(),
+  // Counts up from 1 within each document
+  number: integer("number").notNull(),
+  // Who made the change, when known
+  author: text("author"),
+  summary: text("summary").notNull(),
+  changes: jsonb("changes").$type<FieldRevisionChange[]>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// What someone can do with a document they don't own, weakest first: fillers
+// only get the fill view, viewers can also open the editor and download
+// copies, editors can change the fields. Owners can also delete the
+// document and decide who it's shared with.
+export const shareRoles = ["filler", "viewer", "editor"] as const;
+export type ShareRole = (typeof shareRoles)[number];
+export type DocumentRole = ShareRole | "owner";
+
+export const documentShares = pgTable(
+  "document_shares",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    documentId: varchar("document_id").references(() => documents.id).notNull(),
+    userId: varchar("user_id").references(() => users.id).notNull(),
+    role: text("role").$type<ShareRole>().notNull(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [unique().on(table.documentId, table.userId)]
+);
+
+// Opens a document's fill view for anyone with the token, no account needed
+export const shareLinks = pgTable("share_links", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").references(() => documents.id).notNull(),
+  token: text("token").notNull().unique(),
+  createdBy: varchar("created_by").references(() => users.id).notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Usernames are compared lowercased, so "Sam" and "sam" can't both sign up
+export const insertUserSchema = createInsertSchema(users, {
+  username: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .min(3, "Username must be at least 3 characters")
+    .max(40, "Username must be at most 40 characters")
+    .regex(/^[a-z0-9_.-]+$/, "Username can only contain letters, numbers, dots, dashes and underscores"),
+  password: z.string().min(8, "Password must be at least 8 characters").max(200),
+}).pick({
+  username: true,
+  password: true,
 });
 
 export const insertDocumentSchema = createInsertSchema(documents).omit({
   id: true,
 });
 
-export const insertTextFieldSchema = createInsertSchema(textFields).omit({
+export const insertTextFieldSchema = createInsertSchema(textFields, {
+  type: z.enum(fieldTypes).optional(),
+  pageIndex: (schema) => schema.int().min(0),
+  width: (schema) => schema.positive(),
+  height: (schema) => schema.positive(),
+  textColor: hexColorSchema.nullish(),
+  textAlign: z.enum(textAlignments).nullish(),
+  padding: z.number().min(0).nullish(),
+  options: z.array(fieldOptionSchema).nullish(),
+  signatureImage: pngDataUrlSchema.nullish(),
+  value: fieldValueSchema.nullish(),
+}).omit({
+  id: true,
+});
+
+export const insertFieldRevisionSchema = createInsertSchema(fieldRevisions, {
+  changes: z.array(z.custom<FieldRevisionChange>()),
+}).omit({
+  id: true,
+  number: true,
+  createdAt: true,
+});
+
+export const insertDocumentShareSchema = createInsertSchema(documentShares, {
+  role: z.enum(shareRoles),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertShareLinkSchema = createInsertSchema(shareLinks).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Sharing goes by username, since that's what people know each other by
+export const shareDocumentSchema = z.object({
+  username: z.string().trim().toLowerCase().min(1, "Username is required"),
+  role: z.enum(shareRoles),
+});
+
+export const MAX_SHARE_LINK_DAYS = 90;
+
+export const createShareLinkSchema = z.object({
+  expiresInDays: z.number().int().min(1).max(MAX_SHARE_LINK_DAYS).default(7),
+});
+
+export const insertOcrPageSchema = createInsertSchema(ocrPages, {
+  words: z.array(ocrWordSchema),
+}).omit({
+  id: true,
+});
+
+export const insertFontSchema = createInsertSchema(fonts, {
+  family: z.string().trim().min(1, "Font family is required"),
+  format: z.enum(["ttf", "otf"]),
+}).omit({
+  id: true,
+});
+
+export const updateTextFieldSchema = insertTextFieldSchema.omit({
+  documentId: true,
+}).partial();
+
+// A field's layout and settings, independent of any document or filled value
+export const layoutFieldSchema = insertTextFieldSchema.omit({
+  documentId: true,
+  value: true,
+  signatureImage: true,
+});
+
+export const insertTemplateSchema = createInsertSchema(templates, {
+  name: z.string().trim().min(1, "Template name is required"),
+  fields: z.array(layoutFieldSchema),
+}).omit({
   id: true,
 });
 
+export const saveTemplateSchema = z.object({
+  name: z.string().trim().min(1, "Template name is required"),
+  documentId: z.string().min(1),
+});
+
+// Template rects are mapped onto the target as x * scaleX + offsetX, etc.
+export const applyTemplateSchema = z.object({
+  templateId: z.string().min(1),
+  offsetX: z.number().default(0),
+  offsetY: z.number().default(0),
+  scaleX: z.number().positive().default(1),
+  scaleY: z.number().positive().default(1),
+  replaceExisting: z.boolean().default(false),
+});
+
+// Downloadable field layout; bump the version whenever the field shape changes
+// in a way older readers can't handle
+export const LAYOUT_FILE_FORMAT = "fillable-layout";
+export const LAYOUT_FILE_VERSION = 1;
+
+export const layoutFileSchema = z.object({
+  format: z.literal(LAYOUT_FILE_FORMAT, {
+    errorMap: () => ({ message: "Not a field layout file" }),
+  }),
+  version: z
+    .number()
+    .int()
+    .min(1)
+    .max(LAYOUT_FILE_VERSION, `Layout files newer than version ${LAYOUT_FILE_VERSION} aren't supported`),
+  document: z
+    .object({
+      name: z.string(),
+      pageWidth: z.number().nullable(),
+      pageHeight: z.number().nullable(),
+    })
+    .optional(),
+  fields: z.array(layoutFieldSchema),
+});
+
+export const importLayoutSchema = z.object({
+  replaceExisting: z.enum(["true", "false"]).default("false").transform((value) => value === "true"),
+});
+
+// Fields proposed by automatic detection, in the same page coordinates as
+// stored fields; nothing is saved until the user accepts a suggestion
+export const detectionSources = ["box", "underscore", "line"] as const;
+export type DetectionSource = (typeof detectionSources)[number];
+
+export type FieldSuggestion = {
+  id: string;
+  type: "text" | "checkbox";
+  source: DetectionSource;
+  // Taken from the nearest label, when there is one
+  name?: string;
+  pageIndex: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+// A new name for an existing field, taken from the label text next to it
+export type FieldNameProposal = {
+  fieldId: string;
+  label: string;
+  name: string;
+};
+
+// Ruled lines drawn on a page (rules, box edges, underscores), which the
+// editor snaps fields to
+export type PageLines = {
+  pageIndex: number;
+  horizontal: { x1: number; x2: number; y: number }[];
+  vertical: { y1: number; y2: number; x: number }[];
+};
+
+// What changed between two revisions of a document's layout; revision 0 is
+// the empty layout before any revision
+export type RevisionDiff = {
+  from: number;
+  to: number;
+  changes: FieldRevisionChange[];
+};
+
+export const exportPdfSchema = z.object({
+  font: z.string().min(1).default("Arial"),
+  // Burn field appearances into the page content so the copy can't be edited
+  flatten: z.boolean().default(false),
+});
+
+export const fillPdfSchema = exportPdfSchema.extend({
+  values: z.record(z.string(), fieldValueSchema).default({}),
+});
+
+// Mail merge: one filled copy per CSV/JSON row
+export const MAX_BATCH_ROWS = 1000;
+export const batchOutputs = ["zip", "pdf"] as const;
+
+export const batchFillSchema = exportPdfSchema
+  .extend({
+    csv: z.string().optional(),
+    rows: z.array(z.record(z.string(), z.unknown())).optional(),
+    // "pdf" concatenates every copy into one flattened file
+    output: z.enum(batchOutputs).default("zip"),
+  })
+  .refine((body) => (body.csv === undefined) !== (body.rows === undefined), "Provide either csv or rows");
+
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type User = typeof users.$inferSelect;
+// What the API shows of an account; the password hash never leaves the server
+export type PublicUser = Omit<User, "password">;
 export type InsertDocument = z.infer<typeof insertDocumentSchema>;
 export type Document = typeof documents.$inferSelect;
+// A document as listed for someone, with what they're allowed to do with it.
+// Where the file is stored and who owns it stay on the server.
+export type DocumentWithRole = Omit<Document, "filename" | "ownerId"> & { role: DocumentRole };
+// A single document as the fill view gets it, leaving out where the file is
+// stored and who owns it
+export type DocumentSummary = Pick<Document, "id" | "originalName" | "size"> & {
+  pageCount: number;
+  role: DocumentRole;
+};
+export type InsertDocumentShare = z.infer<typeof insertDocumentShareSchema>;
+export type DocumentShare = typeof documentShares.$inferSelect;
+// A share as the owner sees it, with the account it was given to
+export type DocumentShareWithUser = DocumentShare & { username: string };
+export type InsertShareLink = z.infer<typeof insertShareLinkSchema>;
+export type ShareLink = typeof shareLinks.$inferSelect;
 export type InsertTextField = z.infer<typeof insertTextFieldSchema>;
 export type TextField = typeof textFields.$inferSelect;
+export type InsertFont = z.infer<typeof insertFontSchema>;
+export type CustomFont = typeof fonts.$inferSelect;
+// A font as the API lists it, leaving out where the file is stored and who owns it
+export type FontSummary = Omit<CustomFont, "filename" | "ownerId">;
+export type UpdateTextField = z.infer<typeof updateTextFieldSchema>;
+export type LayoutField = z.infer<typeof layoutFieldSchema>;
+export type InsertTemplate = z.infer<typeof insertTemplateSchema>;
+export type FieldTemplate = typeof templates.$inferSelect;
+export type InsertFieldRevision = z.infer<typeof insertFieldRevisionSchema>;
+export type FieldRevision = typeof fieldRevisions.$inferSelect;
+export type InsertOcrPage = z.infer<typeof insertOcrPageSchema>;
+export type OcrPage = typeof ocrPages.$inferSelect;
+export type ApplyTemplateOptions = z.infer<typeof applyTemplateSchema>;
+export type LayoutFile = z.infer<typeof layoutFileSchema>;
+export type ExportPdfOptions = z.infer<typeof exportPdfSchema>;
+export type FieldValues = Record<string, FieldValue>;
+export type FillPdfOptions = z.infer<typeof fillPdfSchema>;
+export type BatchOutput = (typeof batchOutputs)[number];
 
 export const textFieldSchema = z.object({
   id: z.string().cuid(),
   documentId: z.string().cuid(),
   name: z.string().min(1, "Field name is required"),
+  type: z.enum(fieldTypes).default("text"),
+  pageIndex: z.number().int().min(0).default(0),
   x: z.number().min(0),
   y: z.number().min(0),
   width: z.number().min(1),
   height: z.number().min(1),
   required: z.boolean().default(false),
-  fontFamily: z.enum(["Arial", "Allura", "Dancing Script"]).default("Arial"),
+  fontFamily: z.string().min(1).default("Arial"),
+  fontSize: z.number().positive().nullable().default(null),
+  textColor: hexColorSchema.default("#000000"),
+  textAlign: z.enum(textAlignments).default("left"),
+  padding: z.number().min(0).default(2),
+  exportValue: z.string().min(1).optional(),
+  groupName: z.string().min(1).optional(),
+  options: z.array(fieldOptionSchema).optional(),
+  allowCustomText: z.boolean().default(false),
+  multiSelect: z.boolean().default(false),
+  signatureImage: pngDataUrlSchema.optional(),
+  value: fieldValueSchema.optional(),
   createdAt: z.date().default(() => new Date()),
 });
\ No newline at end of file